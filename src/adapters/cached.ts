@@ -0,0 +1,347 @@
+// src/adapters/cached.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { sizeUtils } from '../utils/compression.js';
+import { adapterEntries, listRecord, readAdapterRecords, replaceAdapterRecords } from '../utils/iteration.js';
+import { compareAndSaveRecord } from '../utils/version.js';
+import type { Emitter } from '../utils/Emitter.js';
+import type { DataStorageEventMap } from '../core/storage.js';
+
+export type CacheWriteMode = 'write-through' | 'write-back';
+
+export interface CachedAdapterOptions<T = unknown> {
+  maxEntries?: number; // Default 1000
+  maxBytes?: number; // Approximate size of the cached JSON; unbounded by default
+  ttl?: number; // Milliseconds a cached read stays valid; no expiry by default
+  writeMode?: CacheWriteMode; // Default 'write-through'
+  flushInterval?: number; // write-back: milliseconds between automatic flushes (default 1000, 0 disables)
+  cacheMisses?: boolean; // Remember keys the inner adapter does not have (default true)
+  invalidateOn?: Emitter<DataStorageEventMap<T>> | Emitter; // Shortcut for watch(emitter)
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number; // Only tracked when maxBytes is set
+  dirty: number; // write-back: changes not yet written to the inner adapter
+  hitRate: number;
+}
+
+// Events that invalidate cached keys by default. 'change' is left out: in the 'all' emit mode
+// it fires on every write, so invalidating on it would empty the cache all the time.
+// 'changes' (coalesced writes) names the keys it covers.
+export const DEFAULT_INVALIDATION_EVENTS = ['invalidate', 'save', 'delete', 'update', 'expire', 'clear', 'restore', 'changes'];
+
+interface CacheEntry<T> {
+  value: T | null; // null: the key does not exist (or was deleted, when dirty)
+  size: number;
+  expiresAt?: number;
+  dirty: boolean;
+}
+
+// Bounded LRU read cache in front of any adapter. In write-back mode saves and deletes stay in
+// the cache until flush(); reads that cannot be answered from the cache flush first. A DataStorage
+// in the 'all' emit mode reads the whole state after every write, which flushes on each write;
+// use another emit mode to get the benefit of write-back.
+export class CachedAdapter<T> implements StorageAdapter<T> {
+  private inner: StorageAdapter<T>;
+  private maxEntries: number;
+  private maxBytes: number;
+  private ttl?: number;
+  private writeMode: CacheWriteMode;
+  private cacheMisses: boolean;
+  private cache = new Map<string, CacheEntry<T>>();
+  private bytes = 0;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(inner: StorageAdapter<T>, options: CachedAdapterOptions<T> = {}) {
+    this.inner = inner;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.ttl = options.ttl;
+    this.writeMode = options.writeMode || 'write-through';
+    this.cacheMisses = options.cacheMisses ?? true;
+
+    const flushInterval = options.flushInterval ?? 1000;
+    if (this.writeMode === 'write-back' && flushInterval > 0) {
+      this.flushTimer = setInterval(() => {
+        this.flush().catch(error => console.warn('Error flushing cache:', error));
+      }, flushInterval);
+      // In Node.js the flush timer must not keep the process alive
+      (this.flushTimer as { unref?: () => void }).unref?.();
+    }
+    if (options.invalidateOn) {
+      this.watch(options.invalidateOn);
+    }
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    if (this.writeMode === 'write-back') {
+      this.store(key, data, true);
+      return;
+    }
+    try {
+      await this.inner.save(key, data);
+    } catch (error) {
+      this.invalidate(key);
+      throw error;
+    }
+    this.store(key, data, false);
+  }
+
+  async load(key: string): Promise<T | null> {
+    const entry = this.lookup(key);
+    if (entry) {
+      this.stats.hits++;
+      return entry.value;
+    }
+
+    this.stats.misses++;
+    const value = await this.inner.load(key);
+    if (value !== null || this.cacheMisses) {
+      // A write that happened while loading wins over the value read
+      if (!this.cache.has(key)) {
+        this.store(key, value, false);
+      }
+    }
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.writeMode === 'write-back') {
+      this.store(key, null, true);
+      return;
+    }
+    try {
+      await this.inner.delete(key);
+    } finally {
+      this.invalidate(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    // Pending changes are discarded: they would be cleared anyway
+    this.discard();
+    await this.inner.clear();
+  }
+
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    await this.flush();
+    const saved = await compareAndSaveRecord(this.inner, key, expectedVersion, data);
+    if (saved) {
+      this.store(key, data, false);
+    } else {
+      this.invalidate(key);
+    }
+    return saved;
+  }
+
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    this.discard();
+    await replaceAdapterRecords(this.inner, data);
+  }
+
+  async has(key: string): Promise<boolean> {
+    const entry = this.lookup(key);
+    if (entry) {
+      this.stats.hits++;
+      return entry.value !== null;
+    }
+    if (typeof this.inner.has === 'function') {
+      await this.flush();
+      return await this.inner.has(key);
+    }
+    return (await this.load(key)) !== null;
+  }
+
+  // Enumerations always go to the inner adapter, after writing pending changes
+  async getAll(): Promise<Record<string, T>> {
+    await this.flush();
+    return await readAdapterRecords(this.inner);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    await this.flush();
+    yield* adapterEntries(this.inner);
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    await this.flush();
+    if (typeof this.inner.list === 'function') {
+      return await this.inner.list(options);
+    }
+    return listRecord(await readAdapterRecords(this.inner), options);
+  }
+
+  // Writes pending write-back changes to the inner adapter. Flushes run one after another
+  async flush(): Promise<void> {
+    const run = this.flushing.then(() => this.writeDirty());
+    this.flushing = run.catch(() => undefined);
+    await run;
+  }
+
+  // Drops one key, or every cached key when no key is given. Unflushed write-back changes are
+  // kept: they are newer than what the inner adapter holds and overwrite it on the next flush
+  invalidate(key?: string): void {
+    if (key !== undefined) {
+      if (!this.cache.get(key)?.dirty) {
+        this.drop(key);
+      }
+      return;
+    }
+    for (const [cachedKey, entry] of this.cache) {
+      if (!entry.dirty) {
+        this.drop(cachedKey);
+      }
+    }
+  }
+
+  // Invalidates cached keys when another writer reports a change. Payloads with `key` or `keys`
+  // invalidate those keys; anything else (or `cleared: true`) empties the cache. Returns a
+  // function to stop watching.
+  watch(emitter: Emitter<DataStorageEventMap<T>> | Emitter, events: string[] = DEFAULT_INVALIDATION_EVENTS): () => void {
+    // The events may include names outside the storage map, such as 'invalidate'
+    const source = emitter as Emitter;
+    const unsubscribers = events.map(event => source.on(event, (data: unknown) => this.invalidatePayload(data)));
+    const unsubscribe = () => unsubscribers.forEach(stop => stop());
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      entries: this.cache.size,
+      bytes: this.bytes,
+      dirty: [...this.cache.values()].filter(entry => entry.dirty).length,
+      hitRate: lookups === 0 ? 0 : this.stats.hits / lookups
+    };
+  }
+
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+  }
+
+  // Stops the flush timer and the event subscriptions; call flush() first to keep pending changes
+  dispose(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  getInner(): StorageAdapter<T> {
+    return this.inner;
+  }
+
+  private invalidatePayload(data: unknown): void {
+    const payload = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+    if (typeof payload.key === 'string') {
+      this.invalidate(payload.key);
+    } else if (Array.isArray(payload.keys) && payload.cleared !== true) {
+      for (const key of payload.keys) {
+        if (typeof key === 'string') {
+          this.invalidate(key);
+        }
+      }
+    } else {
+      this.invalidate();
+    }
+  }
+
+  // Fresh entry for the key, moved to the most recently used position
+  private lookup(key: string): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (!entry.dirty && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.invalidate(key);
+      return undefined;
+    }
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private store(key: string, value: T | null, dirty: boolean): void {
+    this.drop(key);
+    const entry: CacheEntry<T> = {
+      value,
+      size: this.maxBytes === Infinity ? 0 : sizeUtils.getStringSize(JSON.stringify(value) ?? ''),
+      expiresAt: this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+      dirty
+    };
+    // A clean value that alone exceeds maxBytes would evict everything else
+    if (!dirty && entry.size > this.maxBytes) {
+      return;
+    }
+    this.cache.set(key, entry);
+    this.bytes += entry.size;
+    this.evict();
+  }
+
+  private drop(key: string): void {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.cache.delete(key);
+      this.bytes -= entry.size;
+    }
+  }
+
+  // Empties the cache, unflushed changes included
+  private discard(): void {
+    this.cache.clear();
+    this.bytes = 0;
+  }
+
+  // Least recently used first. Dirty entries are never evicted; if they alone exceed the limits, flush them
+  private evict(): void {
+    let pendingDirty = false;
+    for (const [key, entry] of this.cache) {
+      if (this.cache.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        return;
+      }
+      if (entry.dirty) {
+        pendingDirty = true;
+        continue;
+      }
+      this.invalidate(key);
+      this.stats.evictions++;
+    }
+    if (pendingDirty) {
+      this.flush().catch(error => console.warn('Error flushing cache:', error));
+    }
+  }
+
+  private async writeDirty(): Promise<void> {
+    const dirty = [...this.cache].filter(([, entry]) => entry.dirty);
+    for (const [key, entry] of dirty) {
+      if (entry.value === null) {
+        await this.inner.delete(key);
+      } else {
+        await this.inner.save(key, entry.value);
+      }
+      // A newer write replaces the entry object and stays dirty
+      if (this.cache.get(key) === entry) {
+        entry.dirty = false;
+      }
+    }
+    if (dirty.length > 0) {
+      this.evict();
+    }
+  }
+}
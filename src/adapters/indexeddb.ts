@@ -1,5 +1,24 @@
 // src/adapters/indexeddb.ts
-import type { StorageAdapter } from '../core/types.js';
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { paginateEntries } from '../utils/iteration.js';
+import { computeVersion } from '../utils/version.js';
+import { isExpired, isReservedKey, unwrapRecord } from '../core/record.js';
+import { createComparator, createMatcher, paginate, type Query, type QueryOptions } from '../utils/query.js';
+import {
+  compareIndexValues,
+  extractIndexValues,
+  normalizeIndexValue,
+  type IndexExtractor,
+  type IndexRange,
+  type IndexValue
+} from '../utils/indexes.js';
+
+// Stored row; `indexes` holds the values computed for every registered secondary index
+interface IndexedRow<T> {
+  key: string;
+  data: T;
+  indexes?: Record<string, IndexValue[]>;
+}
 
 export class IndexedDBAdapter<T> implements StorageAdapter<T> {
   private dbName: string;
@@ -7,6 +26,7 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
   private version: number;
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
+  private indexExtractors = new Map<string, IndexExtractor<T>>();
 
   constructor(dbName: string = 'app-storage', storeName: string = 'data', version: number = 1) {
     this.dbName = dbName;
@@ -28,23 +48,35 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
         return;
       }
 
-      const request = indexedDB.open(this.dbName, this.version);
+      const open = (version?: number) => {
+        const request = version === undefined ? indexedDB.open(this.dbName) : indexedDB.open(this.dbName, version);
 
-      request.onerror = () => {
-        reject(new Error(`Failed to open IndexedDB: ${request.error?.message || 'Unknown error'}`));
-      };
+        request.onerror = () => {
+          // Indexes bump the database version; open whatever version is already there
+          if (version !== undefined && request.error?.name === 'VersionError') {
+            open();
+            return;
+          }
+          reject(new Error(`Failed to open IndexedDB: ${request.error?.message || 'Unknown error'}`));
+        };
 
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+        request.onsuccess = () => {
+          this.db = request.result;
+          this.version = this.db.version ?? this.version;
+          // Let upgrades from other connections (e.g. createIndex in another tab) go through
+          this.db.onversionchange = () => this.close();
+          resolve();
+        };
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          db.createObjectStore(this.storeName, { keyPath: 'key' });
-        }
+        request.onupgradeneeded = (event) => {
+          const db = (event.target as IDBOpenDBRequest).result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'key' });
+          }
+        };
       };
+
+      open(this.version);
     });
 
     await this.initPromise;
@@ -64,13 +96,36 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
     const store = await this.getTransaction('readwrite');
     
     return new Promise((resolve, reject) => {
-      const request = store.put({ key, data });
+      const request = store.put(this.toRow(key, data));
       
       request.onsuccess = () => resolve();
       request.onerror = () => reject(new Error(`Failed to save data: ${request.error?.message || 'Unknown error'}`));
     });
   }
 
+  // Read, compare and write inside a single readwrite transaction
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    const store = await this.getTransaction('readwrite');
+
+    return new Promise((resolve, reject) => {
+      const getRequest = store.get(key);
+
+      getRequest.onsuccess = () => {
+        const current = getRequest.result ? getRequest.result.data : null;
+        if (computeVersion(current) !== expectedVersion) {
+          resolve(false);
+          return;
+        }
+
+        const putRequest = store.put(this.toRow(key, data));
+        putRequest.onsuccess = () => resolve(true);
+        putRequest.onerror = () => reject(new Error(`Failed to save data: ${putRequest.error?.message || 'Unknown error'}`));
+      };
+
+      getRequest.onerror = () => reject(new Error(`Failed to load data: ${getRequest.error?.message || 'Unknown error'}`));
+    });
+  }
+
   async load(key: string): Promise<T | null> {
     const store = await this.getTransaction('readonly');
     
@@ -108,6 +163,35 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
     });
   }
 
+  // clear() and every put() share one readwrite transaction
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    const store = await this.getTransaction('readwrite');
+    const entries = Object.entries(data);
+
+    return new Promise((resolve, reject) => {
+      const clearRequest = store.clear();
+
+      clearRequest.onsuccess = () => {
+        let pending = entries.length;
+        if (pending === 0) {
+          resolve();
+          return;
+        }
+
+        for (const [key, value] of entries) {
+          const request = store.put(this.toRow(key, value));
+          request.onsuccess = () => {
+            pending--;
+            if (pending === 0) resolve();
+          };
+          request.onerror = () => reject(new Error(`Failed to save data: ${request.error?.message || 'Unknown error'}`));
+        }
+      };
+
+      clearRequest.onerror = () => reject(new Error(`Failed to clear data: ${clearRequest.error?.message || 'Unknown error'}`));
+    });
+  }
+
   async getAll(): Promise<Record<string, T>> {
     const store = await this.getTransaction('readonly');
     
@@ -126,6 +210,181 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
     });
   }
 
+  // Run a query with a cursor so non-matching records are never collected
+  async query(query: Query<T>, options: QueryOptions<T> = {}): Promise<StorageEntry<T>[]> {
+    const store = await this.getTransaction('readonly');
+    const matcher = createMatcher(query);
+    // Without sorting, offset/limit can be applied while walking the cursor
+    const streaming = !options.sort;
+    const offset = Math.max(0, options.offset || 0);
+    const limit = options.limit;
+
+    const matches = await new Promise<StorageEntry<T>[]>((resolve, reject) => {
+      const results: StorageEntry<T>[] = [];
+      let skipped = 0;
+      const request = store.openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (streaming && limit !== undefined && results.length >= limit)) {
+          resolve(results);
+          return;
+        }
+
+        // Reserved keys hold internal state, never query results
+        const { key, data } = cursor.value as { key: string; data: unknown };
+        if (!isReservedKey(key)) {
+          // Records written with a TTL are stored inside a metadata envelope
+          const { value, meta } = unwrapRecord<T>(data);
+          if (!isExpired(meta) && matcher(value, key)) {
+            if (streaming && skipped < offset) {
+              skipped++;
+            } else {
+              results.push({ key, value });
+            }
+          }
+        }
+
+        if (streaming && limit !== undefined && results.length >= limit) {
+          resolve(results);
+          return;
+        }
+        cursor.continue();
+      };
+
+      request.onerror = () => reject(new Error(`Failed to query data: ${request.error?.message || 'Unknown error'}`));
+    });
+
+    if (!options.sort) {
+      return matches;
+    }
+
+    matches.sort(createComparator(options.sort));
+    return paginate(matches, options);
+  }
+
+  // Native secondary index over the extractor's values, stored in each row under `indexes.<name>`.
+  // Creating it bumps the database version; existing rows are re-indexed in one transaction.
+  async createIndex(name: string, extractor: IndexExtractor<T>, options: { unique: boolean }): Promise<void> {
+    this.indexExtractors.set(name, extractor);
+    try {
+      const store = await this.getTransaction('readonly');
+      if (!store.indexNames.contains(name)) {
+        await this.upgrade(upgradeStore => {
+          upgradeStore.createIndex(name, `indexes.${name}`, { unique: options.unique, multiEntry: true });
+        });
+      }
+      await this.reindex();
+    } catch (error) {
+      this.indexExtractors.delete(name);
+      throw error;
+    }
+  }
+
+  async dropIndex(name: string): Promise<void> {
+    this.indexExtractors.delete(name);
+    const store = await this.getTransaction('readonly');
+    if (store.indexNames.contains(name)) {
+      await this.upgrade(upgradeStore => upgradeStore.deleteIndex(name));
+    }
+  }
+
+  // Primary keys in index order, each one once. The cursor only visits the entries inside the range
+  async queryIndex(name: string, range: IndexRange): Promise<string[]> {
+    const keyRange = toKeyRange(range);
+    if (keyRange === null) {
+      return [];
+    }
+    const store = await this.getTransaction('readonly');
+
+    return new Promise((resolve, reject) => {
+      const keys = new Set<string>();
+      const request = store.index(name).openCursor(keyRange);
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve([...keys]);
+          return;
+        }
+        // A multiEntry index yields a record once per matching value
+        keys.add(cursor.primaryKey as string);
+        cursor.continue();
+      };
+
+      request.onerror = () => reject(new Error(`Failed to query index "${name}": ${request.error?.message || 'Unknown error'}`));
+    });
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.load(key)) !== null;
+  }
+
+  // One cursor pass per page, so large stores are scanned in bounded chunks
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    const store = await this.getTransaction('readonly');
+    const { prefix, after, limit } = options;
+
+    // Narrow the cursor range when the environment provides IDBKeyRange
+    let range: IDBKeyRange | undefined;
+    if (typeof IDBKeyRange !== 'undefined') {
+      if (after !== undefined && (prefix === undefined || after >= prefix)) {
+        range = IDBKeyRange.lowerBound(after, true);
+      } else if (prefix !== undefined) {
+        range = IDBKeyRange.lowerBound(prefix);
+      }
+    }
+
+    const items = await new Promise<StorageEntry<T>[]>((resolve, reject) => {
+      const results: StorageEntry<T>[] = [];
+      const request = range ? store.openCursor(range) : store.openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(results);
+          return;
+        }
+
+        const { key, data } = cursor.value as { key: string; data: T };
+        if (prefix !== undefined && !key.startsWith(prefix) && key > prefix) {
+          // Keys are ordered, nothing after this point can match the prefix
+          resolve(results);
+          return;
+        }
+
+        const inRange = (prefix === undefined || key.startsWith(prefix)) && (after === undefined || key > after);
+        if (inRange) {
+          results.push({ key, value: data });
+          // Read one extra item to know whether another page exists
+          if (limit !== undefined && results.length > limit) {
+            resolve(results);
+            return;
+          }
+        }
+        cursor.continue();
+      };
+
+      request.onerror = () => reject(new Error(`Failed to list data: ${request.error?.message || 'Unknown error'}`));
+    });
+
+    if (limit !== undefined && items.length > limit) {
+      const page = items.slice(0, limit);
+      return { items: page, cursor: page.length > 0 ? page[page.length - 1].key : null };
+    }
+    return { items, cursor: null };
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    yield* paginateEntries(options => this.list(options));
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
   // Additional IndexedDB-specific methods
   async getAllKeys(): Promise<string[]> {
     const store = await this.getTransaction('readonly');
@@ -162,6 +421,65 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
     };
   }
 
+  private toRow(key: string, data: T): IndexedRow<T> {
+    const row: IndexedRow<T> = { key, data };
+    if (this.indexExtractors.size > 0) {
+      // Records written with a TTL are stored inside a metadata envelope
+      const { value } = unwrapRecord<T>(data);
+      row.indexes = {};
+      for (const [name, extractor] of this.indexExtractors) {
+        row.indexes[name] = extractIndexValues(extractor, value, key);
+      }
+    }
+    return row;
+  }
+
+  // Recompute the index values of every row inside one readwrite transaction
+  private async reindex(): Promise<void> {
+    const store = await this.getTransaction('readwrite');
+
+    return new Promise((resolve, reject) => {
+      const request = store.openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const { key, data } = cursor.value as IndexedRow<T>;
+        const update = cursor.update(this.toRow(key, data));
+        update.onsuccess = () => cursor.continue();
+        update.onerror = () => reject(new Error(`Failed to index "${key}": ${update.error?.message || 'Unknown error'}`));
+      };
+
+      request.onerror = () => reject(new Error(`Failed to reindex data: ${request.error?.message || 'Unknown error'}`));
+    });
+  }
+
+  // Reopen the database with the next version and change the object store schema
+  private async upgrade(change: (store: IDBObjectStore) => void): Promise<void> {
+    await this.initDB();
+    const nextVersion = this.db!.version + 1;
+    this.close();
+    this.version = nextVersion;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, nextVersion);
+
+      request.onupgradeneeded = () => {
+        change(request.transaction!.objectStore(this.storeName));
+      };
+      request.onsuccess = () => {
+        this.db = request.result;
+        this.db.onversionchange = () => this.close();
+        resolve();
+      };
+      request.onerror = () => reject(new Error(`Failed to upgrade IndexedDB: ${request.error?.message || 'Unknown error'}`));
+    });
+  }
+
   // Close the database connection
   close(): void {
     if (this.db) {
@@ -191,4 +509,42 @@ export class IndexedDBAdapter<T> implements StorageAdapter<T> {
   static isAvailable(): boolean {
     return typeof indexedDB !== 'undefined';
   }
-}
\ No newline at end of file
+}
+
+type Bound = { value: IndexValue; open: boolean };
+
+// The tighter of an exclusive and an inclusive bound: the larger one for lower bounds, the smaller for upper ones
+function tighterBound(exclusive: IndexValue | Date | undefined, inclusive: IndexValue | Date | undefined, lower: boolean): Bound | undefined {
+  const open = exclusive === undefined ? undefined : normalizeIndexValue(exclusive);
+  const closed = inclusive === undefined ? undefined : normalizeIndexValue(inclusive);
+  if (open === undefined) {
+    return closed === undefined ? undefined : { value: closed, open: false };
+  }
+  if (closed === undefined) {
+    return { value: open, open: true };
+  }
+  const order = compareIndexValues(open, closed);
+  return (lower ? order >= 0 : order <= 0) ? { value: open, open: true } : { value: closed, open: false };
+}
+
+// IDBKeyRange for the range; null when nothing can match, undefined to walk the whole index
+function toKeyRange(range: IndexRange): IDBKeyRange | null | undefined {
+  const lower = tighterBound(range.gt, range.gte, true);
+  const upper = tighterBound(range.lt, range.lte, false);
+  if (lower && upper) {
+    const order = compareIndexValues(lower.value, upper.value);
+    if (order > 0 || (order === 0 && (lower.open || upper.open))) {
+      return null;
+    }
+    return order === 0
+      ? IDBKeyRange.only(lower.value)
+      : IDBKeyRange.bound(lower.value, upper.value, lower.open, upper.open);
+  }
+  if (lower) {
+    return IDBKeyRange.lowerBound(lower.value, lower.open);
+  }
+  if (upper) {
+    return IDBKeyRange.upperBound(upper.value, upper.open);
+  }
+  return undefined;
+}
@@ -1,5 +1,7 @@
 // src/adapters/json-file.ts
-import type { StorageAdapter } from '../core/types.js';
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { listRecord } from '../utils/iteration.js';
+import { computeVersion } from '../utils/version.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -77,6 +79,18 @@ export class JSONFileAdapter<T> implements StorageAdapter<T> {
     await this.writeAllData(allData);
   }
 
+  // Relee el archivo antes de escribir para detectar cambios hechos por otros procesos
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    this.invalidateCache();
+    const allData = await this.readAllData();
+    if (computeVersion(allData[key] || null) !== expectedVersion) {
+      return false;
+    }
+    allData[key] = data;
+    await this.writeAllData(allData);
+    return true;
+  }
+
   async load(key: string): Promise<T | null> {
     const allData = await this.readAllData();
     return allData[key] || null;
@@ -92,11 +106,37 @@ export class JSONFileAdapter<T> implements StorageAdapter<T> {
     await this.writeAllData({});
   }
 
+  // Una única escritura del archivo con el contenido nuevo
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    await this.writeAllData({ ...data });
+  }
+
   // Método para obtener todos los datos
   async getAll(): Promise<Record<string, T>> {
     return await this.readAllData();
   }
 
+  async has(key: string): Promise<boolean> {
+    const allData = await this.readAllData();
+    return Object.prototype.hasOwnProperty.call(allData, key);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    const allData = await this.readAllData();
+    yield* Object.keys(allData);
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    const allData = await this.readAllData();
+    for (const key of Object.keys(allData)) {
+      yield { key, value: allData[key] };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return listRecord(await this.readAllData(), options);
+  }
+
   // Método para obtener la ruta del archivo
   getFilePath(): string {
     return this.filePath;
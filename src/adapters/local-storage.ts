@@ -1,5 +1,7 @@
 // src/adapters/local-storage.ts
-import type { StorageAdapter } from '../core/types.js';
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { listRecord } from '../utils/iteration.js';
+import { computeVersion } from '../utils/version.js';
 
 export class LocalStorageAdapter<T> implements StorageAdapter<T> {
   private storageKey: string;
@@ -53,6 +55,19 @@ export class LocalStorageAdapter<T> implements StorageAdapter<T> {
     this.saveCache();
   }
 
+  // Recarga desde localStorage (otras pestañas pueden haber escrito) y compara sin ceder el hilo
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    if (typeof localStorage !== 'undefined') {
+      this.loadCache();
+    }
+    if (computeVersion(this.cache[key] || null) !== expectedVersion) {
+      return false;
+    }
+    this.cache[key] = data;
+    this.saveCache();
+    return true;
+  }
+
   async load(key: string): Promise<T | null> {
     return this.cache[key] || null;
   }
@@ -67,10 +82,33 @@ export class LocalStorageAdapter<T> implements StorageAdapter<T> {
     this.saveCache();
   }
 
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    this.cache = { ...data };
+    this.saveCache();
+  }
+
   async getAll(): Promise<Record<string, T>> {
     return { ...this.cache };
   }
 
+  async has(key: string): Promise<boolean> {
+    return Object.prototype.hasOwnProperty.call(this.cache, key);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    yield* Object.keys(this.cache);
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for (const key of Object.keys(this.cache)) {
+      if (key in this.cache) yield { key, value: this.cache[key] };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return listRecord(this.cache, options);
+  }
+
   // Método adicional para obtener la clave de almacenamiento
   getStorageKey(): string {
     return this.storageKey;
@@ -0,0 +1,113 @@
+// src/adapters/prefixed.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { listRecord, paginateEntries } from '../utils/iteration.js';
+import { compareAndSaveRecord } from '../utils/version.js';
+
+// Exposes the keys of another adapter that start with a prefix, with the prefix stripped.
+// clear() only removes the keys under the prefix.
+export class PrefixedAdapter<T> implements StorageAdapter<T> {
+  private inner: StorageAdapter<T>;
+  private prefix: string;
+
+  constructor(inner: StorageAdapter<T>, prefix: string) {
+    this.inner = inner;
+    this.prefix = prefix;
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    await this.inner.save(this.prefix + key, data);
+  }
+
+  async load(key: string): Promise<T | null> {
+    return await this.inner.load(this.prefix + key);
+  }
+
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    return await compareAndSaveRecord(this.inner, this.prefix + key, expectedVersion, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    const keys: string[] = [];
+    for await (const entry of this.innerEntries()) {
+      keys.push(entry.key);
+    }
+    for (const key of keys) {
+      await this.inner.delete(key);
+    }
+  }
+
+  async getAll(): Promise<Record<string, T>> {
+    const result: Record<string, T> = {};
+    for await (const { key, value } of this.entries()) {
+      result[key] = value;
+    }
+    return result;
+  }
+
+  async has(key: string): Promise<boolean> {
+    if (typeof this.inner.has === 'function') {
+      return await this.inner.has(this.prefix + key);
+    }
+    return (await this.inner.load(this.prefix + key)) !== null;
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for await (const { key, value } of this.innerEntries()) {
+      yield { key: key.slice(this.prefix.length), value };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    if (typeof this.inner.list !== 'function') {
+      return listRecord(await this.getAll(), options);
+    }
+
+    const page = await this.inner.list({
+      prefix: this.prefix + (options.prefix || ''),
+      after: options.after !== undefined ? this.prefix + options.after : undefined,
+      limit: options.limit
+    });
+    return {
+      items: page.items.map(({ key, value }) => ({ key: key.slice(this.prefix.length), value })),
+      cursor: page.cursor !== null ? page.cursor.slice(this.prefix.length) : null
+    };
+  }
+
+  getPrefix(): string {
+    return this.prefix;
+  }
+
+  // Entries of the inner adapter under the prefix, keys left untouched
+  private async *innerEntries(): AsyncIterableIterator<StorageEntry<T>> {
+    const inner = this.inner;
+
+    if (typeof inner.list === 'function') {
+      yield* paginateEntries(options => inner.list!(options), { prefix: this.prefix });
+      return;
+    }
+
+    let source: AsyncIterable<StorageEntry<T>> | Iterable<StorageEntry<T>>;
+    if (typeof inner.entries === 'function') {
+      source = inner.entries();
+    } else {
+      const all = typeof inner.getAll === 'function' ? await inner.getAll() : inner.data || {};
+      source = Object.entries(all).map(([key, value]) => ({ key, value }));
+    }
+
+    for await (const entry of source) {
+      if (entry.key.startsWith(this.prefix)) {
+        yield entry;
+      }
+    }
+  }
+}
@@ -0,0 +1,324 @@
+// src/adapters/replicated.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { ReplicationError } from '../core/errors.js';
+import { Emitter } from '../utils/Emitter.js';
+import { listRecord, readAdapterRecords, replaceAdapterRecords } from '../utils/iteration.js';
+import { compareAndSaveRecord, stableStringify } from '../utils/version.js';
+
+export type ReplicationMode = 'sync' | 'async';
+
+export type ReplicatedOperation = 'save' | 'delete' | 'clear' | 'replaceAll' | 'read' | 'repair';
+
+export interface ReplicatedAdapterOptions {
+  // sync: every write waits for all replicas. async: a write returns once the quorum is reached
+  // and the remaining replicas catch up in the background (default 'sync')
+  mode?: ReplicationMode;
+  // Backends, primary included, that must acknowledge a write (default: all in sync mode, 1 in async)
+  quorum?: number;
+  // Receives the 'replication:*' events; a new one is created if missing. An untyped emitter
+  // shared with other components is accepted too
+  emitter?: Emitter<ReplicatedAdapterEventMap> | Emitter;
+}
+
+// 'replication:failure': a backend failed an operation (replica null is the primary)
+export interface ReplicationFailureEvent {
+  replica: number | null;
+  operation: ReplicatedOperation;
+  key: string | null;
+  error: unknown;
+}
+
+// 'replication:lag': a replica applied a write `lag` milliseconds after the primary
+export interface ReplicationLagEvent {
+  replica: number;
+  key: string | null;
+  lag: number;
+  pending: number; // Writes still queued for the replica
+}
+
+// 'replication:repair': result of reconciling a replica with the primary
+export interface RepairReport {
+  replica: number;
+  saved: string[];
+  deleted: string[];
+  error?: unknown;
+}
+
+export type ReplicatedAdapterEventMap = {
+  'replication:failure': ReplicationFailureEvent;
+  'replication:lag': ReplicationLagEvent;
+  'replication:repair': RepairReport;
+};
+
+export interface ReplicaStatus {
+  replica: number;
+  pending: number;
+  lag: number; // Lag of the last write applied
+  failures: number;
+  divergent: boolean; // A write failed since the last repair
+}
+
+interface ReplicaState {
+  queue: Promise<void>;
+  pending: number;
+  lag: number;
+  failures: number;
+  divergent: boolean;
+}
+
+type Outcome = { ok: true } | { ok: false; error: unknown };
+
+// Sends every write to a primary adapter and mirrors it to replicas. Reads go to the primary
+// and fail over to the replicas, healthy ones first, when the primary throws.
+export class ReplicatedAdapter<T> implements StorageAdapter<T> {
+  private primary: StorageAdapter<T>;
+  private replicas: StorageAdapter<T>[];
+  private mode: ReplicationMode;
+  private quorum: number;
+  private emitter: Emitter<ReplicatedAdapterEventMap>;
+  private states: ReplicaState[];
+
+  constructor(primary: StorageAdapter<T>, replicas: StorageAdapter<T>[], options: ReplicatedAdapterOptions = {}) {
+    this.primary = primary;
+    this.replicas = replicas;
+    this.mode = options.mode || 'sync';
+    this.quorum = options.quorum ?? (this.mode === 'sync' ? replicas.length + 1 : 1);
+    if (!Number.isInteger(this.quorum) || this.quorum < 1 || this.quorum > replicas.length + 1) {
+      throw new Error(`Invalid quorum ${this.quorum}: it must be between 1 and ${replicas.length + 1}`);
+    }
+    this.emitter = (options.emitter as Emitter<ReplicatedAdapterEventMap>) || new Emitter<ReplicatedAdapterEventMap>();
+    this.states = replicas.map(() => ({ queue: Promise.resolve(), pending: 0, lag: 0, failures: 0, divergent: false }));
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    await this.write(key, 'save', adapter => adapter.save(key, data));
+  }
+
+  async load(key: string): Promise<T | null> {
+    return await this.read(key, adapter => adapter.load(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.write(key, 'delete', adapter => adapter.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.write(null, 'clear', adapter => adapter.clear());
+  }
+
+  // The primary decides; the replicas only receive successful writes
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    let saved: boolean;
+    try {
+      saved = await compareAndSaveRecord(this.primary, key, expectedVersion, data);
+    } catch (error) {
+      this.emitter.emit('replication:failure', { replica: null, operation: 'save', key, error });
+      throw error;
+    }
+
+    if (saved) {
+      await this.replicate(key, 'save', adapter => adapter.save(key, data));
+    }
+    return saved;
+  }
+
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    await this.write(null, 'replaceAll', adapter => replaceAdapterRecords(adapter, data));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return await this.read(key, async adapter => {
+      if (typeof adapter.has === 'function') {
+        return await adapter.has(key);
+      }
+      return (await adapter.load(key)) !== null;
+    });
+  }
+
+  async getAll(): Promise<Record<string, T>> {
+    return await this.read(null, adapter => readAdapterRecords(adapter));
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for (const [key, value] of Object.entries(await this.getAll())) {
+      yield { key, value };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return await this.read(null, async adapter => {
+      if (typeof adapter.list === 'function') {
+        return await adapter.list(options);
+      }
+      return listRecord(await readAdapterRecords(adapter), options);
+    });
+  }
+
+  // Waits until every queued write has reached its replica
+  async flush(): Promise<void> {
+    await Promise.all(this.states.map(state => state.queue));
+  }
+
+  // Makes every replica match the primary: saves the keys that differ and deletes the ones the
+  // primary does not have. A replica that cannot be read or written keeps `divergent` set.
+  // Each replica reads the primary from its own queue, so writes made meanwhile are not undone.
+  async repair(): Promise<RepairReport[]> {
+    await this.flush();
+    const reports: RepairReport[] = [];
+
+    for (let i = 0; i < this.replicas.length; i++) {
+      const report = await this.enqueue(i, () => this.repairReplica(i));
+      this.states[i].divergent = report.error !== undefined;
+      if (report.error !== undefined) {
+        this.states[i].failures++;
+        this.emitter.emit('replication:failure', { replica: i, operation: 'repair', key: null, error: report.error });
+      }
+      this.emitter.emit('replication:repair', report);
+      reports.push(report);
+    }
+    return reports;
+  }
+
+  getStatus(): ReplicaStatus[] {
+    return this.states.map(({ pending, lag, failures, divergent }, replica) => ({ replica, pending, lag, failures, divergent }));
+  }
+
+  on<K extends keyof ReplicatedAdapterEventMap>(event: K, callback: (data: ReplicatedAdapterEventMap[K]) => void): () => void {
+    return this.emitter.on(event, callback);
+  }
+
+  getPrimary(): StorageAdapter<T> {
+    return this.primary;
+  }
+
+  getReplicas(): StorageAdapter<T>[] {
+    return [...this.replicas];
+  }
+
+  // The primary must accept the write; the replicas count towards the quorum
+  private async write(key: string | null, operation: ReplicatedOperation, apply: (adapter: StorageAdapter<T>) => Promise<void>): Promise<void> {
+    try {
+      await apply(this.primary);
+    } catch (error) {
+      this.emitter.emit('replication:failure', { replica: null, operation, key, error });
+      throw error;
+    }
+    await this.replicate(key, operation, apply);
+  }
+
+  private async replicate(key: string | null, operation: ReplicatedOperation, apply: (adapter: StorageAdapter<T>) => Promise<void>): Promise<void> {
+    const startedAt = Date.now();
+    const outcomes = this.replicas.map((replica, i) => this.enqueue(i, async (): Promise<Outcome> => {
+      try {
+        await apply(replica);
+      } catch (error) {
+        this.states[i].failures++;
+        this.states[i].divergent = true;
+        this.emitter.emit('replication:failure', { replica: i, operation, key, error });
+        return { ok: false, error };
+      }
+      const lag = Date.now() - startedAt;
+      this.states[i].lag = lag;
+      this.emitter.emit('replication:lag', { replica: i, key, lag, pending: this.states[i].pending - 1 });
+      return { ok: true };
+    }));
+
+    const needed = this.quorum - 1;
+    const errors: unknown[] = [];
+    let acknowledged: number;
+    if (this.mode === 'sync') {
+      const results = await Promise.all(outcomes);
+      acknowledged = results.filter(result => result.ok).length;
+      results.forEach(result => result.ok || errors.push(result.error));
+    } else {
+      acknowledged = await waitForAcknowledgements(outcomes, needed, errors);
+    }
+
+    if (acknowledged < needed) {
+      throw new ReplicationError(key, acknowledged + 1, this.quorum, errors);
+    }
+  }
+
+  // Operations on a replica run in order, so an async write never overtakes an earlier one
+  private enqueue<R>(replica: number, task: () => Promise<R>): Promise<R> {
+    const state = this.states[replica];
+    state.pending++;
+    const run = state.queue.then(task).finally(() => {
+      state.pending--;
+    });
+    state.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async read<R>(key: string | null, fn: (adapter: StorageAdapter<T>) => Promise<R>): Promise<R> {
+    try {
+      return await fn(this.primary);
+    } catch (primaryError) {
+      this.emitter.emit('replication:failure', { replica: null, operation: 'read', key, error: primaryError });
+
+      const order = this.replicas
+        .map((_, i) => i)
+        .sort((a, b) => Number(this.states[a].divergent) - Number(this.states[b].divergent));
+      for (const i of order) {
+        try {
+          return await fn(this.replicas[i]);
+        } catch (error) {
+          this.emitter.emit('replication:failure', { replica: i, operation: 'read', key, error });
+        }
+      }
+      throw primaryError;
+    }
+  }
+
+  private async repairReplica(replica: number): Promise<RepairReport> {
+    const report: RepairReport = { replica, saved: [], deleted: [] };
+    const adapter = this.replicas[replica];
+    try {
+      const source = await readAdapterRecords(this.primary);
+      const current = await readAdapterRecords(adapter);
+      for (const [key, value] of Object.entries(source)) {
+        if (!(key in current) || stableStringify(current[key]) !== stableStringify(value)) {
+          await adapter.save(key, value);
+          report.saved.push(key);
+        }
+      }
+      for (const key of Object.keys(current)) {
+        if (!(key in source)) {
+          await adapter.delete(key);
+          report.deleted.push(key);
+        }
+      }
+    } catch (error) {
+      report.error = error;
+    }
+    return report;
+  }
+}
+
+// Resolves with the number of successes once `needed` are reached or can no longer be reached
+function waitForAcknowledgements(outcomes: Promise<Outcome>[], needed: number, errors: unknown[]): Promise<number> {
+  if (needed <= 0) {
+    return Promise.resolve(0);
+  }
+  return new Promise(resolve => {
+    let acknowledged = 0;
+    for (const outcome of outcomes) {
+      outcome.then(result => {
+        if (result.ok) {
+          acknowledged++;
+        } else {
+          errors.push(result.error);
+        }
+        if (acknowledged >= needed || outcomes.length - errors.length < needed) {
+          resolve(acknowledged);
+        }
+      });
+    }
+  });
+}
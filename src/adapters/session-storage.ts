@@ -1,5 +1,6 @@
 // src/adapters/session-storage.ts
-import type { StorageAdapter } from '../core/types.js';
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { listRecord } from '../utils/iteration.js';
 
 export class SessionStorageAdapter<T> implements StorageAdapter<T> {
   private storageKey: string;
@@ -68,10 +69,33 @@ export class SessionStorageAdapter<T> implements StorageAdapter<T> {
     this.saveCache();
   }
 
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    this.cache = { ...data };
+    this.saveCache();
+  }
+
   async getAll(): Promise<Record<string, T>> {
     return { ...this.cache };
   }
 
+  async has(key: string): Promise<boolean> {
+    return Object.prototype.hasOwnProperty.call(this.cache, key);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    yield* Object.keys(this.cache);
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for (const key of Object.keys(this.cache)) {
+      if (key in this.cache) yield { key, value: this.cache[key] };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return listRecord(this.cache, options);
+  }
+
   // Método adicional para obtener la clave de almacenamiento
   getStorageKey(): string {
     return this.storageKey;
@@ -0,0 +1,273 @@
+// src/adapters/tiered.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import { adapterEntries, listRecord, readAdapterRecords, replaceAdapterRecords } from '../utils/iteration.js';
+import { matchesKeyPattern, type KeyPattern } from '../utils/key-pattern.js';
+import { compareAndSaveRecord } from '../utils/version.js';
+
+export type TierName = 'fast' | 'durable';
+
+// Where the keys of a rule live: in both tiers, only in the durable one (never cached)
+// or only in the fast one (not persisted)
+export type TierPlacement = 'both' | 'durable' | 'fast';
+
+export interface TierRule {
+  keys: KeyPattern;
+  placement?: TierPlacement; // Default 'both'
+  promoteAfter?: number; // Durable reads before a key is copied to the fast tier (default 1, 0 disables)
+  warm?: boolean; // Load the keys into the fast tier on startup (default true)
+}
+
+export interface TieredAdapterOptions {
+  rules?: TierRule[]; // The first matching rule applies; keys without a rule use the defaults
+  warm?: boolean; // Warm the fast tier before the first operation (default true)
+  onRead?: (read: TierRead) => void; // Reports which tier served each read
+}
+
+export interface TierRead {
+  key: string;
+  tier: TierName | null; // null: no tier has the key
+}
+
+export interface TierStats {
+  fast: number;
+  durable: number;
+  misses: number;
+  promotions: number;
+  warmed: number;
+}
+
+// Keys written while a warm() runs; it must not overwrite them with the value it read before
+interface WarmRun {
+  written: Set<string>;
+  cleared: boolean; // clear() or replaceAll() ran: everything read so far is stale
+}
+
+const DEFAULT_RULE: Required<Omit<TierRule, 'keys'>> = { placement: 'both', promoteAfter: 1, warm: true };
+
+// Reads from a fast tier and falls back to a durable one, copying hot keys to the fast tier.
+// Writes go to both tiers, the durable one first so a failed write never leaves only the cache updated.
+export class TieredAdapter<T> implements StorageAdapter<T> {
+  private fast: StorageAdapter<T>;
+  private durable: StorageAdapter<T>;
+  private rules: TierRule[];
+  private onRead?: (read: TierRead) => void;
+  private warming: Promise<void> | null = null;
+  private warmRuns = new Set<WarmRun>(); // warm() calls in progress
+  private durableReads = new Map<string, number>();
+  private stats: TierStats = { fast: 0, durable: 0, misses: 0, promotions: 0, warmed: 0 };
+
+  constructor(fast: StorageAdapter<T>, durable: StorageAdapter<T>, options: TieredAdapterOptions = {}) {
+    this.fast = fast;
+    this.durable = durable;
+    this.rules = options.rules || [];
+    this.onRead = options.onRead;
+    if (options.warm === false) {
+      this.warming = Promise.resolve();
+    }
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    this.markWritten(key);
+    await this.ensureWarm();
+    const { placement } = this.ruleFor(key);
+    if (placement !== 'fast') {
+      await this.durable.save(key, data);
+    }
+    if (placement === 'durable') {
+      await this.fast.delete(key);
+    } else {
+      await this.fast.save(key, data);
+    }
+    this.durableReads.delete(key);
+  }
+
+  async load(key: string): Promise<T | null> {
+    return (await this.loadWithTier(key)).value;
+  }
+
+  // Like load(), also telling which tier answered
+  async loadWithTier(key: string): Promise<{ value: T | null; tier: TierName | null }> {
+    await this.ensureWarm();
+    const rule = this.ruleFor(key);
+
+    if (rule.placement !== 'durable') {
+      const value = await this.fast.load(key);
+      if (value !== null || rule.placement === 'fast') {
+        return this.served(key, value, value !== null ? 'fast' : null);
+      }
+    }
+
+    const value = await this.durable.load(key);
+    if (value === null) {
+      return this.served(key, null, null);
+    }
+    if (rule.placement === 'both' && rule.promoteAfter > 0) {
+      const reads = (this.durableReads.get(key) || 0) + 1;
+      if (reads >= rule.promoteAfter) {
+        this.durableReads.delete(key);
+        await this.fast.save(key, value);
+        this.stats.promotions++;
+      } else {
+        this.durableReads.set(key, reads);
+      }
+    }
+    return this.served(key, value, 'durable');
+  }
+
+  async delete(key: string): Promise<void> {
+    this.markWritten(key);
+    await this.ensureWarm();
+    if (this.ruleFor(key).placement !== 'fast') {
+      await this.durable.delete(key);
+    }
+    await this.fast.delete(key);
+    this.durableReads.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.markWritten(null);
+    await this.ensureWarm();
+    await this.durable.clear();
+    await this.fast.clear();
+    this.durableReads.clear();
+  }
+
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    this.markWritten(key);
+    await this.ensureWarm();
+    const { placement } = this.ruleFor(key);
+    // The tier that owns the key decides; the fast copy may be missing or not promoted yet
+    const owner = placement === 'fast' ? this.fast : this.durable;
+
+    const saved = await compareAndSaveRecord(owner, key, expectedVersion, data);
+    if (saved && placement === 'both') {
+      await this.fast.save(key, data);
+    }
+    return saved;
+  }
+
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    this.markWritten(null);
+    await this.ensureWarm();
+    const durableData: Record<string, T> = {};
+    const fastData: Record<string, T> = {};
+    for (const [key, value] of Object.entries(data)) {
+      const { placement } = this.ruleFor(key);
+      if (placement !== 'fast') {
+        durableData[key] = value;
+      }
+      if (placement !== 'durable') {
+        fastData[key] = value;
+      }
+    }
+
+    await replaceAdapterRecords(this.durable, durableData);
+    await replaceAdapterRecords(this.fast, fastData);
+    this.durableReads.clear();
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.load(key)) !== null;
+  }
+
+  // The durable content plus the keys that only live in the fast tier
+  async getAll(): Promise<Record<string, T>> {
+    await this.ensureWarm();
+    const result = await readAdapterRecords(this.durable);
+    for await (const { key, value } of adapterEntries(this.fast)) {
+      if (this.ruleFor(key).placement === 'fast') {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for (const [key, value] of Object.entries(await this.getAll())) {
+      yield { key, value };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return listRecord(await this.getAll(), options);
+  }
+
+  // Copies the durable keys whose rule allows it into the fast tier. Runs once before the
+  // first operation unless `warm: false`; call it again to reload the fast tier.
+  // Keys written while it runs are skipped: the write already updated the fast tier.
+  async warm(): Promise<number> {
+    const run: WarmRun = { written: new Set(), cleared: false };
+    this.warmRuns.add(run);
+    let warmed = 0;
+    try {
+      for await (const { key, value } of adapterEntries(this.durable)) {
+        if (run.cleared) {
+          break;
+        }
+        const rule = this.ruleFor(key);
+        if (rule.placement === 'both' && rule.warm && !run.written.has(key)) {
+          await this.fast.save(key, value);
+          warmed++;
+        }
+      }
+    } finally {
+      this.warmRuns.delete(run);
+    }
+    this.stats.warmed += warmed;
+    return warmed;
+  }
+
+  getStats(): TierStats {
+    return { ...this.stats };
+  }
+
+  getTiers(): { fast: StorageAdapter<T>; durable: StorageAdapter<T> } {
+    return { fast: this.fast, durable: this.durable };
+  }
+
+  private ruleFor(key: string): Required<Omit<TierRule, 'keys'>> {
+    const rule = this.rules.find(candidate => matchesKeyPattern(candidate.keys, key));
+    return {
+      placement: rule?.placement ?? DEFAULT_RULE.placement,
+      promoteAfter: rule?.promoteAfter ?? DEFAULT_RULE.promoteAfter,
+      warm: rule?.warm ?? DEFAULT_RULE.warm
+    };
+  }
+
+  // key null: every key (clear, replaceAll)
+  private markWritten(key: string | null): void {
+    for (const run of this.warmRuns) {
+      if (key === null) {
+        run.cleared = true;
+      } else {
+        run.written.add(key);
+      }
+    }
+  }
+
+  private served(key: string, value: T | null, tier: TierName | null): { value: T | null; tier: TierName | null } {
+    this.stats[tier || 'misses']++;
+    this.onRead?.({ key, tier });
+    return { value, tier };
+  }
+
+  // Warming only happens once; a failed warm-up is retried by the next operation
+  private async ensureWarm(): Promise<void> {
+    if (!this.warming) {
+      this.warming = this.warm().then(
+        () => undefined,
+        error => {
+          this.warming = null;
+          throw error;
+        }
+      );
+    }
+    await this.warming;
+  }
+}
@@ -0,0 +1,229 @@
+// src/adapters/transforming.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+import {
+  createCompression,
+  createEncryption,
+  sizeUtils,
+  type CompressionAdapter,
+  type EncryptionAdapter
+} from '../utils/compression.js';
+import { listRecord, replaceAdapterRecords } from '../utils/iteration.js';
+
+export type CompressionAlgorithm = 'simple' | 'gzip';
+export type EncryptionAlgorithm = 'simple' | 'aes';
+
+export interface TransformingAdapterOptions {
+  // Built-in algorithm name, or a custom implementation together with `compressionName`
+  compression?: CompressionAlgorithm | CompressionAdapter;
+  compressionName?: string;
+  compressionThreshold?: number; // Bytes, passed to sizeUtils.shouldCompress (default 1024)
+  encryption?: EncryptionAlgorithm | EncryptionAdapter;
+  encryptionName?: string;
+  encryptionKey?: string;
+}
+
+export interface EncryptedAdapterOptions extends TransformingAdapterOptions {
+  encryptionKey: string;
+}
+
+// What the wrapped adapter actually stores. The markers record which algorithms were
+// applied so values can be read back after the options change.
+export interface TransformedEnvelope {
+  __transformed: 1;
+  compression?: string;
+  encryption?: string;
+  payload: string;
+}
+
+export function isTransformedEnvelope(raw: unknown): raw is TransformedEnvelope {
+  return (
+    raw !== null &&
+    typeof raw === 'object' &&
+    !Array.isArray(raw) &&
+    (raw as Record<string, unknown>).__transformed === 1 &&
+    typeof (raw as Record<string, unknown>).payload === 'string'
+  );
+}
+
+// Serializes, optionally compresses and encrypts every value before handing it to another adapter.
+// Values that are not envelopes (written before wrapping) are returned as they are.
+export class TransformingAdapter<T> implements StorageAdapter<T> {
+  private inner: StorageAdapter<any>;
+  private compression: { name: string; adapter: CompressionAdapter } | null;
+  private encryption: { name: string; adapter: EncryptionAdapter } | null;
+  private compressionThreshold: number;
+  private encryptionKey?: string;
+
+  constructor(inner: StorageAdapter<any>, options: TransformingAdapterOptions = {}) {
+    this.inner = inner;
+    this.compressionThreshold = options.compressionThreshold ?? 1024;
+    this.encryptionKey = options.encryptionKey;
+
+    this.compression = options.compression
+      ? typeof options.compression === 'string'
+        ? { name: options.compression, adapter: createCompression(options.compression) }
+        : { name: options.compressionName || 'custom', adapter: options.compression }
+      : null;
+
+    if (options.encryption && !options.encryptionKey) {
+      throw new Error('An encryptionKey is required when encryption is enabled');
+    }
+    this.encryption = options.encryption
+      ? typeof options.encryption === 'string'
+        ? { name: options.encryption, adapter: createEncryption(options.encryption) }
+        : { name: options.encryptionName || 'custom', adapter: options.encryption }
+      : null;
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    await this.inner.save(key, await this.encode(data));
+  }
+
+  async load(key: string): Promise<T | null> {
+    const raw = await this.inner.load(key);
+    return raw === null ? null : await this.decode(key, raw);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.inner.clear();
+  }
+
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      encoded[key] = await this.encode(value);
+    }
+    await replaceAdapterRecords(this.inner, encoded);
+  }
+
+  async getAll(): Promise<Record<string, T>> {
+    const result: Record<string, T> = {};
+    for await (const { key, value } of this.entries()) {
+      result[key] = value;
+    }
+    return result;
+  }
+
+  async has(key: string): Promise<boolean> {
+    if (typeof this.inner.has === 'function') {
+      return await this.inner.has(key);
+    }
+    return (await this.inner.load(key)) !== null;
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    if (typeof this.inner.keys === 'function') {
+      yield* this.inner.keys();
+      return;
+    }
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    const inner = this.inner;
+    let source: AsyncIterable<StorageEntry<unknown>> | Iterable<StorageEntry<unknown>>;
+
+    if (typeof inner.entries === 'function') {
+      source = inner.entries();
+    } else {
+      const all = typeof inner.getAll === 'function' ? await inner.getAll() : inner.data || {};
+      source = Object.entries(all).map(([key, value]) => ({ key, value }));
+    }
+
+    for await (const { key, value } of source) {
+      yield { key, value: await this.decode(key, value) };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    if (typeof this.inner.list !== 'function') {
+      return listRecord(await this.getAll(), options);
+    }
+
+    const page = await this.inner.list(options);
+    const items = await Promise.all(
+      page.items.map(async ({ key, value }) => ({ key, value: await this.decode(key, value) }))
+    );
+    return { items, cursor: page.cursor };
+  }
+
+  private async encode(data: T): Promise<T | TransformedEnvelope> {
+    if (!this.compression && !this.encryption) {
+      return data;
+    }
+
+    const serialized = JSON.stringify(data);
+    const envelope: TransformedEnvelope = { __transformed: 1, payload: serialized };
+
+    if (this.compression && sizeUtils.shouldCompress(serialized, this.compressionThreshold)) {
+      envelope.payload = await this.compression.adapter.compress(envelope.payload);
+      envelope.compression = this.compression.name;
+    }
+
+    if (this.encryption) {
+      envelope.payload = await this.encryption.adapter.encrypt(envelope.payload, this.encryptionKey!);
+      envelope.encryption = this.encryption.name;
+    }
+
+    return envelope;
+  }
+
+  private async decode(key: string, raw: unknown): Promise<T> {
+    if (!isTransformedEnvelope(raw)) {
+      return raw as T;
+    }
+
+    try {
+      let payload = raw.payload;
+
+      if (raw.encryption) {
+        if (!this.encryptionKey) {
+          throw new Error('value is encrypted but no encryptionKey was configured');
+        }
+        payload = await this.resolveEncryption(raw.encryption).decrypt(payload, this.encryptionKey);
+      }
+
+      if (raw.compression) {
+        payload = await this.resolveCompression(raw.compression).decompress(payload);
+      }
+
+      return JSON.parse(payload) as T;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to decode value for key "${key}": ${reason}`);
+    }
+  }
+
+  private resolveCompression(name: string): CompressionAdapter {
+    if (this.compression?.name === name) {
+      return this.compression.adapter;
+    }
+    if (name === 'simple' || name === 'gzip') {
+      return createCompression(name);
+    }
+    throw new Error(`unknown compression algorithm "${name}"`);
+  }
+
+  private resolveEncryption(name: string): EncryptionAdapter {
+    if (this.encryption?.name === name) {
+      return this.encryption.adapter;
+    }
+    if (name === 'simple' || name === 'aes') {
+      return createEncryption(name);
+    }
+    throw new Error(`unknown encryption algorithm "${name}"`);
+  }
+}
+
+// TransformingAdapter with encryption always on (AES unless another algorithm is given)
+export class EncryptedAdapter<T> extends TransformingAdapter<T> {
+  constructor(inner: StorageAdapter<any>, options: EncryptedAdapterOptions) {
+    super(inner, { encryption: 'aes', ...options });
+  }
+}
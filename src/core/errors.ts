@@ -0,0 +1,119 @@
+import type { ValidationResult } from '../utils/validation.js';
+
+// Error lanzado cuando un valor no cumple el schema configurado en DataStorage
+export class ValidationError extends Error {
+  readonly key: string;
+  readonly result: ValidationResult;
+
+  constructor(key: string, result: ValidationResult) {
+    super(`Validation failed for key "${key}": ${result.errors.join('; ')}`);
+    this.name = 'ValidationError';
+    this.key = key;
+    this.result = result;
+  }
+}
+
+// Error lanzado cuando una escritura condicional encuentra una versión distinta a la esperada
+export class ConflictError extends Error {
+  readonly key: string;
+  readonly expectedVersion: string | null;
+  readonly actualVersion: string | null;
+
+  constructor(key: string, expectedVersion: string | null, actualVersion: string | null) {
+    super(
+      `Version conflict for key "${key}": expected ${expectedVersion ?? 'no record'}, found ${actualVersion ?? 'no record'}`
+    );
+    this.name = 'ConflictError';
+    this.key = key;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+// Error lanzado cuando un índice único ya tiene el valor bajo otra clave
+export class UniqueConstraintError extends Error {
+  readonly index: string;
+  readonly value: unknown;
+  readonly key: string;
+  readonly existingKey: string;
+
+  constructor(index: string, value: unknown, key: string, existingKey: string) {
+    super(`Unique index "${index}" already contains ${JSON.stringify(value)} (key "${existingKey}"), cannot save key "${key}"`);
+    this.name = 'UniqueConstraintError';
+    this.index = index;
+    this.value = value;
+    this.key = key;
+    this.existingKey = existingKey;
+  }
+}
+
+// Error lanzado cuando una escritura replicada no alcanza el quórum configurado
+export class ReplicationError extends Error {
+  readonly key: string | null;
+  readonly acknowledged: number;
+  readonly required: number;
+  readonly errors: unknown[];
+
+  constructor(key: string | null, acknowledged: number, required: number, errors: unknown[]) {
+    super(
+      `Replication quorum not reached${key !== null ? ` for key "${key}"` : ''}: ${acknowledged} of ${required} required backends acknowledged the write`
+    );
+    this.name = 'ReplicationError';
+    this.key = key;
+    this.acknowledged = acknowledged;
+    this.required = required;
+    this.errors = errors;
+  }
+}
+
+// Error lanzado cuando un listener asíncrono no termina dentro del tiempo configurado
+export class ListenerTimeoutError extends Error {
+  readonly event: string;
+  readonly timeout: number;
+
+  constructor(event: string, timeout: number) {
+    super(`Listener for event "${event}" did not settle within ${timeout}ms`);
+    this.name = 'ListenerTimeoutError';
+    this.event = event;
+    this.timeout = timeout;
+  }
+}
+
+// Error lanzado cuando un listener 'before*' de DataStorage cancela una escritura devolviendo false
+export class WriteVetoedError extends Error {
+  readonly operation: 'save' | 'update' | 'delete' | 'clear';
+  readonly key: string | null;
+
+  constructor(operation: 'save' | 'update' | 'delete' | 'clear', key: string | null) {
+    super(`The ${operation} of ${key !== null ? `key "${key}"` : 'all keys'} was vetoed by a listener`);
+    this.name = 'WriteVetoedError';
+    this.operation = operation;
+    this.key = key;
+  }
+}
+
+// Error lanzado cuando Emitter.waitFor no recibe el evento dentro del tiempo indicado
+export class EventTimeoutError extends Error {
+  readonly event: string;
+  readonly timeout: number;
+
+  constructor(event: string, timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for event "${event}"`);
+    this.name = 'EventTimeoutError';
+    this.event = event;
+    this.timeout = timeout;
+  }
+}
+
+// Error con el que termina Emitter.events() cuando llega un evento con el buffer lleno y overflow es 'error'
+export class EventBufferOverflowError extends Error {
+  readonly event: string;
+  readonly bufferSize: number;
+
+  constructor(event: string, bufferSize: number) {
+    super(`Event buffer for "${event}" overflowed (${bufferSize} unread payloads)`);
+    this.name = 'EventBufferOverflowError';
+    this.event = event;
+    this.bufferSize = bufferSize;
+  }
+}
@@ -0,0 +1,56 @@
+// Metadatos que DataStorage guarda junto al valor cuando hacen falta (TTL, etc.)
+export interface RecordMeta {
+  expiresAt?: number; // Epoch en milisegundos
+}
+
+// Sobre con el que se persiste un valor que lleva metadatos.
+// Los valores sin metadatos se guardan tal cual, así los datos existentes siguen siendo legibles.
+export interface RecordEnvelope<T> {
+  __jom: 1;
+  value: T;
+  meta: RecordMeta;
+}
+
+export interface UnwrappedRecord<T> {
+  value: T;
+  meta: RecordMeta;
+}
+
+export function isRecordEnvelope(raw: unknown): raw is RecordEnvelope<unknown> {
+  return (
+    raw !== null &&
+    typeof raw === 'object' &&
+    !Array.isArray(raw) &&
+    (raw as Record<string, unknown>).__jom === 1 &&
+    'value' in (raw as object) &&
+    typeof (raw as Record<string, unknown>).meta === 'object'
+  );
+}
+
+function hasMeta(meta: RecordMeta): boolean {
+  return Object.values(meta).some(value => value !== undefined);
+}
+
+export function wrapRecord<T>(value: T, meta: RecordMeta = {}): T | RecordEnvelope<T> {
+  return hasMeta(meta) ? { __jom: 1, value, meta } : value;
+}
+
+export function unwrapRecord<T>(raw: unknown): UnwrappedRecord<T> {
+  if (isRecordEnvelope(raw)) {
+    return { value: raw.value as T, meta: raw.meta };
+  }
+  return { value: raw as T, meta: {} };
+}
+
+export function isExpired(meta: RecordMeta, now: number = Date.now()): boolean {
+  return meta.expiresAt !== undefined && meta.expiresAt <= now;
+}
+
+// Claves internas (p. ej. la versión del esquema) que se guardan en el mismo adapter que los datos.
+// DataStorage las excluye de getAll, entries, list y find.
+export const RESERVED_KEY_PREFIX = '__jom:';
+
+export function isReservedKey(key: string): boolean {
+  // También bajo el prefijo de un namespace ('users:__jom:...')
+  return key.includes(RESERVED_KEY_PREFIX);
+}
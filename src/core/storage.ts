@@ -1,18 +1,296 @@
-import { StorageAdapter } from './types.js';
+import { StorageAdapter, StorageEntry, ListOptions, ListResult } from './types.js';
 import { AllowedData } from './types.js';
-import { Emitter } from '../utils/Emitter.js';
+import { Emitter, type EventStreamOptions, type ListenerOptions, type WaitForOptions } from '../utils/Emitter.js';
+import { executeQuery, getPath, type Query, type QueryOptions } from '../utils/query.js';
+import { adapterEntries, listKeys, listRecord, prefixedEntries, readAdapterRecords } from '../utils/iteration.js';
+import { applyJsonPatch, createJsonPatch, type JsonPatchOperation } from '../utils/json-patch.js';
+import { KeyedLock } from '../utils/lock.js';
+import { DataTransformer, DataValidator, type Schema, type ValidationResult } from '../utils/validation.js';
+import { matchesKeyPattern, type KeyPattern } from '../utils/key-pattern.js';
+import { ConflictError, UniqueConstraintError, ValidationError, WriteVetoedError } from './errors.js';
+import { PrefixedAdapter } from '../adapters/prefixed.js';
+import { composeMiddleware, type Middleware } from '../utils/middleware.js';
+import { compareAndSaveRecord, computeVersion } from '../utils/version.js';
+import { SnapshotStore, diffSnapshotData, type SnapshotDiff, type SnapshotInfo } from '../utils/snapshots.js';
+import type { CompressionAdapter } from '../utils/compression.js';
+import { StoreSelection, type SelectOptions, type StateSelector } from '../utils/reactive.js';
+import { MigrationRunner, SCHEMA_VERSION_KEY, type Migration, type MigrateOptions, type MigrationResult } from '../utils/migrations.js';
+import {
+  SecondaryIndex,
+  extractIndexValues,
+  indexEntryPrefix,
+  indexFingerprint,
+  indexStorageKey,
+  isInIndexRange,
+  type IndexExtractor,
+  type IndexOptions,
+  type IndexRange,
+  type IndexValue,
+  type PersistedIndex
+} from '../utils/indexes.js';
+import { isExpired, isReservedKey, unwrapRecord, wrapRecord, type RecordMeta, type UnwrappedRecord } from './record.js';
 
-type EmitMode = 'all' | 'info';
-export type DataStorageEvents = 'change' | 'save' | 'load' | 'delete' | 'clear';
+// 'all': 'change' con todos los datos; 'info': un evento por operación; 'diff': 'change' con el cambio
+// concreto (ChangeEvent); 'none': sin eventos de escritura, para trabajo masivo silencioso
+export type EmitMode = 'all' | 'info' | 'diff' | 'none';
+export type DataStorageEvents = keyof DataStorageEventMap<AllowedData>;
+
+export type DeepPartial<V> = V extends (infer U)[]
+  ? U[]
+  : V extends object
+    ? { [K in keyof V]?: DeepPartial<V[K]> }
+    : V;
+
+// El updater puede devolver un valor nuevo o mutar el borrador y no devolver nada
+export type Updater<T> = (current: T | null) => T | void | Promise<T | void>;
+
+// Payload de 'change' en modo 'diff'. En clear, key es null y no se incluye el contenido anterior.
+// getState() lee todos los datos solo si el listener lo necesita (el estado en el momento de la llamada)
+export interface ChangeEvent<T> {
+  type: 'save' | 'update' | 'delete' | 'clear';
+  key: string | null;
+  previous: T | null;
+  current: T | null;
+  diff: JsonPatchOperation[];
+  getState(): Promise<Record<string, T>>;
+}
+
+// Payload de 'changes': las escrituras agrupadas por batch() o por la ventana de coalesce
+export interface ChangesEvent<T> {
+  keys: string[]; // Claves escritas o borradas, sin repetir, en orden de la primera escritura
+  cleared: boolean; // Hubo un clear() en el grupo
+  getState(): Promise<Record<string, T>>;
+}
+
+export interface UpdateEvent<T> {
+  key: string;
+  previous: T | null;
+  data: T;
+  operations: JsonPatchOperation[];
+}
+
+// 'reject' lanza ValidationError, 'warn' avisa y guarda igualmente, 'coerce' intenta convertir tipos antes de rechazar
+export type ValidationMode = 'reject' | 'warn' | 'coerce';
+
+export interface StorageValidationOptions {
+  schema?: Schema; // Schema por defecto para todas las claves
+  schemas?: Array<{ match: KeyPattern; schema: Schema }>; // Gana el primer patrón que coincida
+  mode?: ValidationMode;
+  validateOnLoad?: boolean;
+}
+
+export interface TtlOptions {
+  defaultTtl?: number; // TTL en ms aplicado cuando save() no indica uno
+  sweepInterval?: number; // Si se indica, el barrido de expirados arranca al crear el storage
+}
+
+export interface SnapshotOptions {
+  adapter?: StorageAdapter<any>; // Dónde se guardan los snapshots (en memoria por defecto)
+  compression?: boolean | CompressionAdapter; // true usa GzipCompressionAdapter
+}
+
+export interface MigrationOptions {
+  migrations: Migration[];
+  versionKey?: string; // Clave reservada con la versión del esquema (por defecto '__jom:schema')
+  auto?: boolean; // Ejecutar las migraciones pendientes en el primer acceso (por defecto true)
+}
+
+export interface CoalesceOptions {
+  // 'microtask' agrupa las escrituras del mismo tick; un número espera esos ms sin escrituras (debounce)
+  window: 'microtask' | number;
+}
+
+export interface DataStorageOptions {
+  validation?: StorageValidationOptions;
+  ttl?: TtlOptions;
+  snapshots?: SnapshotOptions;
+  migration?: MigrationOptions;
+  coalesce?: CoalesceOptions; // Sustituye los eventos de cada escritura por un único 'changes'
+}
+
+export interface NamespaceOptions extends DataStorageOptions {
+  separator?: string; // Separador entre el prefijo y la clave, ':' por defecto
+}
+
+export interface MutationOptions {
+  origin?: string; // Quién origina el cambio (p. ej. 'history', 'sync'); se propaga a onMutation
+}
+
+export interface SaveOptions extends MutationOptions {
+  ttl?: number; // Milisegundos hasta la expiración
+  expiresAt?: number | Date;
+  ifVersion?: string | null; // Versión esperada (de loadWithMeta); null exige que la clave no exista
+}
+
+// Valor con la versión del registro guardado (null si no hay registro, p. ej. un valor por defecto de un middleware)
+export interface VersionedRecord<T> {
+  value: T;
+  version: string | null;
+  expiresAt?: number;
+}
+
+export interface RestoreEvent<T> {
+  snapshot: SnapshotInfo;
+  data: Record<string, T>;
+}
+
+export interface ExpireEvent<T> {
+  key: string;
+  data: T;
+  expiresAt: number;
+}
+
+export interface MutationChange<T> {
+  key: string;
+  previous: T | null;
+  current: T | null;
+}
+
+// Cambio aplicado al storage, con el valor anterior y el nuevo de cada clave afectada
+export interface Mutation<T> {
+  type: 'save' | 'update' | 'delete' | 'clear' | 'restore' | 'expire';
+  changes: MutationChange<T>[];
+  timestamp: number;
+  origin?: string;
+}
+
+// Payload de watch() y watchPath(). path es null al observar la clave entera
+export interface WatchEvent<V> {
+  key: string;
+  path: string | null;
+  previous: V;
+  current: V;
+}
+
+export interface WatchOptions {
+  immediate?: boolean; // Llama también al suscribirse con el valor actual (previous vacío)
+}
+
+export interface WatchPathOptions extends WatchOptions {
+  key?: string; // Clave a observar; toda la ruta es relativa a ella (para claves con puntos)
+}
+
+// Contextos que reciben los middlewares según la operación.
+// En 'save' se puede reemplazar `value` antes de next(); en 'load' y 'getAll' se puede transformar `result` después.
+export interface SaveContext<T> {
+  readonly operation: 'save';
+  readonly key: string;
+  value: T;
+  options: SaveOptions;
+}
+
+export interface LoadContext<T> {
+  readonly operation: 'load';
+  readonly key: string;
+  result: T | null;
+}
+
+export interface DeleteContext {
+  readonly operation: 'delete';
+  readonly key: string;
+}
+
+export interface ClearContext {
+  readonly operation: 'clear';
+}
+
+export interface GetAllContext<T> {
+  readonly operation: 'getAll';
+  result: Record<string, T>;
+}
+
+export type MiddlewareContext<T> = SaveContext<T> | LoadContext<T> | DeleteContext | ClearContext | GetAllContext<T>;
+export type StorageMiddleware<T> = Middleware<MiddlewareContext<T>>;
+
+interface RegisteredIndex<T> {
+  extractor: IndexExtractor<T>;
+  unique: boolean;
+  fingerprint: string;
+  persist: boolean;
+  local: SecondaryIndex | null; // null: el adapter mantiene el índice de forma nativa
+}
+
+export interface InvalidEvent<T> {
+  key: string;
+  data: T;
+  result: ValidationResult;
+  operation: 'save' | 'load';
+  mode: ValidationMode;
+}
+
+// Errores de trabajo en segundo plano que no llegan a ninguna llamada. Sin listeners de 'error' se escriben en consola
+export interface StorageErrorEvent {
+  source: 'sweep' | 'index' | 'mutation' | 'watch';
+  error: unknown;
+  key?: string; // Clave observada ('watch') o nombre del índice ('index')
+}
+
+// Payload de los eventos 'before*', que se emiten antes de escribir y se esperan en serie.
+// Un listener cancela la escritura lanzando un error (que recibe quien escribe) o devolviendo false (WriteVetoedError)
+export interface BeforeWriteEvent<T> {
+  operation: 'save' | 'update' | 'delete' | 'clear';
+  key: string | null; // null en clear
+  data: T | null; // Valor que se va a guardar; null en delete y clear
+  previous?: T | null; // Solo en update
+}
+
+// Payload de cada evento. 'change' depende del modo: todos los datos en 'all', un ChangeEvent en 'diff'
+export type DataStorageEventMap<T> = {
+  change: Record<string, T> | ChangeEvent<T>;
+  changes: ChangesEvent<T>;
+  save: { key: string; data: T };
+  load: { key: string; data: T };
+  delete: { key: string; deletedData: T | null };
+  clear: { clearedData: Record<string, T> | null };
+  update: UpdateEvent<T>;
+  invalid: InvalidEvent<T>;
+  expire: ExpireEvent<T>;
+  restore: RestoreEvent<T>;
+  error: StorageErrorEvent;
+  beforeSave: BeforeWriteEvent<T>;
+  beforeUpdate: BeforeWriteEvent<T>;
+  beforeDelete: BeforeWriteEvent<T>;
+  beforeClear: BeforeWriteEvent<T>;
+};
+
+const BEFORE_WRITE_EVENTS = {
+  save: 'beforeSave',
+  update: 'beforeUpdate',
+  delete: 'beforeDelete',
+  clear: 'beforeClear'
+} as const;
 
 export class DataStorage<T extends AllowedData> {
   private adapter: StorageAdapter<T>;
-  private emitter: Emitter;
+  private emitter: Emitter<DataStorageEventMap<T>>;
   private _emitMode: EmitMode = 'all'; // Por defecto emite todos los datos en 'change'
+  private locks = new KeyedLock(); // Serializa las escrituras por clave
+  private options: DataStorageOptions;
+  private validators = new Map<Schema, DataValidator>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private middlewares: StorageMiddleware<T>[] = [];
+  private mutationListeners = new Set<(mutation: Mutation<T>) => void>();
+  private snapshotStore: SnapshotStore<T> | null = null;
+  private migrationRunner: MigrationRunner | null = null;
+  private migrated: Promise<void> | null = null;
+  private indexes = new Map<string, RegisteredIndex<T>>();
+  private indexing: Promise<void> = Promise.resolve(); // Creación de índices pendiente
+  private indexPersistence: Promise<void> = Promise.resolve();
+  private namespaced = false; // Se creó algún namespace, que escribe directamente en el adapter
+  private batchDepth = 0;
+  private pendingChanges: { keys: Set<string>; cleared: boolean } | null = null;
+  private coalesceTimer: ReturnType<typeof setTimeout> | null = null;
+  private coalesceScheduled = false;
 
-  constructor(adapter: StorageAdapter<T>, emitter?: Emitter) {
+  // Acepta también un Emitter sin tipar, p. ej. uno compartido entre varios storages
+  constructor(adapter: StorageAdapter<T>, emitter?: Emitter<DataStorageEventMap<T>> | Emitter, options: DataStorageOptions = {}) {
     this.adapter = adapter;
-    this.emitter = emitter || new Emitter();
+    this.emitter = (emitter as Emitter<DataStorageEventMap<T>>) || new Emitter<DataStorageEventMap<T>>();
+    this.options = options;
+
+    if (options.ttl?.sweepInterval) {
+      this.startSweeper(options.ttl.sweepInterval);
+    }
   }
 
   // Propiedad para configurar el modo de emisión
@@ -30,72 +308,1236 @@ export class DataStorage<T extends AllowedData> {
     return this;
   }
 
-  async save(key: string, data: T): Promise<void> {
-    if (!this.validateData(data)) {
+  // Registra un middleware alrededor de save, load, delete, clear y getAll.
+  // Se ejecutan en orden de registro; devuelve una función para quitarlo.
+  use(middleware: StorageMiddleware<T>): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    };
+  }
+
+  // Suscripción de bajo nivel a cada escritura, independiente del modo de emisión.
+  // Mientras haya suscriptores, las escrituras leen también el valor anterior.
+  onMutation(listener: (mutation: Mutation<T>) => void): () => void {
+    this.mutationListeners.add(listener);
+    return () => {
+      this.mutationListeners.delete(listener);
+    };
+  }
+
+  // Vista reactiva de una clave o de un valor derivado de todos los datos, compatible con
+  // useSyncExternalStore de React y con los stores de Svelte. Hasta la primera carga el snapshot es options.initial
+  select(key: string, options?: SelectOptions<T | null>): StoreSelection<T, T | null>;
+  select<V>(selector: StateSelector<T, V>, options?: SelectOptions<V>): StoreSelection<T, V>;
+  select<V>(source: string | StateSelector<T, V>, options: SelectOptions<V> = {}): StoreSelection<T, V> {
+    return new StoreSelection<T, V>(this, source, options);
+  }
+
+  // Avisa solo cuando el valor de `key` cambia de verdad (igualdad profunda), con el anterior y el nuevo.
+  // Devuelve la función para cancelar, como Emitter.on
+  watch(key: string, callback: (event: WatchEvent<T | null>) => void, options: WatchOptions = {}): () => void {
+    return this.watchValue(key, null, callback, options);
+  }
+
+  // Como watch(), pero sobre una ruta dentro del valor: en 'user-1.profile.name' la clave es 'user-1'
+  // (hasta el primer punto) y la ruta 'profile.name'. undefined si la clave o la ruta no existen
+  watchPath<V = unknown>(path: string, callback: (event: WatchEvent<V | undefined>) => void, options: WatchPathOptions = {}): () => void {
+    if (options.key !== undefined) {
+      return this.watchValue(options.key, path, callback as (event: WatchEvent<unknown>) => void, options);
+    }
+    const dot = path.indexOf('.');
+    const key = dot === -1 ? path : path.slice(0, dot);
+    return this.watchValue(key, dot === -1 ? '' : path.slice(dot + 1), callback as (event: WatchEvent<unknown>) => void, options);
+  }
+
+  async save(key: string, value: T, options: SaveOptions = {}): Promise<void> {
+    await this.ready();
+    if (!this.validateData(value)) {
       throw new Error('Invalid data format');
     }
-    
-    await this.adapter.save(key, data);
-    
-    if (this._emitMode === 'all') {
-      // Comportamiento por defecto: emite todos los datos en 'change'
-      this.emitter.emit('change', await this.getAll());
-    } else {
-      // Modo'info' emite eventos específicos con los datos específicos
-      this.emitter.emit('save', { key, data });
+    // La validación se hace sobre el valor original, antes de que los middlewares lo transformen
+    const data = this.enforceSchema(key, value, 'save');
+    await this.confirmWrite({ operation: 'save', key, data });
+    let written = false;
+    let previous: T | null = null;
+
+    await this.runMiddleware<SaveContext<T>>({ operation: 'save', key, value: data, options }, async ctx => {
+      const meta: RecordMeta = { expiresAt: this.resolveExpiration(ctx.options) };
+      const { ifVersion } = ctx.options;
+      await this.locks.run(key, async () => {
+        if (this.tracksPrevious()) {
+          previous = (await this.readThrough(key)).value;
+        }
+        await this.writeIndexed(key, data, () => ifVersion === undefined
+          ? this.writeRecord(key, ctx.value, meta)
+          : this.writeRecordIfVersion(key, ctx.value, meta, ifVersion));
+      });
+      written = true;
+    });
+
+    // Un middleware que no llama a next() cancela la escritura y sus eventos
+    if (!written) {
+      return;
     }
+    this.notifyMutation('save', [{ key, previous, current: data }], options.origin);
+    // Modo'info' emite eventos específicos con los datos específicos
+    await this.emitWrite('save', key, previous, data, { event: 'save', data: { key, data } });
   }
 
   async load(key: string): Promise<T | null> {
-    const data = await this.adapter.load(key);
+    const record = await this.loadWithMeta(key);
+    return record === null ? null : record.value;
+  }
+
+  // Como load(), pero incluye la versión del registro para escrituras condicionales (save con ifVersion)
+  async loadWithMeta(key: string): Promise<VersionedRecord<T> | null> {
+    await this.ready();
+    let stored = null as { version: string | null; meta: RecordMeta } | null;
+
+    const ctx = await this.runMiddleware<LoadContext<T>>({ operation: 'load', key, result: null }, async ctx => {
+      const raw = await this.adapter.load(key);
+      if (raw === null) {
+        return;
+      }
+      const record = unwrapRecord<T>(raw);
+
+      // Expiración transparente: se elimina del adapter y se devuelve null
+      if (isExpired(record.meta)) {
+        await this.expireKey(key);
+        return;
+      }
+      ctx.result = record.value;
+      stored = { version: computeVersion(raw), meta: record.meta };
+    });
+
+    let data = ctx.result;
+    if (data === null) {
+      return null;
+    }
+    if (this.options.validation?.validateOnLoad) {
+      data = this.enforceSchema(key, data, 'load');
+    }
     
     // Solo emite en modo'info'ya que load no modifica el storage
-    if (this._emitMode === 'info' && data !== null) {
+    if (this._emitMode === 'info') {
       this.emitter.emit('load', { key, data });
     }
     
-    return data;
+    return { value: data, version: stored?.version ?? null, expiresAt: stored?.meta.expiresAt };
   }
 
-  async delete(key: string): Promise<void> {
-    // Obtener el dato antes de eliminarlo (para el evento en modo'info'
-    const dataBeforeDelete = this._emitMode === 'info' ? await this.adapter.load(key) : null;
-    
-    await this.adapter.delete(key);
+  // Guarda `next` solo si el valor actual es igual a `expected` (null: la clave no existe).
+  // Devuelve false si el valor no coincide o si otro escritor lo cambió entretanto.
+  async compareAndSwap(key: string, expected: T | null, next: T): Promise<boolean> {
+    await this.ready();
+    const current = await this.readThrough(key);
+    if (!DataTransformer.isEqual(current.value, expected)) {
+      return false;
+    }
+
+    try {
+      await this.save(key, next, { ifVersion: current.version, expiresAt: current.meta.expiresAt });
+      return true;
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string, options: MutationOptions = {}): Promise<void> {
+    await this.ready();
+    await this.confirmWrite({ operation: 'delete', key, data: null });
+    let dataBeforeDelete: T | null = null;
+    let deleted = false;
+
+    await this.runMiddleware<DeleteContext>({ operation: 'delete', key }, async () => {
+      dataBeforeDelete = await this.locks.run(key, async () => {
+        // Obtener el dato antes de eliminarlo (para el evento en modo'info'o'diff'y para onMutation)
+        const needsPrevious = this._emitMode === 'info' || this.tracksPrevious();
+        const previous = needsPrevious ? (await this.readThrough(key)).value : null;
+        await this.writeIndexed(key, null, () => this.adapter.delete(key));
+        return previous;
+      });
+      deleted = true;
+    });
+
+    if (!deleted) {
+      return;
+    }
+    if (dataBeforeDelete !== null) {
+      this.notifyMutation('delete', [{ key, previous: dataBeforeDelete, current: null }], options.origin);
+    }
+    // Modo'info' emite evento específico con la clave eliminada
+    await this.emitWrite('delete', key, dataBeforeDelete, null, { event: 'delete', data: { key, deletedData: dataBeforeDelete } });
+  }
+
+  // Lee, transforma y guarda el valor de forma atómica respecto a otras escrituras de la misma clave
+  async update(key: string, updater: Updater<T>, options: MutationOptions = {}): Promise<T> {
+    return this.mutate(key, async current => {
+      const draft = DataTransformer.deepClone(current);
+      const result = await updater(draft);
+      return { data: (result === undefined ? draft : result) as T };
+    }, options);
+  }
+
+  // Fusión profunda del valor parcial con el valor actual
+  async patch(key: string, partial: DeepPartial<T>, options: MutationOptions = {}): Promise<T> {
+    return this.mutate(key, async current => ({
+      data: (current === null ? partial : DataTransformer.deepMerge(current, partial)) as T
+    }), options);
+  }
+
+  // Aplica operaciones JSON Patch (RFC 6902) al valor actual
+  async applyPatch(key: string, operations: JsonPatchOperation[], options: MutationOptions = {}): Promise<T> {
+    return this.mutate(key, async current => ({
+      data: applyJsonPatch(current, operations) as T,
+      operations
+    }), options);
+  }
+
+  private async mutate(
+    key: string,
+    compute: (current: T | null) => Promise<{ data: T; operations?: JsonPatchOperation[] }>,
+    options: MutationOptions
+  ): Promise<T> {
+    await this.ready();
+    let written = false;
+    const event = await this.locks.run(key, async (): Promise<UpdateEvent<T>> => {
+      // Lectura y escritura pasan por los mismos middlewares que load() y save()
+      const { value: previous, meta } = await this.readThrough(key);
+      const computed = await compute(previous);
+
+      if (!this.validateData(computed.data)) {
+        throw new Error('Invalid data format');
+      }
+      const data = this.enforceSchema(key, computed.data, 'save');
+      // Dentro del bloqueo: los listeners no deben escribir en la misma clave
+      await this.confirmWrite({ operation: 'update', key, data, previous });
+      const operations = data === computed.data ? computed.operations : undefined;
+
+      await this.runMiddleware<SaveContext<T>>({ operation: 'save', key, value: data, options: {} }, async ctx => {
+        // Conserva la expiración existente del registro
+        await this.writeIndexed(key, data, () => this.writeRecord(key, ctx.value, meta));
+        written = true;
+      });
+      return { key, previous, data, operations: operations ?? createJsonPatch(previous, data) };
+    });
+
+    if (!written) {
+      return event.data;
+    }
+    this.notifyMutation('update', [{ key, previous: event.previous, current: event.data }], options.origin);
+
+    // Un único evento por actualización
+    await this.emitWrite('update', key, event.previous, event.data, { event: 'update', data: event }, event.operations);
+
+    return event.data;
+  }
+
+  async clear(options: MutationOptions = {}): Promise<void> {
+    await this.ready();
+    await this.confirmWrite({ operation: 'clear', key: null, data: null });
+    // Obtener todos los datos antes de limpiar (para el evento en modo'info'y para onMutation)
+    const needsPrevious = this._emitMode === 'info' || this.mutationListeners.size > 0;
+    const dataBeforeClear = needsPrevious ? await this.getAll() : null;
+    let cleared = false;
     
-    if (this._emitMode === 'all') {
-      // Comportamiento por defecto: emite todos los datos en 'change'
-      this.emitter.emit('change', await this.getAll());
+    await this.runMiddleware<ClearContext>({ operation: 'clear' }, async () => {
+      await this.preservingSchemaVersion(() => this.adapter.clear());
+      await this.resetLocalIndexes();
+      cleared = true;
+    });
+
+    if (!cleared) {
+      return;
+    }
+    const changes = Object.entries(dataBeforeClear || {}).map(([key, previous]) => ({ key, previous, current: null }));
+    if (changes.length > 0) {
+      this.notifyMutation('clear', changes, options.origin);
+    }
+    // Modo'info' emite evento específico con los datos que se limpiaron
+    await this.emitWrite('clear', null, null, null, { event: 'clear', data: { clearedData: dataBeforeClear } }, []);
+  }
+
+  // Ejecuta `work` sin emitir un evento por cada escritura; al terminar emite un único 'changes'
+  // con todas las claves afectadas. Los batch anidados se unen al exterior. Las escrituras
+  // concurrentes de otro código durante el batch también quedan agrupadas.
+  async batch<R>(work: () => Promise<R>): Promise<R> {
+    this.batchDepth++;
+    try {
+      return await work();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flushChanges();
+      }
+    }
+  }
+
+  async getAll(): Promise<Record<string, T>> {
+    await this.ready();
+    return await this.readAllThrough();
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.ready();
+    if (typeof this.adapter.has === 'function' && !(await this.adapter.has(key))) {
+      return false;
+    }
+    return (await this.readLiveValue(key)) !== null;
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    // Se recorren las entradas para poder descartar las claves expiradas
+    for await (const { key } of this.entries()) {
+      yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    await this.ready();
+    for await (const entry of this.rawEntries()) {
+      const { value, meta } = unwrapRecord<T>(entry.value);
+      if (!isExpired(meta)) {
+        yield { key: entry.key, value };
+      }
+    }
+  }
+
+  // Paginación por cursor: pasar `cursor` de la página anterior como `after`
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    await this.ready();
+    const page = typeof this.adapter.list === 'function'
+      ? await this.adapter.list(options)
+      : listRecord(await this.readAllRaw(), options);
+
+    // El cursor se mantiene aunque se descarten registros expirados de la página
+    const now = Date.now();
+    const items: StorageEntry<T>[] = [];
+    for (const item of page.items) {
+      if (isReservedKey(item.key)) {
+        continue;
+      }
+      const { value, meta } = unwrapRecord<T>(item.value);
+      if (!isExpired(meta, now)) {
+        items.push({ key: item.key, value });
+      }
+    }
+    return { items, cursor: page.cursor };
+  }
+
+  // Busca registros con un predicado o un objeto de consulta estilo Mongo
+  async find(query: Query<T> = {}, options: QueryOptions<T> = {}): Promise<StorageEntry<T>[]> {
+    await this.ready();
+    // Si el adapter sabe ejecutar la consulta (p. ej. con cursores), delegar en él. Con middlewares no:
+    // pueden transformar el resultado de getAll() y find() debe devolver lo mismo que getAll()
+    if (typeof this.adapter.query === 'function' && this.middlewares.length === 0) {
+      const now = Date.now();
+      const result: StorageEntry<T>[] = [];
+      for (const entry of await this.adapter.query(query, options)) {
+        if (isReservedKey(entry.key)) {
+          continue;
+        }
+        const { value, meta } = unwrapRecord<T>(entry.value);
+        if (!isExpired(meta, now)) {
+          result.push({ key: entry.key, value });
+        }
+      }
+      return result;
+    }
+
+    // Fallback: evaluar la consulta en memoria sobre getAll()
+    const all = await this.getAll();
+    const entries = Object.entries(all).map(([key, value]) => ({ key, value }));
+    return executeQuery(entries, query, options);
+  }
+
+  async findOne(query: Query<T> = {}, options: Omit<QueryOptions<T>, 'limit'> = {}): Promise<StorageEntry<T> | null> {
+    const [first] = await this.find(query, { ...options, limit: 1 });
+    return first || null;
+  }
+
+  async count(query: Query<T> = {}): Promise<number> {
+    const matches = await this.find(query);
+    return matches.length;
+  }
+
+  // Índice secundario sobre el valor que devuelve `extractor`, mantenido en cada save, delete y clear.
+  // Si el adapter tiene índices nativos (IndexedDB) se delega en ellos; si no, el índice se guarda
+  // en una clave reservada del adapter para no reconstruirlo en cada arranque.
+  async createIndex(name: string, extractor: IndexExtractor<T>, options: IndexOptions = {}): Promise<void> {
+    const registered: RegisteredIndex<T> = {
+      extractor,
+      unique: options.unique ?? false,
+      fingerprint: indexFingerprint(extractor, options.unique ?? false),
+      persist: options.persist ?? true,
+      local: null
+    };
+
+    const build = this.indexing.then(async () => {
+      await this.ensureMigrated();
+      if (this.indexes.has(name)) {
+        throw new Error(`Index "${name}" already exists`);
+      }
+      if (registered.unique && this.namespaced && typeof this.adapter.createIndex !== 'function') {
+        throw new Error(`Unique index "${name}" cannot be kept with namespaces, whose writes bypass it`);
+      }
+      if (typeof this.adapter.createIndex === 'function') {
+        await this.adapter.createIndex(name, extractor, { unique: registered.unique });
+      } else {
+        await this.loadLocalIndex(name, registered);
+      }
+      this.indexes.set(name, registered);
+    });
+    // Un índice que falla no bloquea las operaciones siguientes
+    this.indexing = build.catch(() => undefined);
+    await build;
+  }
+
+  async dropIndex(name: string): Promise<void> {
+    await this.ready();
+    const registered = this.getIndex(name);
+    this.indexes.delete(name);
+    if (registered.local === null) {
+      await this.adapter.dropIndex?.(name);
+    } else if (registered.persist) {
+      await this.indexPersistence;
+      await this.adapter.delete(indexStorageKey(name));
+      for (const key of Object.keys(await this.readPersistedIndex(name))) {
+        await this.adapter.delete(indexEntryPrefix(name) + key);
+      }
+    }
+  }
+
+  listIndexes(): string[] {
+    return [...this.indexes.keys()];
+  }
+
+  // Registros cuyo valor indexado es `value`
+  async lookup(name: string, value: IndexValue | Date): Promise<StorageEntry<T>[]> {
+    return await this.lookupRange(name, { gte: value, lte: value });
+  }
+
+  // Registros con el valor indexado dentro del rango, en orden del índice
+  async lookupRange(name: string, range: IndexRange, options: { limit?: number } = {}): Promise<StorageEntry<T>[]> {
+    await this.ready();
+    const registered = this.getIndex(name);
+    const keys = registered.local
+      ? registered.local.keys(range)
+      : await this.queryNativeIndex(name, range);
+
+    const results: StorageEntry<T>[] = [];
+    for (const key of keys) {
+      if (options.limit !== undefined && results.length >= options.limit) {
+        break;
+      }
+      const { value } = await this.readThrough(key);
+      // Se vuelve a comprobar el valor por si el índice persistido quedó desactualizado
+      if (value !== null && extractIndexValues(registered.extractor, value, key).some(v => isInIndexRange(v, range))) {
+        results.push({ key, value });
+      }
+    }
+    return results;
+  }
+
+  // Vista con alcance sobre las claves `${name}${separator}*` del mismo adapter.
+  // Sus eventos se re-emiten en el emitter padre como `${name}${separator}${evento}`.
+  // Sus escrituras van directamente al adapter: no pasan por los índices, watch() ni onMutation()
+  // del padre. Por eso no se admite junto a índices únicos que mantiene el propio DataStorage.
+  namespace(name: string, options: NamespaceOptions = {}): DataStorage<T> {
+    const { separator = ':', ...overrides } = options;
+    const unique = [...this.indexes].find(([, registered]) => registered.unique && registered.local !== null);
+    if (unique) {
+      throw new Error(`Cannot create namespace "${name}": its writes would bypass the unique index "${unique[0]}"`);
+    }
+    this.namespaced = true;
+    const prefix = `${name}${separator}`;
+    const childEmitter = new Emitter<DataStorageEventMap<T>>();
+
+    // Hereda la validación y el TTL por defecto, pero no el barrido (lo hace el padre)
+    // Los snapshots del namespace van al mismo adapter de snapshots, bajo el mismo prefijo
+    const snapshots = this.options.snapshots;
+    const inherited: DataStorageOptions = {
+      ...this.options,
+      ttl: this.options.ttl ? { defaultTtl: this.options.ttl.defaultTtl } : undefined,
+      snapshots: snapshots?.adapter ? { ...snapshots, adapter: new PrefixedAdapter(snapshots.adapter, prefix) } : snapshots,
+      // Las migraciones del padre ya recorren las claves del namespace
+      migration: undefined
+    };
+
+    const child = new DataStorage<T>(
+      new PrefixedAdapter<T>(this.adapter, prefix),
+      childEmitter,
+      { ...inherited, ...overrides }
+    );
+    child.setEmitMode(this._emitMode);
+
+    // Los eventos con prefijo quedan fuera del mapa tipado del padre
+    const parentEmitter = this.emitter as unknown as Emitter;
+    childEmitter.onAny((event, data) => {
+      parentEmitter.emit(`${prefix}${event}`, data);
+    });
+
+    return child;
+  }
+
+  // Guarda una copia completa del estado actual (getAll) en el almacén de snapshots,
+  // con los metadatos (expiración) de cada registro para restaurarlos tal cual
+  async snapshot(label?: string): Promise<SnapshotInfo> {
+    const data = await this.getAll();
+    const meta: Record<string, RecordMeta> = {};
+    for (const [key, raw] of Object.entries(await this.readAllRaw())) {
+      const record = unwrapRecord<T>(raw);
+      if (key in data && record.meta.expiresAt !== undefined) {
+        meta[key] = record.meta;
+      }
+    }
+    return await this.getSnapshotStore().create(data, label, meta);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return await this.getSnapshotStore().list();
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    await this.getSnapshotStore().delete(id);
+  }
+
+  // Diferencias entre el snapshot y el estado actual
+  async diffSnapshot(id: string): Promise<SnapshotDiff<T>> {
+    const snapshot = await this.getSnapshotStore().get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot "${id}" not found`);
+    }
+    return diffSnapshotData(snapshot.data, await this.getAll());
+  }
+
+  // Sustituye todo el contenido del adapter por el del snapshot y emite un único evento 'restore'
+  async restore(id: string, options: MutationOptions = {}): Promise<SnapshotInfo> {
+    await this.ready();
+    const snapshot = await this.getSnapshotStore().get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot "${id}" not found`);
+    }
+    const { data: snapshotData, meta, ...info } = snapshot;
+    const previous = await this.getAll();
+
+    // Cada valor pasa por los middlewares 'save', igual que en save(), y conserva la expiración que tenía.
+    // Los registros que han expirado desde el snapshot no se restauran
+    const now = Date.now();
+    const data: Record<string, T> = {};
+    const contents: Record<string, T> = {};
+    for (const [key, value] of Object.entries(snapshotData)) {
+      const recordMeta = meta[key] || {};
+      if (isExpired(recordMeta, now)) {
+        continue;
+      }
+      data[key] = value;
+      await this.runMiddleware<SaveContext<T>>({ operation: 'save', key, value, options: {} }, async ctx => {
+        contents[key] = wrapRecord(ctx.value, recordMeta) as T;
+      });
+    }
+    await this.replaceContents(contents);
+    await this.rebuildLocalIndexes();
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(data)]);
+    const changes = [...keys]
+      .map(key => ({ key, previous: previous[key] ?? null, current: data[key] ?? null }))
+      .filter(change => !DataTransformer.isEqual(change.previous, change.current));
+    if (changes.length > 0) {
+      this.notifyMutation('restore', changes, options.origin);
+    }
+
+    if (this._emitMode !== 'none') {
+      const event: RestoreEvent<T> = { snapshot: info, data };
+      this.emitter.emit('restore', event);
+    }
+    return info;
+  }
+
+  // Versión del esquema guardada en el adapter (0 si nunca se ha migrado)
+  async getSchemaVersion(): Promise<number> {
+    return await this.getMigrationRunner().getVersion();
+  }
+
+  // Ejecuta las migraciones hasta `to` (la última por defecto); con un `to` menor que la versión actual
+  // hace rollback con las funciones down. Con dryRun devuelve los cambios sin escribir nada.
+  // Tras una llamada explícita ya no se migra automáticamente en esta instancia.
+  async migrate(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const runner = this.getMigrationRunner();
+    const result = await this.withMigrationLock(() => runner.migrate(options));
+    if (!options.dryRun) {
+      this.migrated = Promise.resolve();
+      if (result.changes.length > 0) {
+        await this.rebuildLocalIndexes();
+      }
+    }
+    return result;
+  }
+
+  // Deshace la última migración aplicada (o hasta `to`)
+  async rollback(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const runner = this.getMigrationRunner();
+    const result = await this.withMigrationLock(() => runner.rollback(options));
+    if (!options.dryRun) {
+      this.migrated = Promise.resolve();
+      if (result.changes.length > 0) {
+        await this.rebuildLocalIndexes();
+      }
+    }
+    return result;
+  }
+
+  // Elimina del adapter todas las claves expiradas y devuelve sus nombres
+  async sweepExpired(): Promise<string[]> {
+    await this.ready();
+    const now = Date.now();
+    const candidates: string[] = [];
+    for await (const entry of this.rawEntries()) {
+      if (isExpired(unwrapRecord(entry.value).meta, now)) {
+        candidates.push(entry.key);
+      }
+    }
+
+    const expired: string[] = [];
+    for (const key of candidates) {
+      if (await this.expireKey(key)) {
+        expired.push(key);
+      }
+    }
+    return expired;
+  }
+
+  // Inicia el barrido periódico de claves expiradas
+  startSweeper(interval: number = this.options.ttl?.sweepInterval || 60000): this {
+    this.stopSweeper();
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => this.reportError({ source: 'sweep', error }, 'Error sweeping expired keys:'));
+    }, interval);
+    // En Node.js el barrido no debe mantener vivo el proceso
+    (this.sweepTimer as { unref?: () => void }).unref?.();
+    return this;
+  }
+
+  stopSweeper(): this {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    return this;
+  }
+
+  private resolveExpiration(options: SaveOptions): number | undefined {
+    if (options.expiresAt !== undefined) {
+      return options.expiresAt instanceof Date ? options.expiresAt.getTime() : options.expiresAt;
+    }
+    const ttl = options.ttl ?? this.options.ttl?.defaultTtl;
+    return ttl !== undefined ? Date.now() + ttl : undefined;
+  }
+
+  // Borra la clave si sigue expirada (comprobación bajo el lock) y emite 'expire'
+  private async expireKey(key: string): Promise<boolean> {
+    const expired = await this.locks.run(key, async () => {
+      const record = await this.readRecord(key);
+      if (record === null || !isExpired(record.meta)) {
+        return null;
+      }
+      await this.writeIndexed(key, null, () => this.adapter.delete(key));
+      return record;
+    });
+
+    if (expired === null) {
+      return false;
+    }
+    this.notifyMutation('expire', [{ key, previous: expired.value, current: null }]);
+    if (this._emitMode !== 'none') {
+      const event: ExpireEvent<T> = { key, data: expired.value, expiresAt: expired.meta.expiresAt! };
+      this.emitter.emit('expire', event);
+    }
+    return true;
+  }
+
+  // Antes de cada operación: migraciones pendientes e índices en construcción
+  private async ready(): Promise<void> {
+    await this.ensureMigrated();
+    await this.indexing;
+  }
+
+  private getIndex(name: string): RegisteredIndex<T> {
+    const registered = this.indexes.get(name);
+    if (!registered) {
+      throw new Error(`Unknown index "${name}"`);
+    }
+    return registered;
+  }
+
+  // Claves de un índice que mantiene el propio adapter (registered.local === null)
+  private async queryNativeIndex(name: string, range: IndexRange): Promise<string[]> {
+    if (typeof this.adapter.queryIndex !== 'function') {
+      throw new Error(`The adapter cannot query index "${name}"`);
+    }
+    return await this.adapter.queryIndex(name, range);
+  }
+
+  // Actualiza los índices alrededor de una escritura (value null: borrado). Los valores únicos se reservan
+  // de forma síncrona antes de escribir, así dos claves no pueden quedarse con el mismo valor;
+  // si la escritura falla se deshace la reserva.
+  private async writeIndexed(key: string, value: T | null, write: () => Promise<void>): Promise<void> {
+    if (this.indexes.size === 0) {
+      await write();
+      return;
+    }
+
+    const planned: Array<{ name: string; registered: RegisteredIndex<T>; values: IndexValue[] }> = [];
+    for (const [name, registered] of this.indexes) {
+      const values = value === null ? [] : extractIndexValues(registered.extractor, value, key);
+      if (registered.local === null && registered.unique) {
+        // Índice nativo: el adapter también lo impone, aquí solo se obtiene un error más descriptivo
+        for (const indexed of values) {
+          const holder = (await this.queryNativeIndex(name, { gte: indexed, lte: indexed })).find(other => other !== key);
+          if (holder !== undefined) {
+            throw new UniqueConstraintError(name, indexed, key, holder);
+          }
+        }
+      }
+      if (registered.local !== null && registered.unique) {
+        // Un registro expirado (o borrado fuera de DataStorage) no retiene su valor único
+        for (const indexed of values) {
+          const holder = registered.local.holderOf(indexed, key);
+          if (holder !== undefined && (await this.readLiveValue(holder)) === null) {
+            registered.local.set(holder, []);
+            this.persistIndexEntry(name, registered, holder);
+          }
+        }
+      }
+      planned.push({ name, registered, values });
+    }
+
+    const undo: Array<() => void> = [];
+    for (const { name, registered, values } of planned) {
+      const local = registered.local;
+      if (local === null) {
+        continue;
+      }
+      const conflict = local.findConflict(key, values);
+      if (conflict) {
+        undo.forEach(revert => revert());
+        throw new UniqueConstraintError(name, conflict.value, key, conflict.key);
+      }
+      const previous = local.valuesOf(key);
+      local.set(key, values);
+      undo.push(() => local.set(key, previous));
+    }
+
+    try {
+      await write();
+    } catch (error) {
+      undo.forEach(revert => revert());
+      throw error;
+    }
+    for (const { name, registered } of planned) {
+      this.persistIndexEntry(name, registered, key);
+    }
+    await this.indexPersistence;
+  }
+
+  // Carga el índice persistido si corresponde a la misma definición; si no, lo construye recorriendo los datos
+  private async loadLocalIndex(name: string, registered: RegisteredIndex<T>): Promise<void> {
+    if (registered.persist) {
+      const persisted = await this.adapter.load(indexStorageKey(name)) as PersistedIndex | null;
+      if (persisted && persisted.fingerprint === registered.fingerprint) {
+        const index = new SecondaryIndex(registered.unique);
+        for (const [key, values] of Object.entries(await this.readPersistedIndex(name))) {
+          index.set(key, values);
+        }
+        registered.local = index;
+        return;
+      }
+    }
+
+    const index = new SecondaryIndex(registered.unique);
+    this.fillLocalIndex(name, index, registered.extractor, await this.readAllThrough());
+    registered.local = index;
+    this.persistLocalIndex(name, registered);
+    await this.indexPersistence;
+  }
+
+  private fillLocalIndex(name: string, index: SecondaryIndex, extractor: IndexExtractor<T>, data: Record<string, T>): void {
+    for (const [key, value] of Object.entries(data)) {
+      const values = extractIndexValues(extractor, value, key);
+      const conflict = index.findConflict(key, values);
+      if (conflict) {
+        throw new UniqueConstraintError(name, conflict.value, key, conflict.key);
+      }
+      index.set(key, values);
+    }
+  }
+
+  // Tras cambios que no pasan por las escrituras normales (restore, migraciones)
+  private async rebuildLocalIndexes(): Promise<void> {
+    const locals = [...this.indexes].flatMap(([name, registered]) => registered.local ? [{ name, registered, local: registered.local }] : []);
+    if (locals.length === 0) {
+      return;
+    }
+    const data = await this.readAllThrough();
+    for (const { name, registered, local } of locals) {
+      local.clear();
+      this.fillLocalIndex(name, local, registered.extractor, data);
+      this.persistLocalIndex(name, registered);
+    }
+    await this.indexPersistence;
+  }
+
+  private async resetLocalIndexes(): Promise<void> {
+    for (const [name, registered] of this.indexes) {
+      if (registered.local !== null) {
+        registered.local.clear();
+        this.persistLocalIndex(name, registered);
+      }
+    }
+    await this.indexPersistence;
+  }
+
+  // Persiste el índice entero: solo se escriben las entradas que difieren de las guardadas. La cabecera
+  // se borra al empezar y se escribe al final; si falta, el índice se reconstruye en el siguiente arranque
+  private persistLocalIndex(name: string, registered: RegisteredIndex<T>): void {
+    if (!registered.persist || registered.local === null) {
+      return;
+    }
+    const local = registered.local;
+    this.queueIndexWrite(name, async () => {
+      const prefix = indexEntryPrefix(name);
+      await this.adapter.delete(indexStorageKey(name));
+      const stored = await this.readPersistedIndex(name);
+      for (const [key, values] of local.entries()) {
+        if (!DataTransformer.isEqual(stored[key], values)) {
+          await this.adapter.save(prefix + key, values as T);
+        }
+      }
+      for (const key of Object.keys(stored)) {
+        if (local.valuesOf(key).length === 0) {
+          await this.adapter.delete(prefix + key);
+        }
+      }
+      const header: PersistedIndex = { fingerprint: registered.fingerprint };
+      await this.adapter.save(indexStorageKey(name), header as T);
+    });
+  }
+
+  // Persiste solo la entrada de una clave tras una escritura
+  private persistIndexEntry(name: string, registered: RegisteredIndex<T>, key: string): void {
+    if (!registered.persist || registered.local === null) {
+      return;
+    }
+    const values = registered.local.valuesOf(key);
+    const entryKey = indexEntryPrefix(name) + key;
+    this.queueIndexWrite(name, () => values.length > 0 ? this.adapter.save(entryKey, values as T) : this.adapter.delete(entryKey));
+  }
+
+  // Las escrituras del índice se encadenan para que el adapter termine siempre con el último estado
+  private queueIndexWrite(name: string, write: () => Promise<void>): void {
+    this.indexPersistence = this.indexPersistence
+      .then(write)
+      .catch(error => this.reportError({ source: 'index', error, key: name }, `Error saving index "${name}":`));
+  }
+
+  // Entradas persistidas de un índice local, por clave del registro
+  private async readPersistedIndex(name: string): Promise<Record<string, IndexValue[]>> {
+    const prefix = indexEntryPrefix(name);
+    const entries: Record<string, IndexValue[]> = {};
+    for await (const entry of prefixedEntries<unknown>(this.adapter, prefix)) {
+      entries[entry.key.slice(prefix.length)] = entry.value as IndexValue[];
+    }
+    return entries;
+  }
+
+  private getMigrationRunner(): MigrationRunner {
+    const migration = this.options.migration;
+    if (!migration) {
+      throw new Error('No migrations configured for this storage');
+    }
+    if (!this.migrationRunner) {
+      this.migrationRunner = new MigrationRunner(this.adapter, migration.migrations, { versionKey: migration.versionKey });
+    }
+    return this.migrationRunner;
+  }
+
+  // Las migraciones pendientes se ejecutan una sola vez, antes de la primera operación.
+  // Trabajan directamente sobre el adapter, sin pasar por los middlewares.
+  private ensureMigrated(): Promise<void> {
+    const migration = this.options.migration;
+    if (!migration || migration.auto === false) {
+      return Promise.resolve();
+    }
+    if (!this.migrated) {
+      const runner = this.getMigrationRunner();
+      this.migrated = this.withMigrationLock(() => runner.migrate()).then(() => undefined);
+      // Si falla, se reintenta en el siguiente acceso
+      this.migrated.catch(() => {
+        this.migrated = null;
+      });
+    }
+    return this.migrated;
+  }
+
+  private withMigrationLock<R>(task: () => Promise<R>): Promise<R> {
+    return this.locks.run(this.options.migration?.versionKey || SCHEMA_VERSION_KEY, task);
+  }
+
+  // clear() y replaceAll() vacían el adapter entero: la versión del esquema se vuelve a escribir
+  // porque los datos que se guarden después ya tienen el formato actual
+  private async preservingSchemaVersion(task: () => Promise<void>): Promise<void> {
+    const runner = this.options.migration ? this.getMigrationRunner() : null;
+    const version = runner ? await runner.getVersion() : 0;
+    await task();
+    if (runner && version > 0) {
+      await runner.setVersion(version);
+    }
+  }
+
+  private getSnapshotStore(): SnapshotStore<T> {
+    if (!this.snapshotStore) {
+      const options = this.options.snapshots || {};
+      this.snapshotStore = new SnapshotStore<T>(options.adapter || new InMemoryAdapter<unknown>(), options);
+    }
+    return this.snapshotStore;
+  }
+
+  // Reemplazo atómico si el adapter lo soporta; si no, se escriben primero las claves nuevas
+  // y después se borran las sobrantes, de forma que el storage nunca queda vacío
+  private async replaceContents(contents: Record<string, T>): Promise<void> {
+    if (typeof this.adapter.replaceAll === 'function') {
+      await this.preservingSchemaVersion(() => this.adapter.replaceAll!(contents));
+      return;
+    }
+
+    const stale = Object.keys(await this.readAllRaw()).filter(key => !(key in contents));
+    for (const [key, value] of Object.entries(contents)) {
+      await this.locks.run(key, () => this.adapter.save(key, value));
+    }
+    for (const key of stale) {
+      await this.locks.run(key, () => this.adapter.delete(key));
+    }
+  }
+
+  private notifyMutation(type: Mutation<T>['type'], changes: MutationChange<T>[], origin?: string): void {
+    if (this.mutationListeners.size === 0) {
+      return;
+    }
+    const mutation: Mutation<T> = { type, changes, timestamp: Date.now(), origin };
+    for (const listener of [...this.mutationListeners]) {
+      try {
+        listener(mutation);
+      } catch (error) {
+        this.reportError({ source: 'mutation', error }, 'Error in mutation listener:', console.error);
+      }
+    }
+  }
+
+  // Espera a los listeners 'before*' de la operación; cualquiera de ellos puede cancelarla.
+  // Los listeners onAny van detrás en los resultados y su valor no cuenta como veto
+  private async confirmWrite(event: BeforeWriteEvent<T>): Promise<void> {
+    const name = BEFORE_WRITE_EVENTS[event.operation];
+    const count = this.emitter.listenerCount(name);
+    if (count === 0) {
+      return;
+    }
+    const results = await this.emitter.emitSerial(name, event, { errorPolicy: 'throw' });
+    if (results.slice(0, count).includes(false)) {
+      throw new WriteVetoedError(event.operation, event.key);
+    }
+  }
+
+  // Emite 'error' o, si nadie lo escucha, lo escribe en consola como hasta ahora
+  private reportError(event: StorageErrorEvent, message: string, log: (...data: unknown[]) => void = console.warn): void {
+    if (this.emitter.listenerCount('error') > 0) {
+      this.emitter.emit('error', event);
     } else {
-      // Modo'info' emite evento específico con la clave eliminada
-      this.emitter.emit('delete', { key, deletedData: dataBeforeDelete });
+      log(message, event.error);
     }
   }
 
-  async clear(): Promise<void> {
-    // Obtener todos los datos antes de limpiar (para el evento en modo'info'
-    const dataBeforeClear = this._emitMode === 'info' ? await this.getAll() : null;
-    
-    await this.adapter.clear();
-    
-    if (this._emitMode === 'all') {
-      // Comportamiento por defecto: emite todos los datos en 'change' (será un objeto vacío)
-      this.emitter.emit('change', await this.getAll());
+  // path null: la clave entera
+  private watchValue(key: string, path: string | null, callback: (event: WatchEvent<any>) => void, options: WatchOptions): () => void {
+    const select = (value: T | null): unknown => {
+      if (path === null) return value;
+      return value === null ? undefined : getPath(value, path);
+    };
+    let active = true;
+    const unsubscribe = this.onMutation(mutation => {
+      for (const change of mutation.changes) {
+        if (change.key !== key) {
+          continue;
+        }
+        const previous = select(change.previous);
+        const current = select(change.current);
+        if (!DataTransformer.isEqual(previous, current)) {
+          callback({ key, path, previous, current });
+        }
+      }
+    });
+
+    if (options.immediate) {
+      this.load(key)
+        .then(value => {
+          if (active) {
+            callback({ key, path, previous: select(null), current: select(value) });
+          }
+        })
+        .catch(error => this.reportError({ source: 'watch', error, key }, 'Error in watch listener:', console.error));
+    }
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  // key null: clear()
+  private collectChange(key: string | null): void {
+    this.pendingChanges ??= { keys: new Set(), cleared: false };
+    if (key === null) {
+      this.pendingChanges.cleared = true;
     } else {
-      // Modo'info' emite evento específico con los datos que se limpiaron
-      this.emitter.emit('clear', { clearedData: dataBeforeClear });
+      this.pendingChanges.keys.add(key);
+    }
+    if (this.batchDepth > 0) {
+      return;
+    }
+
+    const window = this.options.coalesce?.window ?? 'microtask';
+    if (window === 'microtask') {
+      if (!this.coalesceScheduled) {
+        this.coalesceScheduled = true;
+        queueMicrotask(() => {
+          this.coalesceScheduled = false;
+          this.flushChanges();
+        });
+      }
+      return;
     }
+    if (this.coalesceTimer) {
+      clearTimeout(this.coalesceTimer);
+    }
+    this.coalesceTimer = setTimeout(() => {
+      this.coalesceTimer = null;
+      this.flushChanges();
+    }, window);
   }
 
-  async getAll(): Promise<Record<string, T>> {
-    // Si el adapter tiene método getAll, usarlo
-    if (typeof this.adapter.getAll === 'function') {
-      return await this.adapter.getAll();
+  private flushChanges(): void {
+    // Un batch abierto emitirá al terminar
+    if (this.batchDepth > 0 || !this.pendingChanges) {
+      return;
+    }
+    if (this.coalesceTimer) {
+      clearTimeout(this.coalesceTimer);
+      this.coalesceTimer = null;
     }
-   
-    // Fallback: cargar todos los datos individualmente
-    // Esto es menos eficiente pero funciona
-    return this.adapter.data || {};
+    const { keys, cleared } = this.pendingChanges;
+    this.pendingChanges = null;
+
+    let state: Promise<Record<string, T>> | null = null;
+    const event: ChangesEvent<T> = { keys: [...keys], cleared, getState: () => (state ??= this.getAll()) };
+    this.emitter.emit('changes', event);
+  }
+
+  // Las escrituras leen el valor anterior si lo necesita onMutation o el modo 'diff'
+  private tracksPrevious(): boolean {
+    return this._emitMode === 'diff' || this.mutationListeners.size > 0;
+  }
+
+  // Emite el evento de una escritura según el modo de emisión
+  private async emitWrite(
+    type: ChangeEvent<T>['type'],
+    key: string | null,
+    previous: T | null,
+    current: T | null,
+    info: { event: DataStorageEvents; data: unknown },
+    diff?: JsonPatchOperation[]
+  ): Promise<void> {
+    if (this._emitMode === 'none') {
+      return;
+    }
+    if (this.batchDepth > 0 || this.options.coalesce) {
+      this.collectChange(key);
+      return;
+    }
+
+    switch (this._emitMode) {
+      case 'all':
+        // Comportamiento por defecto: emite todos los datos en 'change'
+        this.emitter.emit('change', await this.getAll());
+        break;
+      case 'info':
+        this.emitter.emit(info.event, info.data as DataStorageEventMap<T>[DataStorageEvents]);
+        break;
+      case 'diff': {
+        let state: Promise<Record<string, T>> | null = null;
+        const event: ChangeEvent<T> = {
+          type,
+          key,
+          previous,
+          current,
+          diff: diff ?? createJsonPatch(previous, current),
+          getState: () => (state ??= this.getAll())
+        };
+        this.emitter.emit('change', event);
+        break;
+      }
+      // 'none': sin eventos
+    }
+  }
+
+  private async runMiddleware<C extends MiddlewareContext<T>>(
+    context: C,
+    terminal: (context: C) => Promise<void>
+  ): Promise<C> {
+    if (this.middlewares.length === 0) {
+      await terminal(context);
+    } else {
+      await composeMiddleware<C>(this.middlewares, terminal)(context);
+    }
+    return context;
+  }
+
+  // Valor vigente a través de los middlewares 'load', sin lock ni eventos (para usar dentro del lock).
+  // La versión es la del registro guardado aunque haya expirado, para poder sobrescribirlo con ifVersion.
+  private async readThrough(key: string): Promise<{ value: T | null; meta: RecordMeta; version: string | null }> {
+    let meta: RecordMeta = {};
+    let version: string | null = null;
+    const ctx = await this.runMiddleware<LoadContext<T>>({ operation: 'load', key, result: null }, async ctx => {
+      const raw = await this.adapter.load(key);
+      version = computeVersion(raw);
+      if (raw === null) {
+        return;
+      }
+      const record = unwrapRecord<T>(raw);
+      if (!isExpired(record.meta)) {
+        ctx.result = record.value;
+        meta = record.meta;
+      }
+    });
+    return { value: ctx.result, meta, version };
+  }
+
+  // getAll() sin esperar a migraciones ni índices (para usar mientras se construyen)
+  private async readAllThrough(): Promise<Record<string, T>> {
+    const ctx = await this.runMiddleware<GetAllContext<T>>({ operation: 'getAll', result: {} }, async ctx => {
+      const result: Record<string, T> = {};
+      const now = Date.now();
+      for (const [key, raw] of Object.entries(await this.readAllRaw())) {
+        const { value, meta } = unwrapRecord<T>(raw);
+        if (!isExpired(meta, now)) {
+          result[key] = value;
+        }
+      }
+      ctx.result = result;
+    });
+    return ctx.result;
+  }
+
+  private async readRecord(key: string): Promise<UnwrappedRecord<T> | null> {
+    const raw = await this.adapter.load(key);
+    return raw === null ? null : unwrapRecord<T>(raw);
+  }
+
+  // Valor vigente de la clave, sin disparar eventos ni borrar expirados
+  private async readLiveValue(key: string): Promise<T | null> {
+    const record = await this.readRecord(key);
+    return record !== null && !isExpired(record.meta) ? record.value : null;
+  }
+
+  private async writeRecord(key: string, data: T, meta: RecordMeta): Promise<void> {
+    await this.adapter.save(key, wrapRecord(data, meta) as T);
+  }
+
+  // Escritura condicional: atómica si el adapter implementa compareAndSave; si no, solo la protege el lock de este proceso
+  private async writeRecordIfVersion(key: string, data: T, meta: RecordMeta, expected: string | null): Promise<void> {
+    const saved = await compareAndSaveRecord(this.adapter, key, expected, wrapRecord(data, meta) as T);
+    if (!saved) {
+      throw new ConflictError(key, expected, computeVersion(await this.adapter.load(key)));
+    }
+  }
+
+  // Contenido crudo del adapter (valores posiblemente envueltos con metadatos), sin las claves reservadas
+  private async readAllRaw(): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(await readAdapterRecords(this.adapter))) {
+      if (!isReservedKey(key)) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private async *rawEntries(): AsyncIterableIterator<StorageEntry<unknown>> {
+    for await (const entry of adapterEntries<unknown>(this.adapter)) {
+      if (!isReservedKey(entry.key)) {
+        yield entry;
+      }
+    }
+  }
+
+  // Valida contra el schema configurado; devuelve el valor (posiblemente convertido) o lanza ValidationError
+  private enforceSchema(key: string, data: T, operation: 'save' | 'load'): T {
+    const validation = this.options.validation;
+    const schema = validation && this.resolveSchema(key);
+    if (!validation || !schema) {
+      return data;
+    }
+
+    const mode = validation.mode || 'reject';
+    const validator = this.getValidator(schema);
+    let result = validator.validate(data);
+    let value = data;
+
+    if (!result.isValid && mode === 'coerce') {
+      const coerced = validator.coerce(data);
+      const coercedResult = validator.validate(coerced);
+      if (coercedResult.isValid) {
+        return coerced;
+      }
+      result = coercedResult;
+      value = coerced;
+    }
+
+    if (result.isValid) {
+      return data;
+    }
+
+    const event: InvalidEvent<T> = { key, data: value, result, operation, mode };
+    this.emitter.emit('invalid', event);
+
+    if (mode === 'warn') {
+      console.warn(`Validation failed for key "${key}":`, result.errors);
+      return data;
+    }
+    throw new ValidationError(key, result);
+  }
+
+  private resolveSchema(key: string): Schema | undefined {
+    const validation = this.options.validation;
+    if (!validation) {
+      return undefined;
+    }
+    const match = validation.schemas?.find(entry => matchesKeyPattern(entry.match, key));
+    return match ? match.schema : validation.schema;
+  }
+
+  private getValidator(schema: Schema): DataValidator {
+    let validator = this.validators.get(schema);
+    if (!validator) {
+      validator = new DataValidator(schema);
+      this.validators.set(schema, validator);
+    }
+    return validator;
   }
 
   private validateData(data: T): boolean {
@@ -111,43 +1553,41 @@ export class DataStorage<T extends AllowedData> {
     }
   }
 
-  // Eventos para modo 'all' (por defecto)
-  public on(event: 'change', callback: (data: Record<string, T>) => void): () => void;
-  
-  // Eventos para modo 'info'
-  public on(event: 'save', callback: (event: { key: string; data: T }) => void): () => void;
-  public on(event: 'load', callback: (event: { key: string; data: T }) => void): () => void;
-  public on(event: 'delete', callback: (event: { key: string; deletedData: T | null }) => void): () => void;
-  public on(event: 'clear', callback: (event: { clearedData: Record<string, T> | null }) => void): () => void;
-  
-  // Implementación genérica
-  public on(event: string, callback: (data: any) => void): () => void {
-    return this.emitter.on(event, callback);
-  }
-
-  // Eventos para modo 'all' (por defecto)
-  public once(event: 'change', callback: (data: Record<string, T>) => void): () => void;
-  
-  // Eventos para modo 'info'
-  public once(event: 'save', callback: (event: { key: string; data: T }) => void): () => void;
-  public once(event: 'load', callback: (event: { key: string; data: T }) => void): () => void;
-  public once(event: 'delete', callback: (event: { key: string; deletedData: T | null }) => void): () => void;
-  public once(event: 'clear', callback: (event: { clearedData: Record<string, T> | null }) => void): () => void;
-  
-  // Implementación genérica
-  public once(event: string, callback: (data: any) => void): () => void {
-    return this.emitter.once(event, callback);
-  }
-
-  // Métodos off genéricos
+  // 'change' lleva todos los datos en modo 'all' (por defecto) y un ChangeEvent en modo 'diff'.
+  // Con options.signal el listener se quita al abortar
+  public on(event: 'change', callback: (data: Record<string, T>) => void, options?: ListenerOptions): () => void;
+  public on(event: 'change', callback: (event: ChangeEvent<T>) => void, options?: ListenerOptions): () => void;
+  public on<K extends DataStorageEvents>(event: K, callback: (data: DataStorageEventMap<T>[K]) => void, options?: ListenerOptions): () => void;
+  public on(event: DataStorageEvents, callback: (data: any) => void, options?: ListenerOptions): () => void {
+    return this.emitter.on(event, callback, options);
+  }
+
+  public once(event: 'change', callback: (data: Record<string, T>) => void, options?: ListenerOptions): () => void;
+  public once(event: 'change', callback: (event: ChangeEvent<T>) => void, options?: ListenerOptions): () => void;
+  public once<K extends DataStorageEvents>(event: K, callback: (data: DataStorageEventMap<T>[K]) => void, options?: ListenerOptions): () => void;
+  public once(event: DataStorageEvents, callback: (data: any) => void, options?: ListenerOptions): () => void {
+    return this.emitter.once(event, callback, options);
+  }
+
   public off(event: 'change', callback: (data: Record<string, T>) => void): void;
-  public off(event: 'save', callback: (event: { key: string; data: T }) => void): void;
-  public off(event: 'load', callback: (event: { key: string; data: T }) => void): void;
-  public off(event: 'delete', callback: (event: { key: string; deletedData: T | null }) => void): void;
-  public off(event: 'clear', callback: (event: { clearedData: Record<string, T> | null }) => void): void;
-  public off(event: string, callback: (data: any) => void): void {
+  public off(event: 'change', callback: (event: ChangeEvent<T>) => void): void;
+  public off<K extends DataStorageEvents>(event: K, callback: (data: DataStorageEventMap<T>[K]) => void): void;
+  public off(event: DataStorageEvents, callback: (data: any) => void): void {
     this.emitter.off(event, callback);
   }
+
+  // Próxima emisión de `event`, p. ej. waitFor('save', { filter: e => e.key === 'x', timeout: 1000 })
+  public waitFor<K extends DataStorageEvents>(
+    event: K,
+    options?: ((data: DataStorageEventMap<T>[K]) => boolean) | WaitForOptions<DataStorageEventMap<T>[K]>
+  ): Promise<DataStorageEventMap<T>[K]> {
+    return this.emitter.waitFor(event, options);
+  }
+
+  // Iterador asíncrono de las emisiones de `event` (for await)
+  public events<K extends DataStorageEvents>(event: K, options?: EventStreamOptions): AsyncIterableIterator<DataStorageEventMap<T>[K]> {
+    return this.emitter.events(event, options);
+  }
 }
 
 
@@ -163,6 +1603,14 @@ export class InMemoryAdapter<T> implements StorageAdapter<T> {
     return this.storage.get(key) || null;
   }
 
+  async compareAndSave(key: string, expectedVersion: string | null, data: T): Promise<boolean> {
+    if (computeVersion(this.storage.get(key) || null) !== expectedVersion) {
+      return false;
+    }
+    this.storage.set(key, data);
+    return true;
+  }
+
   async delete(key: string): Promise<void> {
     this.storage.delete(key);
   }
@@ -171,6 +1619,10 @@ export class InMemoryAdapter<T> implements StorageAdapter<T> {
     this.storage.clear();
   }
 
+  async replaceAll(data: Record<string, T>): Promise<void> {
+    this.storage = new Map(Object.entries(data));
+  }
+
   async getAll(): Promise<Record<string, T>> {
     const result: Record<string, T> = {};
     for (const [key, value] of this.storage.entries()) {
@@ -178,4 +1630,25 @@ export class InMemoryAdapter<T> implements StorageAdapter<T> {
     }
     return result;
   }
+
+  async has(key: string): Promise<boolean> {
+    return this.storage.has(key);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    // Copia de las claves para tolerar modificaciones durante la iteración
+    for (const key of [...this.storage.keys()]) {
+      if (this.storage.has(key)) yield key;
+    }
+  }
+
+  async *entries(): AsyncIterableIterator<StorageEntry<T>> {
+    for (const key of [...this.storage.keys()]) {
+      if (this.storage.has(key)) yield { key, value: this.storage.get(key) as T };
+    }
+  }
+
+  async list(options: ListOptions = {}): Promise<ListResult<T>> {
+    return listKeys(this.storage.keys(), key => this.storage.get(key) as T, options);
+  }
 }
\ No newline at end of file
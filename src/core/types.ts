@@ -1,3 +1,24 @@
+import type { Query, QueryOptions } from '../utils/query.js';
+import type { IndexExtractor, IndexRange } from '../utils/indexes.js';
+
+// Par clave/valor devuelto por consultas e iteraciones
+export interface StorageEntry<T> {
+  key: string;
+  value: T;
+}
+
+// Opciones de paginación por cursor: `after` es la última clave de la página anterior
+export interface ListOptions {
+  prefix?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface ListResult<T> {
+  items: StorageEntry<T>[];
+  cursor: string | null; // null cuando no quedan más páginas
+}
+
 export interface StorageAdapter<T> {
   data?: Record<string, T>;
   getAll?(): Promise<Record<string, T>>; // Método opcional
@@ -5,6 +26,24 @@ export interface StorageAdapter<T> {
   load(key: string): Promise<T | null>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
+  // Opcional: el adapter ejecuta la consulta de forma nativa (p. ej. cursores de IndexedDB). La consulta se evalúa
+  // sobre los valores desenvueltos (unwrapRecord), sin los registros expirados, y devuelve los valores desenvueltos
+  query?(query: Query<T>, options?: QueryOptions<T>): Promise<StorageEntry<T>[]>;
+  // Opcionales: iteración y paginación sin cargar todo con getAll()
+  keys?(): AsyncIterableIterator<string>;
+  has?(key: string): Promise<boolean>;
+  entries?(): AsyncIterableIterator<StorageEntry<T>>;
+  list?(options?: ListOptions): Promise<ListResult<T>>;
+  // Opcional: guarda solo si la versión actual (computeVersion del valor guardado) es `expectedVersion`,
+  // de forma atómica para el almacenamiento. `null` exige que la clave no exista. Devuelve false si hay conflicto.
+  compareAndSave?(key: string, expectedVersion: string | null, data: T): Promise<boolean>;
+  // Opcional: sustituye todo el contenido de una vez (restauración de snapshots)
+  replaceAll?(data: Record<string, T>): Promise<void>;
+  // Opcionales: índices secundarios nativos (p. ej. IDBObjectStore.createIndex). Si el adapter los implementa,
+  // calcula él mismo los valores con el extractor en cada escritura y DataStorage no mantiene su propio índice.
+  createIndex?(name: string, extractor: IndexExtractor<any>, options: { unique: boolean }): Promise<void>;
+  dropIndex?(name: string): Promise<void>;
+  queryIndex?(name: string, range: IndexRange): Promise<string[]>; // Claves en orden del índice
 }
 
 // Interfaz extendida para adaptadores con funcionalidades adicionales
@@ -1,11 +1,27 @@
 // Core exports
 export { DataStorage, InMemoryAdapter } from './core/storage.js';
-export type { StorageAdapter, AllowedData, StringMap, Message, MemoryStore } from './core/types.js';
+export { PrefixedAdapter } from './adapters/prefixed.js';
+export { TransformingAdapter, EncryptedAdapter, isTransformedEnvelope } from './adapters/transforming.js';
+export type { TransformingAdapterOptions, EncryptedAdapterOptions, TransformedEnvelope, CompressionAlgorithm, EncryptionAlgorithm } from './adapters/transforming.js';
+export { CachedAdapter, DEFAULT_INVALIDATION_EVENTS } from './adapters/cached.js';
+export type { CachedAdapterOptions, CacheStats, CacheWriteMode } from './adapters/cached.js';
+export { TieredAdapter } from './adapters/tiered.js';
+export type { TieredAdapterOptions, TierRule, TierPlacement, TierName, TierRead, TierStats } from './adapters/tiered.js';
+export { ReplicatedAdapter } from './adapters/replicated.js';
+export type { ReplicatedAdapterOptions, ReplicatedAdapterEventMap, ReplicationMode, ReplicatedOperation, ReplicationFailureEvent, ReplicationLagEvent, RepairReport, ReplicaStatus } from './adapters/replicated.js';
+export type { DeepPartial, Updater, UpdateEvent, ChangeEvent, DataStorageEventMap, DataStorageEvents, StorageErrorEvent, BeforeWriteEvent, ChangesEvent, CoalesceOptions, EmitMode, DataStorageOptions, StorageValidationOptions, ValidationMode, InvalidEvent, SaveOptions, TtlOptions, ExpireEvent, RestoreEvent, SnapshotOptions, MigrationOptions, NamespaceOptions, VersionedRecord, MutationOptions, Mutation, MutationChange, WatchEvent, WatchOptions, WatchPathOptions, StorageMiddleware, MiddlewareContext, SaveContext, LoadContext, DeleteContext, ClearContext, GetAllContext } from './core/storage.js';
+export type { RecordMeta } from './core/record.js';
+export { isReservedKey, RESERVED_KEY_PREFIX } from './core/record.js';
+export { ValidationError, ConflictError, UniqueConstraintError, ReplicationError, ListenerTimeoutError, WriteVetoedError, EventTimeoutError, EventBufferOverflowError } from './core/errors.js';
+export type { StorageAdapter, StorageEntry, ListOptions, ListResult, AllowedData, StringMap, Message, MemoryStore } from './core/types.js';
 import { StringMapStorage } from './utils/string-map-storage.js';
 import { ChatMemory, PersistentChatMemory } from './utils/memory.js';
+export { chatMemoryMigrations } from './utils/memory.js';
+export type { PersistentChatMemoryOptions } from './utils/memory.js';
 export const createMemory = () => new ChatMemory();
 export const createStringMap = () => new StringMapStorage();
 export { Emitter } from './utils/Emitter.js';
+export type { EventMap, EventName, EventListener, AnyEventListener, EmitArgs, EventPattern, PatternListener, ErrorPolicy, ListenerErrorEvent, EmitterOptions, ListenerOptions, EmitOptions, WaitForOptions, EventStreamOptions, BufferOverflow } from './utils/Emitter.js';
 export {
     ChatMemory,
     PersistentChatMemory,
@@ -14,5 +30,27 @@ export {
 // Utils exports
 // Export utilities
 export { DataValidator, DataTransformer, validators, schemas } from './utils/validation.js';
+export type { Schema, ValidationResult } from './utils/validation.js';
+export { matchesKeyPattern } from './utils/key-pattern.js';
+export { matchesEventPattern, isEventPattern } from './utils/event-pattern.js';
+export type { KeyPattern } from './utils/key-pattern.js';
 export { BatchProcessor, TransactionProcessor, createBatchProcessor, createTransaction, BatchBuilder, createBatchBuilder } from './utils/batch.js';
-export { SimpleCompressionAdapter, GzipCompressionAdapter, SimpleEncryptionAdapter, AESEncryptionAdapter, SecureCompressionAdapter, createCompression, createEncryption, createSecureCompression, sizeUtils } from './utils/compression.js';
\ No newline at end of file
+export { SimpleCompressionAdapter, GzipCompressionAdapter, SimpleEncryptionAdapter, AESEncryptionAdapter, SecureCompressionAdapter, createCompression, createEncryption, createSecureCompression, sizeUtils } from './utils/compression.js';
+export { matchesQuery, executeQuery, getPath } from './utils/query.js';
+export type { Query, QueryObject, QueryOperators, QueryOptions, QueryPredicate, SortDirection } from './utils/query.js';
+export { applyJsonPatch, createJsonPatch, JsonPatchError } from './utils/json-patch.js';
+export type { JsonPatchOperation } from './utils/json-patch.js';
+export { composeMiddleware } from './utils/middleware.js';
+export { HistoryManager, createHistory, HISTORY_ORIGIN } from './utils/history.js';
+export type { HistoryEntry, HistoryStep, HistoryOptions } from './utils/history.js';
+export { SnapshotStore, diffSnapshotData } from './utils/snapshots.js';
+export type { SnapshotInfo, Snapshot, SnapshotDiff, SnapshotStoreOptions } from './utils/snapshots.js';
+export { MigrationRunner, SCHEMA_VERSION_KEY } from './utils/migrations.js';
+export type { Migration, MigrationTransform, MigrationRunnerOptions, MigrateOptions, MigrationResult, MigrationRecordChange } from './utils/migrations.js';
+export { StoreSelection } from './utils/reactive.js';
+export type { StateSelector, SelectionStatus, SelectOptions } from './utils/reactive.js';
+export { SyncEngine, SyncServer, conflictStrategies, SYNC_STATE_KEY } from './utils/sync.js';
+export type { SyncChange, SyncRequest, SyncResponse, SyncTransport, SyncConflict, ConflictResolver, ConflictStrategy, SyncEngineOptions, SyncServerOptions, SyncResult } from './utils/sync.js';
+export type { IndexExtractor, IndexOptions, IndexRange, IndexValue } from './utils/indexes.js';
+export { computeVersion, stableStringify } from './utils/version.js';
+export type { Middleware, Next } from './utils/middleware.js';
\ No newline at end of file
@@ -7,4 +7,15 @@ export { JSONFileAdapter as JSONFile } from './adapters/json-file.js';
 // Export utilities
 export { DataValidator, DataTransformer, validators, schemas } from './utils/validation.js';
 export { BatchProcessor, TransactionProcessor, createBatchProcessor, createTransaction, BatchBuilder, createBatchBuilder } from './utils/batch.js';
-export { SimpleCompressionAdapter, GzipCompressionAdapter, SimpleEncryptionAdapter, AESEncryptionAdapter, SecureCompressionAdapter, createCompression, createEncryption, createSecureCompression, sizeUtils } from './utils/compression.js';
\ No newline at end of file
+export { SimpleCompressionAdapter, GzipCompressionAdapter, SimpleEncryptionAdapter, AESEncryptionAdapter, SecureCompressionAdapter, createCompression, createEncryption, createSecureCompression, sizeUtils } from './utils/compression.js';
+export { TransformingAdapter, EncryptedAdapter } from './adapters/transforming.js';
+export { CachedAdapter } from './adapters/cached.js';
+export { TieredAdapter } from './adapters/tiered.js';
+export { ReplicatedAdapter } from './adapters/replicated.js';
+export { matchesQuery, executeQuery, getPath } from './utils/query.js';
+export { applyJsonPatch, createJsonPatch, JsonPatchError } from './utils/json-patch.js';
+export { HistoryManager, createHistory } from './utils/history.js';
+export { SnapshotStore, diffSnapshotData } from './utils/snapshots.js';
+export { MigrationRunner } from './utils/migrations.js';
+export { SyncEngine, SyncServer, conflictStrategies } from './utils/sync.js';
+export { StoreSelection } from './utils/reactive.js';
\ No newline at end of file
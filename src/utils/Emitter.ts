@@ -1,29 +1,176 @@
+import { EventBufferOverflowError, EventTimeoutError, ListenerTimeoutError } from '../core/errors.js';
+import { compileEventPattern, isEventPattern } from './event-pattern.js';
+
+// Mapa evento → payload. Sin indicarlo, cualquier nombre de evento con payload any (el Emitter sin tipar)
+export type EventMap = Record<string, any>;
+
+export type EventName<Events extends EventMap> = keyof Events & string;
+
+export type EventListener<Events extends EventMap, K extends EventName<Events>> = (data: Events[K]) => void;
+
+// Recibe el nombre y el payload de cualquier evento; comprobar el nombre acota el tipo del payload
+export type AnyEventListener<Events extends EventMap> = (
+  ...args: { [K in EventName<Events>]: [event: K, data: Events[K]] }[EventName<Events>]
+) => void;
+
+// El payload solo es opcional en los eventos que admiten undefined
+export type EmitArgs<Events extends EventMap, K extends EventName<Events>> = undefined extends Events[K]
+  ? [data?: Events[K]]
+  : [data: Events[K]];
+
+// Patrón de eventos con segmentos comodín: 'user:*' (un segmento) o '**' (cualquier número)
+export type EventPattern = `${string}*${string}`;
+
+// Los listeners de un patrón reciben también el nombre del evento emitido
+export type PatternListener<Events extends EventMap> = (data: Events[EventName<Events>], event: EventName<Events>) => void;
+
+// 'log' escribe el error en consola y sigue; 'collect' llama a todos y lanza un AggregateError al final;
+// 'throw' relanza el primer error; 'event' lo emite como 'error' ({ event, error })
+export type ErrorPolicy = 'log' | 'collect' | 'throw' | 'event';
+
+// Payload de 'error' con la política 'event'
+export interface ListenerErrorEvent {
+  event: string;
+  error: unknown;
+}
+
+export interface EmitterOptions {
+  errorPolicy?: ErrorPolicy; // 'log' por defecto
+  listenerTimeout?: number; // ms que emitSerial/emitParallel esperan a cada listener asíncrono
+  delimiter?: string; // Separador de segmentos en los patrones, ':' por defecto
+}
+
+export interface ListenerOptions {
+  timeout?: number; // Sustituye a listenerTimeout para este listener
+  signal?: AbortSignal; // Quita el listener al abortar
+}
+
+export interface WaitForOptions<D> {
+  filter?: (data: D) => boolean;
+  timeout?: number; // ms; después rechaza con EventTimeoutError
+  signal?: AbortSignal; // Al abortar rechaza con signal.reason
+}
+
+// Qué hacer cuando llega un evento con el buffer lleno: descartar el más antiguo, descartar el nuevo
+// o terminar la iteración con EventBufferOverflowError
+export type BufferOverflow = 'drop-oldest' | 'drop-newest' | 'error';
+
+export interface EventStreamOptions {
+  signal?: AbortSignal; // Al abortar la iteración termina sin entregar lo pendiente
+  bufferSize?: number; // Payloads pendientes de leer como máximo, 100 por defecto
+  overflow?: BufferOverflow; // 'drop-oldest' por defecto
+}
+
+export interface EmitOptions {
+  errorPolicy?: ErrorPolicy; // Sustituye a la política del emitter en esta emisión
+  timeout?: number; // Para los listeners sin timeout propio
+}
+
 type Listener = {
   id: symbol; // ID único para cada listener
-  callback: (data: any) => void;
+  callback: (data: any, event?: string) => unknown;
   once: boolean;
+  timeout?: number;
 };
 
 type AnyListener = {
   id: symbol; // ID único para cada listener
-  callback: (eventAndData: { event: string; data: any }) => void;
+  callback: (eventAndData: { event: string; data: any }) => unknown;
   originalCallback: (event: string, data: any) => void;
   once: boolean;
+  timeout?: number;
+};
+
+// Llamada pendiente a un listener durante una emisión
+type ListenerCall = {
+  run: () => unknown;
+  timeout?: number;
+  any: boolean;
 };
 
-export class Emitter {
-  private listeners: Map<string, Listener[]>;
+// Listeners por evento o patrón. Lleva aparte las claves que son patrones y, para cada evento emitido,
+// los patrones que coinciden con él, de modo que emitir un evento exacto sin patrones cuesta lo mismo que antes
+class ListenerRegistry extends Map<string, Listener[]> {
+  readonly delimiter: string;
+  private patterns = new Set<string>();
+  private matches = new Map<string, string[]>();
+
+  constructor(delimiter: string) {
+    super();
+    this.delimiter = delimiter;
+  }
+
+  isPattern(name: string): boolean {
+    return isEventPattern(name, this.delimiter);
+  }
+
+  override set(key: string, value: Listener[]): this {
+    if (!this.has(key) && this.isPattern(key)) {
+      this.patterns.add(key);
+      this.matches.clear();
+    }
+    return super.set(key, value);
+  }
+
+  override delete(key: string): boolean {
+    if (this.patterns.delete(key)) {
+      this.matches.clear();
+    }
+    return super.delete(key);
+  }
+
+  override clear(): void {
+    this.patterns.clear();
+    this.matches.clear();
+    super.clear();
+  }
+
+  // Patrones registrados que coinciden con el evento
+  patternsFor(event: string): string[] {
+    if (this.patterns.size === 0) {
+      return [];
+    }
+    let patterns = this.matches.get(event);
+    if (!patterns) {
+      patterns = [...this.patterns].filter((pattern) => compileEventPattern(pattern, this.delimiter)(event));
+      // Evita que la caché crezca sin límite con nombres de evento dinámicos
+      if (this.matches.size >= 1000) {
+        this.matches.clear();
+      }
+      this.matches.set(event, patterns);
+    }
+    return patterns;
+  }
+
+  // Claves (eventos exactos o el propio patrón) afectadas por un nombre que puede ser un patrón
+  keysFor(name: string): string[] {
+    if (!this.isPattern(name)) {
+      return this.has(name) ? [name] : [];
+    }
+    const matcher = compileEventPattern(name, this.delimiter);
+    return [...this.keys()].filter((key) => key === name || (!this.patterns.has(key) && matcher(key)));
+  }
+}
+
+export class Emitter<Events extends EventMap = EventMap> {
+  private listeners: ListenerRegistry;
   private anyListeners: AnyListener[];
   private maxListeners: number;
+  private errorPolicy: ErrorPolicy;
+  private listenerTimeout?: number;
 
-  constructor() {
-    this.listeners = new Map();
+  constructor(options: EmitterOptions = {}) {
+    this.listeners = new ListenerRegistry(options.delimiter ?? ':');
     this.anyListeners = [];
     this.maxListeners = 100;
+    this.errorPolicy = options.errorPolicy || 'log';
+    this.listenerTimeout = options.listenerTimeout;
   }
 
-  // Registra un listener que se ejecutará cada vez que se emita el evento
-  public on(event: string, callback: (data: any) => void): () => void {
+  // Registra un listener que se ejecutará cada vez que se emita el evento (o un evento que coincida con el patrón)
+  public on<K extends EventName<Events>>(event: K, callback: EventListener<Events, K>, options?: ListenerOptions): () => void;
+  public on(pattern: EventPattern, callback: PatternListener<Events>, options?: ListenerOptions): () => void;
+  public on(event: string, callback: (data: any, event: any) => void, options: ListenerOptions = {}): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
@@ -36,10 +183,10 @@ export class Emitter {
     }
 
     const id = Symbol('listener');
-    listeners.push({ id, callback, once: false });
+    listeners.push({ id, callback, once: false, timeout: options.timeout });
 
     // Devuelve una función para remover el listener usando el ID único
-    return () => {
+    return this.bindSignal(options.signal, () => {
       const currentListeners = this.listeners.get(event);
       if (currentListeners) {
         const filtered = currentListeners.filter((listener) => listener.id !== id);
@@ -49,21 +196,23 @@ export class Emitter {
           this.listeners.set(event, filtered);
         }
       }
-    };
+    });
   }
 
   // Registra un listener que se ejecutará solo una vez
-  public once(event: string, callback: (data: any) => void): () => void {
+  public once<K extends EventName<Events>>(event: K, callback: EventListener<Events, K>, options?: ListenerOptions): () => void;
+  public once(pattern: EventPattern, callback: PatternListener<Events>, options?: ListenerOptions): () => void;
+  public once(event: string, callback: (data: any, event: any) => void, options: ListenerOptions = {}): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
 
     const listeners = this.listeners.get(event)!;
     const id = Symbol('once-listener');
-    listeners.push({ id, callback, once: true });
+    listeners.push({ id, callback, once: true, timeout: options.timeout });
 
     // Devuelve una función para remover el listener usando el ID único
-    return () => {
+    return this.bindSignal(options.signal, () => {
       const currentListeners = this.listeners.get(event);
       if (currentListeners) {
         const filtered = currentListeners.filter((listener) => listener.id !== id);
@@ -73,165 +222,243 @@ export class Emitter {
           this.listeners.set(event, filtered);
         }
       }
-    };
+    });
   }
 
   // Registra un listener que se ejecutará para cualquier evento
-  public onAny(callback: (event: string, data: any) => void): () => void {
+  public onAny(callback: AnyEventListener<Events>, options: ListenerOptions = {}): () => void {
     const wrappedCallback = (eventAndData: { event: string; data: any }) => {
-      callback(eventAndData.event, eventAndData.data);
+      return (callback as (event: string, data: any) => unknown)(eventAndData.event, eventAndData.data);
     };
     
     const id = Symbol('any-listener');
     const anyListener: AnyListener = {
       id,
       callback: wrappedCallback,
-      originalCallback: callback,
-      once: false
+      originalCallback: callback as (event: string, data: any) => void,
+      once: false,
+      timeout: options.timeout
     };
     
     this.anyListeners.push(anyListener);
 
     // Devuelve una función para remover el listener usando el ID único
-    return () => {
+    return this.bindSignal(options.signal, () => {
       this.anyListeners = this.anyListeners.filter((listener) => listener.id !== id);
-    };
+    });
   }
 
   // Registra un listener que se ejecutará una sola vez para cualquier evento
-  public onceAny(callback: (event: string, data: any) => void): () => void {
+  public onceAny(callback: AnyEventListener<Events>, options: ListenerOptions = {}): () => void {
     const wrappedCallback = (eventAndData: { event: string; data: any }) => {
-      callback(eventAndData.event, eventAndData.data);
+      return (callback as (event: string, data: any) => unknown)(eventAndData.event, eventAndData.data);
     };
     
     const id = Symbol('once-any-listener');
     const anyListener: AnyListener = {
       id,
       callback: wrappedCallback,
-      originalCallback: callback,
-      once: true
+      originalCallback: callback as (event: string, data: any) => void,
+      once: true,
+      timeout: options.timeout
     };
     
     this.anyListeners.push(anyListener);
 
     // Devuelve una función para remover el listener usando el ID único
-    return () => {
+    return this.bindSignal(options.signal, () => {
       this.anyListeners = this.anyListeners.filter((listener) => listener.id !== id);
-    };
+    });
   }
 
-  // Emite un evento con los datos proporcionados
-  
-  public emit(event: string, data: any =''): boolean {
-    let hasListeners = false;
-
-    // Ejecutar listeners específicos del evento
-    const listeners = this.listeners.get(event);
-    if (listeners && listeners.length > 0) {
-      hasListeners = true;
-      
-      // Crear una copia para evitar problemas si se modifica durante la ejecución
-      const listenersToExecute = [...listeners];
-      const listenersToRemove: symbol[] = [];
-      
-      // Ejecutar todos los listeners
-      listenersToExecute.forEach((listener) => {
-        try {
-          listener.callback(data);
-          // Marcar para remoción si es "once"
-          if (listener.once) {
-            listenersToRemove.push(listener.id);
-          }
-        } catch (error) {
-          console.error(`Error in listener for event "${event}":`, error);
-          // Si hay error y es "once", también lo marcamos para remoción
-          if (listener.once) {
-            listenersToRemove.push(listener.id);
-          }
+  // Emite un evento con los datos proporcionados. Los listeners asíncronos no se esperan
+  public emit<K extends EventName<Events>>(event: K, ...args: EmitArgs<Events, K>): boolean;
+  public emit(event: string, data: any = ''): boolean {
+    const calls = this.takeCalls(event, data);
+    const errors: unknown[] = [];
+
+    for (const call of calls) {
+      try {
+        const result = call.run();
+        // Ya no se puede lanzar ni acumular: se registra (o se emite como 'error' con la política 'event')
+        if (result instanceof Promise) {
+          result.catch((error) => this.handleListenerError(event, error, call.any, [], this.errorPolicy === 'event' ? 'event' : 'log'));
         }
-      });
+      } catch (error) {
+        this.handleListenerError(event, error, call.any, errors);
+      }
+    }
 
-      // Remover los listeners "once" después de la ejecución
-      if (listenersToRemove.length > 0) {
-        const remainingListeners = listeners.filter(
-          (listener) => !listenersToRemove.includes(listener.id)
-        );
-        
-        if (remainingListeners.length === 0) {
-          this.listeners.delete(event);
-        } else {
-          this.listeners.set(event, remainingListeners);
-        }
+    this.throwCollected(event, errors);
+    return calls.length > 0;
+  }
+
+  // Llama a los listeners uno tras otro, esperando a los asíncronos, y devuelve sus resultados en orden
+  // (undefined para los que fallan sin que la política lance)
+  public async emitSerial<K extends EventName<Events>>(event: K, data: Events[K], options: EmitOptions = {}): Promise<unknown[]> {
+    const results: unknown[] = [];
+    const errors: unknown[] = [];
+
+    for (const call of this.takeCalls(event, data)) {
+      try {
+        results.push(await this.settle(event, call, options));
+      } catch (error) {
+        this.handleListenerError(event, error, call.any, errors, options.errorPolicy);
+        results.push(undefined);
       }
     }
 
-    // Ejecutar listeners "any"
-    if (this.anyListeners.length > 0) {
-      hasListeners = true;
-      
-      // Crear una copia para evitar problemas si se modifica durante la ejecución
-      const anyListenersToExecute = [...this.anyListeners];
-      const anyListenersToRemove: symbol[] = [];
-      
-      anyListenersToExecute.forEach((listener) => {
-        try {
-          listener.callback({ event, data });
-          // Marcar para remoción si es "once"
-          if (listener.once) {
-            anyListenersToRemove.push(listener.id);
-          }
-        } catch (error) {
-          console.error(`Error in "any" listener for event "${event}":`, error);
-          // Si hay error y es "once", también lo marcamos para remoción
-          if (listener.once) {
-            anyListenersToRemove.push(listener.id);
-          }
-        }
-      });
+    this.throwCollected(event, errors);
+    return results;
+  }
+
+  // Como emitSerial, pero llamando a todos los listeners a la vez
+  public async emitParallel<K extends EventName<Events>>(event: K, data: Events[K], options: EmitOptions = {}): Promise<unknown[]> {
+    const errors: unknown[] = [];
+    const results = await Promise.all(
+      this.takeCalls(event, data).map((call) =>
+        this.settle(event, call, options).catch((error) => {
+          this.handleListenerError(event, error, call.any, errors, options.errorPolicy);
+          return undefined;
+        })
+      )
+    );
+
+    this.throwCollected(event, errors);
+    return results;
+  }
+
+  // Cambia la política de errores de las emisiones siguientes
+  public setErrorPolicy(policy: ErrorPolicy): void {
+    this.errorPolicy = policy;
+  }
+
+  public getErrorPolicy(): ErrorPolicy {
+    return this.errorPolicy;
+  }
+
+  // Copia los listeners del evento (primero los específicos, luego los de patrones y los "any") y quita los "once"
+  // antes de llamarlos
+  private takeCalls(event: string, data: any): ListenerCall[] {
+    const calls: ListenerCall[] = [];
 
-      // Remover los listeners "once" de anyListeners
-      if (anyListenersToRemove.length > 0) {
-        this.anyListeners = this.anyListeners.filter(
-          (listener) => !anyListenersToRemove.includes(listener.id)
-        );
+    // Un nombre que es un patrón registrado no se emite como evento exacto
+    const exact = this.listeners.isPattern(event) ? [] : this.takeListeners(event);
+    for (const listener of exact) {
+      calls.push({ run: () => listener.callback(data), timeout: listener.timeout, any: false });
+    }
+    for (const pattern of this.listeners.patternsFor(event)) {
+      for (const listener of this.takeListeners(pattern)) {
+        calls.push({ run: () => listener.callback(data, event), timeout: listener.timeout, any: false });
       }
     }
 
-    return hasListeners;
+    const anyListeners = this.anyListeners;
+    if (anyListeners.some((listener) => listener.once)) {
+      this.anyListeners = anyListeners.filter((listener) => !listener.once);
+    }
+    for (const listener of anyListeners) {
+      calls.push({ run: () => listener.callback({ event, data }), timeout: listener.timeout, any: true });
+    }
+
+    return calls;
   }
 
-  // Remueve un listener específico
-  public off(event: string, callback: (data: any) => void): void {
-    const listeners = this.listeners.get(event);
-    if (listeners) {
+  private takeListeners(key: string): Listener[] {
+    const listeners = this.listeners.get(key) || [];
+    if (listeners.some((listener) => listener.once)) {
+      const remainingListeners = listeners.filter((listener) => !listener.once);
+      if (remainingListeners.length === 0) {
+        this.listeners.delete(key);
+      } else {
+        this.listeners.set(key, remainingListeners);
+      }
+    }
+    return listeners;
+  }
+
+  // Espera al listener si devuelve una promesa, como mucho el timeout que le corresponda
+  private async settle(event: string, call: ListenerCall, options: EmitOptions): Promise<unknown> {
+    const result = call.run();
+    const timeout = call.timeout ?? options.timeout ?? this.listenerTimeout;
+    if (timeout === undefined || !(result instanceof Promise)) {
+      return result;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ListenerTimeoutError(event, timeout)), timeout);
+    });
+    try {
+      return await Promise.race([result, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private handleListenerError(event: string, error: unknown, any: boolean, errors: unknown[], policy: ErrorPolicy = this.errorPolicy): void {
+    if (policy === 'throw') {
+      throw error;
+    }
+    if (policy === 'collect') {
+      errors.push(error);
+      return;
+    }
+    // Los errores de los propios listeners de 'error' no se vuelven a emitir
+    if (policy === 'event' && event !== 'error' && this.listenerCount('error' as EventName<Events>) > 0) {
+      const payload: ListenerErrorEvent = { event, error };
+      (this as unknown as Emitter).emit('error', payload);
+      return;
+    }
+    console.error(any ? `Error in "any" listener for event "${event}":` : `Error in listener for event "${event}":`, error);
+  }
+
+  private throwCollected(event: string, errors: unknown[]): void {
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `${errors.length} listener(s) failed for event "${event}"`);
+    }
+  }
+
+  // Remueve un listener específico. Con un patrón, lo quita del patrón y de los eventos que coinciden con él
+  public off<K extends EventName<Events>>(event: K, callback: EventListener<Events, K>): void;
+  public off(pattern: EventPattern, callback: PatternListener<Events>): void;
+  public off(event: string, callback: (data: any, event: any) => void): void {
+    for (const key of this.listeners.keysFor(event)) {
+      const listeners = this.listeners.get(key)!;
       const filtered = listeners.filter((listener) => listener.callback !== callback);
       if (filtered.length === 0) {
-        this.listeners.delete(event);
+        this.listeners.delete(key);
       } else {
-        this.listeners.set(event, filtered);
+        this.listeners.set(key, filtered);
       }
     }
   }
 
-  // Remueve todos los listeners de un evento específico
-  public removeAllListeners(event?: string): void {
+  // Remueve todos los listeners de un evento específico (o del patrón y de los eventos que coinciden con él)
+  public removeAllListeners(event?: EventName<Events> | EventPattern): void {
     if (event) {
-      this.listeners.delete(event);
+      for (const key of this.listeners.keysFor(event)) {
+        this.listeners.delete(key);
+      }
     } else {
       this.listeners.clear();
       this.anyListeners = [];
     }
   }
 
-  // Obtiene la cantidad de listeners para un evento
-  public listenerCount(event: string): number {
-    const listeners = this.listeners.get(event);
-    return listeners ? listeners.length : 0;
+  // Obtiene la cantidad de listeners que recibirían el evento, incluidos los de patrones que coinciden con él.
+  // Con un patrón, cuenta los suyos y los de los eventos que coinciden con él
+  public listenerCount(event: EventName<Events> | EventPattern): number {
+    const keys = this.listeners.isPattern(event)
+      ? this.listeners.keysFor(event)
+      : [event, ...this.listeners.patternsFor(event)];
+    return keys.reduce((count, key) => count + (this.listeners.get(key)?.length ?? 0), 0);
   }
 
-  // Obtiene todos los nombres de eventos que tienen listeners
-  public eventNames(): string[] {
-    return Array.from(this.listeners.keys());
+  // Obtiene todos los nombres de eventos (y patrones) que tienen listeners; con un patrón, solo los que coinciden
+  public eventNames(pattern?: EventPattern): Array<EventName<Events> | EventPattern> {
+    const names = pattern === undefined ? [...this.listeners.keys()] : this.listeners.keysFor(pattern);
+    return names as Array<EventName<Events> | EventPattern>;
   }
 
   // Establece el número máximo de listeners por evento
@@ -245,18 +472,18 @@ export class Emitter {
   }
 
   // Obtiene los listeners de un evento específico
-  public getListeners(event: string): ((data: any) => void)[] {
+  public getListeners<K extends EventName<Events>>(event: K): EventListener<Events, K>[] {
     const listeners = this.listeners.get(event);
     return listeners ? listeners.map(l => l.callback) : [];
   }
 
   // Obtiene los listeners "any"
-  public getAnyListeners(): ((event: string, data: any) => void)[] {
-    return this.anyListeners.map(l => l.originalCallback);
+  public getAnyListeners(): AnyEventListener<Events>[] {
+    return this.anyListeners.map(l => l.originalCallback as AnyEventListener<Events>);
   }
 
   // Prepend listener (añade al principio de la lista)
-  public prependListener(event: string, callback: (data: any) => void): () => void {
+  public prependListener<K extends EventName<Events>>(event: K, callback: EventListener<Events, K>): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
@@ -279,7 +506,7 @@ export class Emitter {
   }
 
   // Prepend once listener
-  public prependOnceListener(event: string, callback: (data: any) => void): () => void {
+  public prependOnceListener<K extends EventName<Events>>(event: K, callback: EventListener<Events, K>): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
@@ -302,15 +529,178 @@ export class Emitter {
   }
 
   // Método para emitir de forma asíncrona
-  public async emitAsync(event: string, data: any): Promise<boolean> {
+  public async emitAsync<K extends EventName<Events>>(event: K, ...args: EmitArgs<Events, K>): Promise<boolean> {
     return new Promise((resolve) => {
       setTimeout(() => {
-        const result = this.emit(event, data);
+        const result = this.emit(event, ...args);
         resolve(result);
       }, 0);
     });
   }
 
+  // Se resuelve con el payload de la próxima emisión de `event` que cumpla el filtro (si se indica)
+  public waitFor<K extends EventName<Events>>(
+    event: K,
+    options?: ((data: Events[K]) => boolean) | WaitForOptions<Events[K]>
+  ): Promise<Events[K]>;
+  public waitFor(
+    pattern: EventPattern,
+    options?: ((data: Events[EventName<Events>]) => boolean) | WaitForOptions<Events[EventName<Events>]>
+  ): Promise<Events[EventName<Events>]>;
+  public waitFor(event: string, options: ((data: any) => boolean) | WaitForOptions<any> = {}): Promise<any> {
+    const { filter, timeout, signal } = typeof options === 'function' ? { filter: options } : options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = () => {
+        off();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+      const off = this.on(event as EventName<Events>, (data: any) => {
+        try {
+          if (filter && !filter(data)) {
+            return;
+          }
+        } catch (error) {
+          finish();
+          reject(error);
+          return;
+        }
+        finish();
+        resolve(data);
+      });
+
+      signal?.addEventListener('abort', abort, { once: true });
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          finish();
+          reject(new EventTimeoutError(event, timeout));
+        }, timeout);
+      }
+    });
+  }
+
+  // Iterador asíncrono de los payloads de `event` desde ahora. Los payloads se guardan hasta que se leen;
+  // con el buffer lleno, emitSerial/emitParallel esperan a que el consumidor lea y emit aplica `overflow`
+  public events<K extends EventName<Events>>(event: K, options?: EventStreamOptions): AsyncIterableIterator<Events[K]>;
+  public events(pattern: EventPattern, options?: EventStreamOptions): AsyncIterableIterator<Events[EventName<Events>]>;
+  public events(event: string, options: EventStreamOptions = {}): AsyncIterableIterator<any> {
+    const { signal, bufferSize = 100, overflow = 'drop-oldest' } = options;
+    const buffer: any[] = [];
+    const readers: Array<(result: IteratorResult<any>) => void> = [];
+    // Una sola promesa por cada vez que el buffer se llena, compartida por todos los emisores que esperan
+    let drained: { promise: Promise<void>; resolve: () => void } | null = null;
+    let failure: unknown = null;
+    let done = false;
+
+    const releaseWriters = () => {
+      const writers = drained;
+      drained = null;
+      writers?.resolve();
+    };
+    const close = () => {
+      if (done) return;
+      done = true;
+      off();
+      signal?.removeEventListener('abort', abort);
+      releaseWriters();
+      readers.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+    };
+
+    const off = this.on(event as EventName<Events>, (data: any): Promise<void> | void => {
+      if (done) return;
+      const reader = readers.shift();
+      if (reader) {
+        reader({ value: data, done: false });
+        return;
+      }
+      if (buffer.length >= bufferSize) {
+        if (overflow === 'drop-newest') return;
+        if (overflow === 'error') {
+          failure = new EventBufferOverflowError(event, bufferSize);
+          close();
+          return;
+        }
+        buffer.shift();
+      }
+      buffer.push(data);
+      // Lleno: quien espere al listener (emitSerial/emitParallel) espera también al consumidor
+      if (buffer.length >= bufferSize) {
+        if (!drained) {
+          let resolve!: () => void;
+          const promise = new Promise<void>((release) => (resolve = release));
+          drained = { promise, resolve };
+        }
+        return drained.promise;
+      }
+    });
+
+    // Al abortar se descarta también lo que quedaba por leer
+    const abort = () => {
+      buffer.length = 0;
+      close();
+    };
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    const iterator: AsyncIterableIterator<any> = {
+      next: () => {
+        if (buffer.length > 0) {
+          const value = buffer.shift();
+          releaseWriters();
+          return Promise.resolve({ value, done: false });
+        }
+        if (failure !== null) {
+          const error = failure;
+          failure = null;
+          return Promise.reject(error);
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => readers.push(resolve));
+      },
+      return: (value?: any) => {
+        close();
+        buffer.length = 0;
+        return Promise.resolve({ value, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      }
+    };
+    return iterator;
+  }
+
+  // Con signal, el listener se quita al abortar (o en el acto si ya estaba abortado)
+  private bindSignal(signal: AbortSignal | undefined, off: () => void): () => void {
+    if (!signal) {
+      return off;
+    }
+    if (signal.aborted) {
+      off();
+      return () => {};
+    }
+    signal.addEventListener('abort', off, { once: true });
+    return () => {
+      signal.removeEventListener('abort', off);
+      off();
+    };
+  }
+
   // Método para obtener información de depuración
   public debug(): { 
     totalEvents: number; 
@@ -349,9 +739,8 @@ export class Emitter {
   }
 
   // Método para verificar si hay listeners para un evento
-  public hasListeners(event: string): boolean {
-    const listeners = this.listeners.get(event);
-    return (listeners && listeners.length > 0) || this.anyListeners.length > 0;
+  public hasListeners(event: EventName<Events>): boolean {
+    return this.listenerCount(event) > 0 || this.anyListeners.length > 0;
   }
 }
 
@@ -1,14 +1,22 @@
 // src/utils/batch.ts
 import type { StorageAdapter, AllowedData } from '../core/types.js';
 import { DataStorage } from '../core/storage.js';
+import type { JsonPatchOperation } from './json-patch.js';
 
 // Batch operation types
 export interface BatchOperation {
-  type: 'save' | 'delete';
+  type: 'save' | 'delete' | 'applyPatch';
   key: string;
   value?: AllowedData;
+  patch?: JsonPatchOperation[]; // RFC 6902 operations for 'applyPatch', as in DataStorage.applyPatch()
 }
 
+const OPERATION_LABELS: Record<BatchOperation['type'], string> = {
+  save: 'Save',
+  delete: 'Delete',
+  applyPatch: 'Patch'
+};
+
 export interface BatchResult {
   success: boolean;
   operations: BatchOperationResult[];
@@ -21,6 +29,12 @@ export interface BatchOperationResult {
   error?: string;
 }
 
+// Runs `work` inside storage.batch() so its writes emit a single 'changes' event.
+// Storage-like objects without batch() just run it
+function inStorageBatch<T extends AllowedData, R>(storage: DataStorage<T>, work: () => Promise<R>): Promise<R> {
+  return typeof storage.batch === 'function' ? storage.batch(work) : work();
+}
+
 // Batch processor class
 export class BatchProcessor<T extends AllowedData = AllowedData> {
   private storage: DataStorage<T>;
@@ -39,8 +53,12 @@ export class BatchProcessor<T extends AllowedData = AllowedData> {
     this.delayBetweenBatches = options.delayBetweenBatches || 0;
   }
 
-  // Execute batch operations
+  // Execute batch operations; listeners get one 'changes' event for the whole batch
   async executeBatch(operations: BatchOperation[]): Promise<BatchResult> {
+    return inStorageBatch(this.storage, () => this.executeChunks(operations));
+  }
+
+  private async executeChunks(operations: BatchOperation[]): Promise<BatchResult> {
     const result: BatchResult = {
       success: true,
       operations: [],
@@ -84,14 +102,10 @@ export class BatchProcessor<T extends AllowedData = AllowedData> {
       errors: []
     };
 
-    // Group operations by type for optimization
-    const saveOps = operations.filter(op => op.type === 'save');
-    const deleteOps = operations.filter(op => op.type === 'delete');
-
-    // Execute save operations
-    for (const op of saveOps) {
+    // Operations run in the given order, so a patch or delete sees the writes listed before it
+    for (const op of operations) {
       try {
-        await this.storage.save(op.key, op.value as T);
+        await this.executeOperation(op);
         result.operations.push({
           operation: op,
           success: true
@@ -103,32 +117,26 @@ export class BatchProcessor<T extends AllowedData = AllowedData> {
           success: false,
           error: errorMessage
         });
-        result.errors.push(`Save operation failed for key '${op.key}': ${errorMessage}`);
+        result.errors.push(`${OPERATION_LABELS[op.type]} operation failed for key '${op.key}': ${errorMessage}`);
         result.success = false;
       }
     }
 
-    // Execute delete operations
-    for (const op of deleteOps) {
-      try {
+    return result;
+  }
+
+  private async executeOperation(op: BatchOperation): Promise<void> {
+    switch (op.type) {
+      case 'save':
+        await this.storage.save(op.key, op.value as T);
+        break;
+      case 'applyPatch':
+        await this.storage.applyPatch(op.key, op.patch || []);
+        break;
+      case 'delete':
         await this.storage.delete(op.key);
-        result.operations.push({
-          operation: op,
-          success: true
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        result.operations.push({
-          operation: op,
-          success: false,
-          error: errorMessage
-        });
-        result.errors.push(`Delete operation failed for key '${op.key}': ${errorMessage}`);
-        result.success = false;
-      }
+        break;
     }
-
-    return result;
   }
 
   // Split operations into chunks
@@ -238,10 +246,19 @@ export class TransactionProcessor<T extends AllowedData = AllowedData> {
     return this;
   }
 
-  // Commit all operations
+  applyPatch(key: string, operations: JsonPatchOperation[]): this {
+    this.checkTransactionState();
+    this.operations.push({ type: 'applyPatch', key, patch: operations });
+    return this;
+  }
+
+  // Commit all operations. The writes, and the rollback if any, emit a single 'changes' event
   async commit(): Promise<BatchResult> {
     this.checkTransactionState();
-    
+    return inStorageBatch(this.storage, () => this.commitOperations());
+  }
+
+  private async commitOperations(): Promise<BatchResult> {
     try {
       // Create backup of existing data
       await this.createBackup();
@@ -270,7 +287,10 @@ export class TransactionProcessor<T extends AllowedData = AllowedData> {
     if (this.isRolledBack || this.isCommitted) {
       return;
     }
-    
+    await inStorageBatch(this.storage, () => this.restoreBackup());
+  }
+
+  private async restoreBackup(): Promise<void> {
     try {
       // Restore from backup
       for (const [key, value] of this.backupData) {
@@ -362,6 +382,11 @@ export class BatchBuilder {
     return this;
   }
 
+  applyPatch(key: string, operations: JsonPatchOperation[]): this {
+    this.operations.push({ type: 'applyPatch', key, patch: operations });
+    return this;
+  }
+
   saveMultiple(data: Record<string, AllowedData>): this {
     for (const [key, value] of Object.entries(data)) {
       this.save(key, value);
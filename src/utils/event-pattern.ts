@@ -0,0 +1,50 @@
+// src/utils/event-pattern.ts
+
+// An event pattern splits the event name into segments by a delimiter (':' by default).
+// A `*` segment matches exactly one segment and a `**` segment matches zero or more.
+export type EventMatcher = (event: string) => boolean;
+
+const matcherCache = new Map<string, EventMatcher>();
+
+export function isEventPattern(name: string, delimiter: string = ':'): boolean {
+  return name.includes('*') && name.split(delimiter).some(segment => segment === '*' || segment === '**');
+}
+
+function matchSegments(pattern: string[], event: string[], p: number, e: number): boolean {
+  while (p < pattern.length) {
+    const segment = pattern[p];
+    if (segment === '**') {
+      // Collapse consecutive `**` and try every possible split of the remaining segments
+      while (pattern[p + 1] === '**') p++;
+      if (p === pattern.length - 1) return true;
+      for (let i = e; i <= event.length; i++) {
+        if (matchSegments(pattern, event, p + 1, i)) return true;
+      }
+      return false;
+    }
+    if (e >= event.length || (segment !== '*' && segment !== event[e])) {
+      return false;
+    }
+    p++;
+    e++;
+  }
+  return e === event.length;
+}
+
+// Compiled matchers are cached per pattern and delimiter
+export function compileEventPattern(pattern: string, delimiter: string = ':'): EventMatcher {
+  const cacheKey = `${delimiter}\u0000${pattern}`;
+  let matcher = matcherCache.get(cacheKey);
+  if (!matcher) {
+    const segments = pattern.split(delimiter);
+    matcher = isEventPattern(pattern, delimiter)
+      ? event => matchSegments(segments, event.split(delimiter), 0, 0)
+      : event => event === pattern;
+    matcherCache.set(cacheKey, matcher);
+  }
+  return matcher;
+}
+
+export function matchesEventPattern(pattern: string, event: string, delimiter: string = ':'): boolean {
+  return compileEventPattern(pattern, delimiter)(event);
+}
@@ -0,0 +1,258 @@
+// src/utils/history.ts
+import type { StorageAdapter, AllowedData } from '../core/types.js';
+import type { DataStorage, Mutation } from '../core/storage.js';
+import { DataTransformer } from './validation.js';
+
+// Origin used for the writes performed by undo() and redo(); they are never recorded
+export const HISTORY_ORIGIN = 'history';
+
+export interface HistoryEntry<T> {
+  key: string;
+  before: T | null; // null: the key did not exist
+  after: T | null; // null: the key was deleted
+  timestamp: number;
+  origin?: string;
+}
+
+// One undo step: every entry is reverted together
+export interface HistoryStep<T> {
+  entries: HistoryEntry<T>[];
+  label?: string;
+}
+
+export interface HistoryOptions {
+  limit?: number; // Maximum number of undo steps kept (default 100)
+  adapter?: StorageAdapter<any>; // Where to persist the stacks so they survive reloads
+  persistKey?: string; // Key used in the persistence adapter (default 'history')
+  ignoreOrigins?: string[]; // Changes from these origins are not recorded (e.g. 'sync')
+}
+
+interface PersistedHistory<T> {
+  undo: HistoryStep<T>[];
+  redo: HistoryStep<T>[];
+}
+
+// Records every mutation of a DataStorage and can revert or re-apply them
+export class HistoryManager<T extends AllowedData = AllowedData> {
+  private storage: DataStorage<T>;
+  private limit: number;
+  private adapter?: StorageAdapter<any>;
+  private persistKey: string;
+  private ignoreOrigins: Set<string>;
+  private undoStack: HistoryStep<T>[] = [];
+  private redoStack: HistoryStep<T>[] = [];
+  private openGroups: HistoryStep<T>[] = [];
+  private unsubscribe: () => void;
+  private loadPromise: Promise<void>;
+  private persistPromise: Promise<void> = Promise.resolve();
+
+  constructor(storage: DataStorage<T>, options: HistoryOptions = {}) {
+    this.storage = storage;
+    this.limit = options.limit ?? 100;
+    this.adapter = options.adapter;
+    this.persistKey = options.persistKey || 'history';
+    this.ignoreOrigins = new Set([HISTORY_ORIGIN, ...(options.ignoreOrigins || [])]);
+    this.unsubscribe = storage.onMutation(mutation => this.record(mutation));
+    this.loadPromise = this.restore();
+  }
+
+  // Resolves once the persisted history has been loaded
+  async ready(): Promise<void> {
+    await this.loadPromise;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Reverts the last step and returns it, or null if there is nothing to undo
+  async undo(): Promise<HistoryStep<T> | null> {
+    await this.ready();
+    const step = this.undoStack.pop();
+    if (!step) {
+      return null;
+    }
+
+    try {
+      for (const entry of [...step.entries].reverse()) {
+        await this.apply(entry.key, entry.before);
+      }
+    } catch (error) {
+      this.undoStack.push(step);
+      throw error;
+    }
+
+    this.redoStack.push(step);
+    this.persist();
+    return step;
+  }
+
+  // Re-applies the last undone step and returns it, or null if there is nothing to redo
+  async redo(): Promise<HistoryStep<T> | null> {
+    await this.ready();
+    const step = this.redoStack.pop();
+    if (!step) {
+      return null;
+    }
+
+    try {
+      for (const entry of step.entries) {
+        await this.apply(entry.key, entry.after);
+      }
+    } catch (error) {
+      this.redoStack.push(step);
+      throw error;
+    }
+
+    this.undoStack.push(step);
+    this.persist();
+    return step;
+  }
+
+  // Recorded entries (oldest first), optionally only those of one key
+  history(key?: string): HistoryEntry<T>[] {
+    const entries = this.undoStack.flatMap(step => step.entries);
+    return key === undefined ? entries : entries.filter(entry => entry.key === key);
+  }
+
+  // Records every change made while `task` runs as a single undo step
+  async group<R>(task: () => Promise<R> | R, label?: string): Promise<R> {
+    this.beginGroup(label);
+    try {
+      return await task();
+    } finally {
+      this.endGroup();
+    }
+  }
+
+  beginGroup(label?: string): void {
+    this.openGroups.push({ entries: [], label });
+  }
+
+  endGroup(): void {
+    const group = this.openGroups.pop();
+    if (!group) {
+      throw new Error('endGroup() called without a matching beginGroup()');
+    }
+    if (group.entries.length === 0) {
+      return;
+    }
+
+    // Nested groups fold into their parent
+    const parent = this.openGroups[this.openGroups.length - 1];
+    if (parent) {
+      parent.entries.push(...group.entries);
+    } else {
+      this.pushStep(group);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.persist();
+    await this.flush();
+  }
+
+  // Resolves once every pending write to the persistence adapter has finished
+  async flush(): Promise<void> {
+    await this.persistPromise;
+  }
+
+  // Stops recording; the recorded history is kept
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  private record(mutation: Mutation<T>): void {
+    if (mutation.origin !== undefined && this.ignoreOrigins.has(mutation.origin)) {
+      return;
+    }
+    // Expirations are not edits: undoing one would bring back a record past its expiry
+    if (mutation.type === 'expire') {
+      return;
+    }
+
+    const entries = mutation.changes
+      .filter(change => !DataTransformer.isEqual(change.previous, change.current))
+      .map(change => ({
+        key: change.key,
+        before: DataTransformer.deepClone(change.previous),
+        after: DataTransformer.deepClone(change.current),
+        timestamp: mutation.timestamp,
+        origin: mutation.origin
+      }));
+    if (entries.length === 0) {
+      return;
+    }
+
+    const group = this.openGroups[this.openGroups.length - 1];
+    if (group) {
+      group.entries.push(...entries);
+    } else {
+      this.pushStep({ entries });
+    }
+  }
+
+  private pushStep(step: HistoryStep<T>): void {
+    this.undoStack.push(step);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    // A new change invalidates whatever could be redone
+    this.redoStack = [];
+    this.persist();
+  }
+
+  private async apply(key: string, value: T | null): Promise<void> {
+    if (value === null) {
+      await this.storage.delete(key, { origin: HISTORY_ORIGIN });
+    } else {
+      await this.storage.save(key, value, { origin: HISTORY_ORIGIN });
+    }
+  }
+
+  private async restore(): Promise<void> {
+    if (!this.adapter) {
+      return;
+    }
+
+    try {
+      const persisted: PersistedHistory<T> | null = await this.adapter.load(this.persistKey);
+      if (persisted) {
+        // Steps recorded before the load finished go on top of the persisted ones and invalidate its redo stack
+        const recordedMeanwhile = this.undoStack.length > 0;
+        this.undoStack = [...(persisted.undo || []), ...this.undoStack].slice(-this.limit);
+        this.redoStack = recordedMeanwhile ? [] : [...(persisted.redo || [])];
+      }
+    } catch (error) {
+      console.warn('Error loading history:', error);
+    }
+  }
+
+  // Writes are chained so the adapter always ends up with the latest stacks
+  private persist(): void {
+    const adapter = this.adapter;
+    if (!adapter) {
+      return;
+    }
+
+    this.persistPromise = this.persistPromise
+      .then(() => this.loadPromise)
+      .then(() => adapter.save(this.persistKey, { undo: [...this.undoStack], redo: [...this.redoStack] }))
+      .catch(error => console.warn('Error saving history:', error));
+  }
+}
+
+// Utility function
+export function createHistory<T extends AllowedData = AllowedData>(
+  storage: DataStorage<T>,
+  options?: HistoryOptions
+): HistoryManager<T> {
+  return new HistoryManager(storage, options);
+}
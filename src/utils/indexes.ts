@@ -0,0 +1,221 @@
+// src/utils/indexes.ts
+import { RESERVED_KEY_PREFIX } from '../core/record.js';
+
+// Values an index can hold. Dates are indexed by their timestamp
+export type IndexValue = string | number;
+
+// Returns the indexed value(s) of a record. Anything that is not a string, number or Date
+// (undefined, null, booleans, objects) leaves the record out of the index, like IndexedDB does.
+// Returning an array indexes the record under every element.
+export type IndexExtractor<T> = (value: T, key: string) => unknown;
+
+export interface IndexOptions {
+  unique?: boolean; // Reject saves whose value is already indexed under another key
+  persist?: boolean; // Keep the index in the adapter so it is not rebuilt on start (default true)
+}
+
+export interface IndexRange {
+  gt?: IndexValue | Date;
+  gte?: IndexValue | Date;
+  lt?: IndexValue | Date;
+  lte?: IndexValue | Date;
+}
+
+// Header of a persisted local index. The values of each record are kept under their own key
+// (indexEntryPrefix + record key), so a write only updates the entry of the key it changed
+export interface PersistedIndex {
+  fingerprint: string;
+}
+
+// Reserved key under which the header of a local index is persisted
+export function indexStorageKey(name: string): string {
+  return `${RESERVED_KEY_PREFIX}index:${name}`;
+}
+
+// Reserved prefix of the persisted entries of a local index. The name is encoded so that
+// the entries of one index never fall under the prefix of another
+export function indexEntryPrefix(name: string): string {
+  return `${RESERVED_KEY_PREFIX}index-entry:${encodeURIComponent(name)}:`;
+}
+
+// Identifies an index definition; a persisted index with another fingerprint is rebuilt
+export function indexFingerprint<T>(extractor: IndexExtractor<T>, unique: boolean): string {
+  return `${unique ? 'unique' : 'multi'}:${extractor.toString()}`;
+}
+
+export function normalizeIndexValue(value: unknown): IndexValue | undefined {
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? undefined : value;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Distinct, valid index values of a record
+export function extractIndexValues<T>(extractor: IndexExtractor<T>, value: T, key: string): IndexValue[] {
+  const extracted = extractor(value, key);
+  const candidates = Array.isArray(extracted) ? extracted : [extracted];
+  const values: IndexValue[] = [];
+  for (const candidate of candidates) {
+    const normalized = normalizeIndexValue(candidate);
+    if (normalized !== undefined && !values.includes(normalized)) {
+      values.push(normalized);
+    }
+  }
+  return values;
+}
+
+// Same order as IndexedDB keys: numbers before strings
+export function compareIndexValues(a: IndexValue, b: IndexValue): number {
+  if (typeof a !== typeof b) {
+    return typeof a === 'number' ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function isInIndexRange(value: IndexValue, range: IndexRange): boolean {
+  const bound = (limit: IndexValue | Date | undefined) => (limit === undefined ? undefined : normalizeIndexValue(limit));
+  const gt = bound(range.gt);
+  const gte = bound(range.gte);
+  const lt = bound(range.lt);
+  const lte = bound(range.lte);
+
+  return (
+    (gt === undefined || compareIndexValues(value, gt) > 0) &&
+    (gte === undefined || compareIndexValues(value, gte) >= 0) &&
+    (lt === undefined || compareIndexValues(value, lt) < 0) &&
+    (lte === undefined || compareIndexValues(value, lte) <= 0)
+  );
+}
+
+function encode(value: IndexValue): string {
+  return `${typeof value === 'number' ? 'n' : 's'}:${value}`;
+}
+
+// In-memory secondary index: index value -> record keys, with the distinct values kept sorted for range scans
+export class SecondaryIndex {
+  readonly unique: boolean;
+  private byValue = new Map<string, Set<string>>();
+  private byKey = new Map<string, IndexValue[]>();
+  private sorted: IndexValue[] = [];
+
+  constructor(unique: boolean = false) {
+    this.unique = unique;
+  }
+
+  get size(): number {
+    return this.byKey.size;
+  }
+
+  valuesOf(key: string): IndexValue[] {
+    return this.byKey.get(key) || [];
+  }
+
+  // First key other than `except` indexed under `value`
+  holderOf(value: IndexValue, except?: string): string | undefined {
+    for (const key of this.byValue.get(encode(value)) || []) {
+      if (key !== except) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  // First value of `values` that is already indexed under another key
+  findConflict(key: string, values: IndexValue[]): { value: IndexValue; key: string } | null {
+    if (!this.unique) {
+      return null;
+    }
+    for (const value of values) {
+      const holder = this.holderOf(value, key);
+      if (holder !== undefined) {
+        return { value, key: holder };
+      }
+    }
+    return null;
+  }
+
+  // Replaces the values indexed for `key` (an empty list removes it)
+  set(key: string, values: IndexValue[]): void {
+    for (const value of this.valuesOf(key)) {
+      const encoded = encode(value);
+      const keys = this.byValue.get(encoded)!;
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.byValue.delete(encoded);
+        this.sorted.splice(this.position(value), 1);
+      }
+    }
+
+    if (values.length === 0) {
+      this.byKey.delete(key);
+      return;
+    }
+    this.byKey.set(key, [...values]);
+    for (const value of values) {
+      const encoded = encode(value);
+      let keys = this.byValue.get(encoded);
+      if (!keys) {
+        keys = new Set();
+        this.byValue.set(encoded, keys);
+        this.sorted.splice(this.position(value), 0, value);
+      }
+      keys.add(key);
+    }
+  }
+
+  clear(): void {
+    this.byValue.clear();
+    this.byKey.clear();
+    this.sorted = [];
+  }
+
+  // Keys in index order (by value, then by key), each one once
+  keys(range: IndexRange = {}): string[] {
+    const result: string[] = [];
+    const seen = new Set<string>();
+    const lower = normalizeIndexValue(range.gte ?? range.gt);
+    const start = lower !== undefined ? this.position(lower) : 0;
+
+    for (let i = start; i < this.sorted.length; i++) {
+      const value = this.sorted[i];
+      if (!isInIndexRange(value, range)) {
+        // Values are sorted: once past the upper bound nothing else can match
+        if ((range.lt !== undefined || range.lte !== undefined) && !isInIndexRange(value, { lt: range.lt, lte: range.lte })) {
+          break;
+        }
+        continue;
+      }
+      for (const key of [...this.byValue.get(encode(value))!].sort()) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          result.push(key);
+        }
+      }
+    }
+    return result;
+  }
+
+  // Indexed keys with their values
+  entries(): IterableIterator<[string, IndexValue[]]> {
+    return this.byKey.entries();
+  }
+
+  // Binary search: position of `value` in the sorted list, or where it would be inserted
+  private position(value: IndexValue): number {
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareIndexValues(this.sorted[mid], value) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,120 @@
+// src/utils/iteration.ts
+import type { StorageAdapter, StorageEntry, ListOptions, ListResult } from '../core/types.js';
+
+// Default page size used when walking an adapter page by page
+export const DEFAULT_PAGE_SIZE = 100;
+
+// Keys of a record that satisfy the prefix/after constraints, in cursor order
+export function selectKeys(keys: Iterable<string>, options: ListOptions = {}): string[] {
+  const { prefix, after } = options;
+  const selected: string[] = [];
+
+  for (const key of keys) {
+    if (prefix !== undefined && !key.startsWith(prefix)) continue;
+    if (after !== undefined && key <= after) continue;
+    selected.push(key);
+  }
+
+  return selected.sort();
+}
+
+// Cursor-based pagination over an in-memory lookup function
+export function listKeys<T>(
+  keys: Iterable<string>,
+  read: (key: string) => T,
+  options: ListOptions = {}
+): ListResult<T> {
+  const selected = selectKeys(keys, options);
+  const limit = options.limit !== undefined ? Math.max(0, options.limit) : selected.length;
+  const page = selected.slice(0, limit);
+  const hasMore = selected.length > page.length;
+
+  return {
+    items: page.map(key => ({ key, value: read(key) })),
+    cursor: hasMore && page.length > 0 ? page[page.length - 1] : null
+  };
+}
+
+// Same as listKeys, over a plain record
+export function listRecord<T>(record: Record<string, T>, options: ListOptions = {}): ListResult<T> {
+  return listKeys(Object.keys(record), key => record[key], options);
+}
+
+// Walk every entry of a paginated source without materializing all of it
+export async function* paginateEntries<T>(
+  list: (options: ListOptions) => Promise<ListResult<T>>,
+  options: Omit<ListOptions, 'after'> = {}
+): AsyncIterableIterator<StorageEntry<T>> {
+  const pageSize = options.limit || DEFAULT_PAGE_SIZE;
+  let after: string | undefined;
+
+  do {
+    const page = await list({ prefix: options.prefix, after, limit: pageSize });
+    yield* page.items;
+    after = page.cursor ?? undefined;
+  } while (after !== undefined);
+}
+
+// Every entry of an adapter, using the cheapest enumeration it supports
+export async function* adapterEntries<T>(adapter: StorageAdapter<T>): AsyncIterableIterator<StorageEntry<T>> {
+  if (typeof adapter.entries === 'function') {
+    yield* adapter.entries();
+    return;
+  }
+  if (typeof adapter.list === 'function') {
+    yield* paginateEntries(options => adapter.list!(options));
+    return;
+  }
+  for (const [key, value] of Object.entries(await readAdapterRecords(adapter))) {
+    yield { key, value };
+  }
+}
+
+// Entries whose key starts with `prefix`, using the adapter's paginated list when it has one
+export async function* prefixedEntries<T>(adapter: StorageAdapter<T>, prefix: string): AsyncIterableIterator<StorageEntry<T>> {
+  if (typeof adapter.list === 'function') {
+    yield* paginateEntries(options => adapter.list!(options), { prefix });
+    return;
+  }
+  for await (const entry of adapterEntries(adapter)) {
+    if (entry.key.startsWith(prefix)) {
+      yield entry;
+    }
+  }
+}
+
+// The whole content of an adapter as a plain record
+export async function readAdapterRecords<T>(adapter: StorageAdapter<T>): Promise<Record<string, T>> {
+  if (typeof adapter.getAll === 'function') {
+    return await adapter.getAll();
+  }
+  if (typeof adapter.entries === 'function' || typeof adapter.list === 'function') {
+    const result: Record<string, T> = {};
+    for await (const { key, value } of adapterEntries(adapter)) {
+      result[key] = value;
+    }
+    return result;
+  }
+  return adapter.data || {};
+}
+
+// Replaces the whole content of an adapter. Without a native replaceAll the new values are written
+// first and the leftover keys deleted afterwards, so a failing save never leaves the adapter empty
+export async function replaceAdapterRecords<T>(adapter: StorageAdapter<T>, data: Record<string, T>): Promise<void> {
+  if (typeof adapter.replaceAll === 'function') {
+    await adapter.replaceAll(data);
+    return;
+  }
+  const stale: string[] = [];
+  for await (const { key } of adapterEntries(adapter)) {
+    if (!(key in data)) {
+      stale.push(key);
+    }
+  }
+  for (const [key, value] of Object.entries(data)) {
+    await adapter.save(key, value);
+  }
+  for (const key of stale) {
+    await adapter.delete(key);
+  }
+}
@@ -0,0 +1,194 @@
+// src/utils/json-patch.ts
+import { DataTransformer } from './validation.js';
+
+// RFC 6902 operations
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export class JsonPatchError extends Error {
+  readonly operation: JsonPatchOperation;
+  readonly index: number;
+
+  constructor(message: string, operation: JsonPatchOperation, index: number) {
+    super(`JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${message}`);
+    this.name = 'JsonPatchError';
+    this.operation = operation;
+    this.index = index;
+  }
+}
+
+// Parse an RFC 6901 JSON Pointer into unescaped reference tokens
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function formatPointer(tokens: string[]): string {
+  return tokens.map(token => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+function isContainer(value: unknown): value is Record<string, any> | any[] {
+  return value !== null && typeof value === 'object';
+}
+
+function arrayIndex(token: string, array: unknown[], allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (index > max) {
+    throw new Error(`Array index ${index} out of bounds`);
+  }
+  return index;
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+  let current: any = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(token, current, false)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, any>)[token];
+    } else {
+      throw new Error(`Path "${formatPointer(tokens)}" does not exist`);
+    }
+  }
+  return current;
+}
+
+// Resolve the container that holds the last token of a path
+function getParent(document: unknown, tokens: string[]): any {
+  const parent = getValue(document, tokens.slice(0, -1));
+  if (!isContainer(parent)) {
+    throw new Error(`Parent of "${formatPointer(tokens)}" is not an object or array`);
+  }
+  return parent;
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value;
+
+  const parent = getParent(document, tokens);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(last, parent, true), 0, value);
+  } else {
+    parent[last] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) return null;
+
+  const parent = getParent(document, tokens);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(last, parent, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, last)) {
+      throw new Error(`Path "${formatPointer(tokens)}" does not exist`);
+    }
+    delete parent[last];
+  }
+  return document;
+}
+
+// Apply a list of operations; the input document is never mutated
+export function applyJsonPatch<D>(document: D, operations: JsonPatchOperation[]): D {
+  let result: unknown = DataTransformer.deepClone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      const tokens = parsePointer(operation.path);
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, tokens, DataTransformer.deepClone(operation.value));
+          break;
+        case 'remove':
+          result = removeValue(result, tokens);
+          break;
+        case 'replace':
+          getValue(result, tokens);
+          result = addValue(removeValue(result, tokens), tokens, DataTransformer.deepClone(operation.value));
+          break;
+        case 'move': {
+          const from = parsePointer(operation.from);
+          if (tokens.length > from.length && formatPointer(tokens.slice(0, from.length)) === operation.from) {
+            throw new Error('Cannot move a value into one of its children');
+          }
+          const value = getValue(result, from);
+          result = addValue(removeValue(result, from), tokens, value);
+          break;
+        }
+        case 'copy': {
+          const value = getValue(result, parsePointer(operation.from));
+          result = addValue(result, tokens, DataTransformer.deepClone(value));
+          break;
+        }
+        case 'test':
+          if (!DataTransformer.isEqual(getValue(result, tokens), operation.value)) {
+            throw new Error('Test failed, value does not match');
+          }
+          break;
+        default:
+          throw new Error(`Unknown operation "${(operation as { op: string }).op}"`);
+      }
+    } catch (error) {
+      if (error instanceof JsonPatchError) throw error;
+      throw new JsonPatchError(error instanceof Error ? error.message : String(error), operation, index);
+    }
+  });
+
+  return result as D;
+}
+
+// Compute the operations that turn `before` into `after`
+export function createJsonPatch(before: unknown, after: unknown, basePath: string[] = []): JsonPatchOperation[] {
+  if (DataTransformer.isEqual(before, after)) return [];
+
+  const path = formatPointer(basePath);
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+  const bothObjects = isContainer(before) && isContainer(after) && !Array.isArray(before) && !Array.isArray(after);
+
+  if (bothArrays && (before as unknown[]).length === (after as unknown[]).length) {
+    return (after as unknown[]).flatMap((item, index) =>
+      createJsonPatch((before as unknown[])[index], item, [...basePath, String(index)])
+    );
+  }
+
+  if (bothObjects) {
+    const operations: JsonPatchOperation[] = [];
+    const source = before as Record<string, unknown>;
+    const target = after as Record<string, unknown>;
+
+    for (const key of Object.keys(source)) {
+      if (!Object.prototype.hasOwnProperty.call(target, key)) {
+        operations.push({ op: 'remove', path: formatPointer([...basePath, key]) });
+      }
+    }
+    for (const key of Object.keys(target)) {
+      if (Object.prototype.hasOwnProperty.call(source, key)) {
+        operations.push(...createJsonPatch(source[key], target[key], [...basePath, key]));
+      } else {
+        operations.push({ op: 'add', path: formatPointer([...basePath, key]), value: target[key] });
+      }
+    }
+    return operations;
+  }
+
+  return [{ op: 'replace', path, value: after }];
+}
@@ -0,0 +1,31 @@
+// src/utils/key-pattern.ts
+
+// A key pattern is either a RegExp, an exact key, or a glob where `*` matches any run of characters
+export type KeyPattern = string | RegExp;
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(glob: string): RegExp {
+  let regex = globCache.get(glob);
+  if (!regex) {
+    const source = glob
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    globCache.set(glob, regex);
+  }
+  return regex;
+}
+
+export function matchesKeyPattern(pattern: KeyPattern, key: string): boolean {
+  if (pattern instanceof RegExp) {
+    // Reset stateful (global/sticky) regexes so repeated calls are consistent
+    pattern.lastIndex = 0;
+    return pattern.test(key);
+  }
+  if (!pattern.includes('*')) {
+    return pattern === key;
+  }
+  return globToRegExp(pattern).test(key);
+}
@@ -0,0 +1,27 @@
+// src/utils/lock.ts
+
+// Serializes async work per key: tasks for the same key run one after another,
+// tasks for different keys run concurrently.
+export class KeyedLock {
+  private tails = new Map<string, Promise<unknown>>();
+
+  async run<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const current = previous.then(task, task);
+    // Keep the chain alive even when the task fails
+    const tail = current.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
@@ -1,5 +1,7 @@
 import { MemoryStore, Message } from '../core/types.js';
 import { StorageAdapter } from '../core/types.js';
+import { RESERVED_KEY_PREFIX } from '../core/record.js';
+import { MigrationRunner, type Migration } from './migrations.js';
 export class ChatMemory implements MemoryStore {
   public messages: Message[] = [];
 
@@ -40,16 +42,77 @@ export class ChatMemory implements MemoryStore {
   }
 }
 
+interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: unknown;
+}
+
+function isStoredMessage(msg: unknown): msg is StoredMessage {
+  if (msg === null || typeof msg !== 'object') {
+    return false;
+  }
+  const { role, content } = msg as Record<string, unknown>;
+  return (role === 'user' || role === 'assistant') && typeof content === 'string';
+}
+
+// Migraciones del formato Message[] guardado por PersistentChatMemory
+export const chatMemoryMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalize messages: ISO timestamps, no extra fields, drop malformed entries',
+    up: (messages: unknown) => {
+      if (!Array.isArray(messages)) {
+        return null;
+      }
+      return messages
+        .filter(isStoredMessage)
+        .map(msg => {
+          const message: Record<string, string> = { role: msg.role, content: msg.content };
+          if (msg.timestamp !== undefined && msg.timestamp !== null) {
+            message.timestamp = new Date(msg.timestamp as string | number | Date).toISOString();
+          }
+          return message;
+        });
+    },
+    // El formato normalizado sigue siendo legible por versiones anteriores
+    down: () => undefined
+  }
+];
+
+function toMessages(saved: Message[]): Message[] {
+  return saved.map(msg => ({
+    role: msg.role,
+    content: msg.content,
+    timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date()
+  }));
+}
+
+export interface PersistentChatMemoryOptions {
+  migrations?: Migration[]; // Se añaden a chatMemoryMigrations (con números de versión posteriores)
+}
+
 // Versión persistente con almacenamiento
 export class PersistentChatMemory extends ChatMemory {
   private storageKey = 'chat-memory';
   private storage: StorageAdapter<Message[]>;
   private loaded = false;
+  private cleared = false;
+  private initialLoad: Promise<void>;
 
-  constructor(storage: StorageAdapter<Message[]>) {
+  constructor(storage: StorageAdapter<Message[]>, options: PersistentChatMemoryOptions = {}) {
     super();
     this.storage = storage;
-    this.loadMessages();
+
+    // Las migraciones solo tocan la clave de la memoria; la versión va en una clave reservada propia.
+    const migrations = [...chatMemoryMigrations, ...(options.migrations || [])]
+      .map(migration => ({ ...migration, keys: this.storageKey }));
+    const runner = new MigrationRunner(storage, migrations, { versionKey: `${RESERVED_KEY_PREFIX}${this.storageKey}:schema` });
+    const migrated = runner.migrate()
+      .then(() => undefined)
+      .catch(error => console.warn('Error migrating messages:', error));
+
+    this.initialLoad = migrated.then(() => this.restoreMessages());
   }
 
   override addUserMessage(content: string): void {
@@ -64,24 +127,27 @@ export class PersistentChatMemory extends ChatMemory {
 
   override clear(): void {
     super.clear();
-    this.storage.delete(this.storageKey);
+    if (!this.loaded) {
+      this.cleared = true;
+    }
+    this.initialLoad
+      .then(() => this.storage.delete(this.storageKey))
+      .catch(error => console.warn('Error clearing messages:', error));
   }
 
+  // Espera a la migración y a la carga inicial para no sobrescribir los mensajes guardados
   async saveMessages(): Promise<void> {
+    await this.initialLoad;
     await this.storage.save(this.storageKey, this.getMessages());
   }
 
   async loadMessages(): Promise<void> {
+    await this.initialLoad;
     try {
       const saved = await this.storage.load(this.storageKey);
       if (saved && Array.isArray(saved)) {
-        this.messages = saved.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-          timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date()
-        }));
+        this.messages = toMessages(saved);
       }
-      this.loaded = true;
     } catch (error) {
       console.warn('Error loading messages:', error);
       this.messages = [];
@@ -95,9 +161,20 @@ export class PersistentChatMemory extends ChatMemory {
 
   // Método para obtener mensajes de forma asíncrona
   async getMessagesAsync(): Promise<Message[]> {
-    if (!this.loaded) {
-      await this.loadMessages();
-    }
+    await this.initialLoad;
     return this.getMessages();
   }
+
+  // Carga inicial: los mensajes añadidos mientras migraba van detrás de los guardados
+  private async restoreMessages(): Promise<void> {
+    try {
+      const saved = this.cleared ? null : await this.storage.load(this.storageKey);
+      if (saved && Array.isArray(saved) && !this.cleared) {
+        this.messages = [...toMessages(saved), ...this.messages];
+      }
+    } catch (error) {
+      console.warn('Error loading messages:', error);
+    }
+    this.loaded = true;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+// src/utils/middleware.ts
+
+export type Next = () => Promise<void>;
+
+// Koa-style middleware: code before `await next()` runs on the way in, code after it on the way out.
+// Not calling next() short-circuits the rest of the chain, throwing aborts the operation.
+export type Middleware<C> = (context: C, next: Next) => void | Promise<void>;
+
+// Compose middlewares into a single function that ends in `terminal`
+export function composeMiddleware<C>(
+  middlewares: Middleware<C>[],
+  terminal: (context: C) => Promise<void>
+): (context: C) => Promise<void> {
+  // Snapshot so that use()/unsubscribe during a run does not alter the chain
+  const stack = [...middlewares];
+
+  return context => {
+    let index = -1;
+
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new Error('next() called multiple times');
+      }
+      index = i;
+
+      if (i === stack.length) {
+        await terminal(context);
+        return;
+      }
+      await stack[i](context, () => dispatch(i + 1));
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,181 @@
+// src/utils/migrations.ts
+import type { StorageAdapter } from '../core/types.js';
+import { RESERVED_KEY_PREFIX, isReservedKey, unwrapRecord, wrapRecord, type RecordMeta } from '../core/record.js';
+import { readAdapterRecords } from './iteration.js';
+import { matchesKeyPattern, type KeyPattern } from './key-pattern.js';
+import { DataTransformer } from './validation.js';
+
+// Default key holding the schema version inside the migrated adapter
+export const SCHEMA_VERSION_KEY = `${RESERVED_KEY_PREFIX}schema`;
+
+// Returns the new value of the record; undefined leaves it untouched and null deletes it
+export type MigrationTransform = (value: unknown, key: string) => unknown | Promise<unknown>;
+
+export interface Migration {
+  version: number; // Schema version reached once `up` has run (positive integer, unique)
+  description?: string;
+  keys?: KeyPattern; // Only records whose key matches; every record by default
+  up: MigrationTransform;
+  down?: MigrationTransform; // Needed to roll back past this migration
+}
+
+export interface MigrationRunnerOptions {
+  versionKey?: string; // Where the current version is stored (default SCHEMA_VERSION_KEY)
+}
+
+export interface MigrateOptions {
+  to?: number; // Target version; the latest one by default. Lower than the current one rolls back
+  dryRun?: boolean; // Compute the changes without writing anything
+}
+
+export interface MigrationRecordChange {
+  key: string;
+  before: unknown;
+  after: unknown; // null: the record is deleted
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  dryRun: boolean;
+  applied: Array<{ version: number; description?: string; direction: 'up' | 'down' }>;
+  changes: MigrationRecordChange[];
+}
+
+interface StoredSchemaVersion {
+  version: number;
+  updatedAt: number;
+}
+
+interface WorkingRecord {
+  value: unknown;
+  meta: RecordMeta;
+}
+
+// Applies numbered migrations to every record of an adapter and keeps track of the schema version.
+// All steps run in memory first, so a failing migration leaves the stored data untouched.
+export class MigrationRunner {
+  private adapter: StorageAdapter<unknown>;
+  private migrations: Migration[];
+  private versionKey: string;
+
+  constructor(adapter: StorageAdapter<unknown>, migrations: Migration[], options: MigrationRunnerOptions = {}) {
+    const seen = new Set<number>();
+    for (const migration of migrations) {
+      if (!Number.isInteger(migration.version) || migration.version <= 0) {
+        throw new Error(`Invalid migration version ${migration.version}: versions must be positive integers`);
+      }
+      if (seen.has(migration.version)) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+      seen.add(migration.version);
+    }
+
+    this.adapter = adapter;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.versionKey = options.versionKey || SCHEMA_VERSION_KEY;
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  // Version stored in the adapter; 0 when no migration has ever run
+  async getVersion(): Promise<number> {
+    const stored = await this.adapter.load(this.versionKey);
+    const version = typeof stored === 'object' && stored !== null ? (stored as Partial<StoredSchemaVersion>).version : undefined;
+    return typeof version === 'number' ? version : 0;
+  }
+
+  async setVersion(version: number): Promise<void> {
+    const stored: StoredSchemaVersion = { version, updatedAt: Date.now() };
+    await this.adapter.save(this.versionKey, stored);
+  }
+
+  async pending(): Promise<Migration[]> {
+    const current = await this.getVersion();
+    return this.migrations.filter(migration => migration.version > current);
+  }
+
+  async migrate(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const from = await this.getVersion();
+    const to = options.to ?? this.latestVersion;
+    const dryRun = options.dryRun ?? false;
+    if (to !== 0 && !this.migrations.some(migration => migration.version === to)) {
+      throw new Error(`Unknown schema version ${to}`);
+    }
+
+    const steps = to >= from
+      ? this.migrations.filter(m => m.version > from && m.version <= to).map(m => ({ migration: m, direction: 'up' as const }))
+      : this.migrations.filter(m => m.version > to && m.version <= from).reverse().map(m => ({ migration: m, direction: 'down' as const }));
+    const result: MigrationResult = { from, to, dryRun, applied: [], changes: [] };
+    if (steps.length === 0) {
+      return result;
+    }
+
+    // Values are cloned so transforms can mutate them without touching the adapter (e.g. in a dry run)
+    const original = new Map<string, WorkingRecord>();
+    for (const [key, raw] of Object.entries(await readAdapterRecords(this.adapter))) {
+      if (!isReservedKey(key)) {
+        original.set(key, unwrapRecord(raw));
+      }
+    }
+    const working = new Map<string, WorkingRecord>();
+    for (const [key, record] of original) {
+      working.set(key, { value: DataTransformer.deepClone(record.value), meta: record.meta });
+    }
+
+    for (const { migration, direction } of steps) {
+      const transform = direction === 'up' ? migration.up : migration.down;
+      // Nothing has been written yet, so a missing step leaves the data untouched
+      if (!transform) {
+        throw new Error(`Migration ${migration.version} cannot be rolled back: it has no down function`);
+      }
+      for (const [key, record] of [...working]) {
+        if (migration.keys !== undefined && !matchesKeyPattern(migration.keys, key)) {
+          continue;
+        }
+        const next = await transform(record.value, key);
+        if (next === null) {
+          working.delete(key);
+        } else if (next !== undefined) {
+          working.set(key, { value: next, meta: record.meta });
+        }
+      }
+      result.applied.push({ version: migration.version, description: migration.description, direction });
+    }
+
+    for (const [key, record] of original) {
+      const next = working.get(key);
+      if (!next) {
+        result.changes.push({ key, before: record.value, after: null });
+      } else if (!DataTransformer.isEqual(record.value, next.value)) {
+        result.changes.push({ key, before: record.value, after: next.value });
+      }
+    }
+
+    if (!dryRun) {
+      for (const change of result.changes) {
+        if (change.after === null) {
+          await this.adapter.delete(change.key);
+        } else {
+          await this.adapter.save(change.key, wrapRecord(change.after, working.get(change.key)?.meta ?? {}));
+        }
+      }
+      // The version is written last: if a write fails, the migration runs again on the next attempt
+      await this.setVersion(to);
+    }
+    return result;
+  }
+
+  // Rolls back to `to`, or by a single migration when no target is given
+  async rollback(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const current = await this.getVersion();
+    const previous = this.migrations.filter(migration => migration.version < current);
+    const to = options.to ?? (previous.length > 0 ? previous[previous.length - 1].version : 0);
+    if (to > current) {
+      throw new Error(`Cannot roll back from version ${current} to ${to}`);
+    }
+    return await this.migrate({ ...options, to });
+  }
+}
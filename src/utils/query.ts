@@ -0,0 +1,257 @@
+// src/utils/query.ts
+import type { StorageEntry } from '../core/types.js';
+import { DataTransformer } from './validation.js';
+
+// Comparison and element operators supported on a single field
+export interface QueryOperators {
+  $eq?: unknown;
+  $ne?: unknown;
+  $gt?: unknown;
+  $gte?: unknown;
+  $lt?: unknown;
+  $lte?: unknown;
+  $in?: unknown[];
+  $nin?: unknown[];
+  $exists?: boolean;
+  $regex?: RegExp | string;
+  $options?: string;
+  $size?: number;
+  $not?: QueryOperators | RegExp;
+}
+
+// Query object: dot-notation paths mapped to literal values or operators.
+// The special path `$key` matches against the record key instead of the value.
+export interface QueryObject {
+  $and?: QueryObject[];
+  $or?: QueryObject[];
+  $nor?: QueryObject[];
+  [path: string]: unknown;
+}
+
+export type QueryPredicate<T> = (value: T, key: string) => boolean;
+export type Query<T> = QueryObject | QueryPredicate<T>;
+
+export type SortDirection = 1 | -1 | 'asc' | 'desc';
+export type SortSpec<T> = Record<string, SortDirection> | ((a: StorageEntry<T>, b: StorageEntry<T>) => number);
+
+export interface QueryOptions<T> {
+  sort?: SortSpec<T>;
+  limit?: number;
+  offset?: number;
+}
+
+const KEY_PATH = '$key';
+
+// Resolve a dot-notation path ("profile.address.city", "tags.0") inside a value
+export function getPath(value: unknown, path: string): unknown {
+  if (path === '') return value;
+
+  let current: any = value;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+function isOperatorObject(condition: unknown): condition is QueryOperators {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition) || condition instanceof RegExp) {
+    return false;
+  }
+  const keys = Object.keys(condition);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+// Orders two values of the same primitive kind; returns NaN when they are not comparable
+function compareValues(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === 'boolean' && typeof right === 'boolean') {
+    return Number(left) - Number(right);
+  }
+  return NaN;
+}
+
+function toRegExp(pattern: RegExp | string, flags?: string): RegExp {
+  return pattern instanceof RegExp ? pattern : new RegExp(pattern, flags);
+}
+
+// Reset stateful (global/sticky) regexes so every record is tested from the start
+function testRegExp(regex: RegExp, candidate: unknown): boolean {
+  if (typeof candidate !== 'string') return false;
+  regex.lastIndex = 0;
+  return regex.test(candidate);
+}
+
+// Arrays match a scalar condition when any of their elements does (Mongo semantics)
+function matchesScalar(actual: unknown, test: (candidate: unknown) => boolean): boolean {
+  if (test(actual)) return true;
+  return Array.isArray(actual) && actual.some(item => test(item));
+}
+
+function matchesOperators(actual: unknown, operators: QueryOperators): boolean {
+  for (const [operator, expected] of Object.entries(operators)) {
+    switch (operator) {
+      case '$eq':
+        if (!matchesScalar(actual, candidate => DataTransformer.isEqual(candidate, expected))) return false;
+        break;
+      case '$ne':
+        if (matchesScalar(actual, candidate => DataTransformer.isEqual(candidate, expected))) return false;
+        break;
+      case '$gt':
+        if (!matchesScalar(actual, candidate => compareValues(candidate, expected) > 0)) return false;
+        break;
+      case '$gte':
+        if (!matchesScalar(actual, candidate => compareValues(candidate, expected) >= 0)) return false;
+        break;
+      case '$lt':
+        if (!matchesScalar(actual, candidate => compareValues(candidate, expected) < 0)) return false;
+        break;
+      case '$lte':
+        if (!matchesScalar(actual, candidate => compareValues(candidate, expected) <= 0)) return false;
+        break;
+      case '$in': {
+        const options = expected as unknown[];
+        if (!matchesScalar(actual, candidate => options.some(option => DataTransformer.isEqual(candidate, option)))) return false;
+        break;
+      }
+      case '$nin': {
+        const options = expected as unknown[];
+        if (matchesScalar(actual, candidate => options.some(option => DataTransformer.isEqual(candidate, option)))) return false;
+        break;
+      }
+      case '$exists':
+        if ((actual !== undefined) !== expected) return false;
+        break;
+      case '$regex': {
+        const regex = toRegExp(expected as RegExp | string, operators.$options);
+        if (!matchesScalar(actual, candidate => testRegExp(regex, candidate))) return false;
+        break;
+      }
+      case '$options':
+        // Consumed together with $regex
+        break;
+      case '$size':
+        if (!Array.isArray(actual) || actual.length !== expected) return false;
+        break;
+      case '$not':
+        if (matchesCondition(actual, expected)) return false;
+        break;
+      default:
+        throw new Error(`Unknown query operator: ${operator}`);
+    }
+  }
+  return true;
+}
+
+function matchesCondition(actual: unknown, condition: unknown): boolean {
+  if (condition instanceof RegExp) {
+    return matchesScalar(actual, candidate => testRegExp(condition, candidate));
+  }
+  if (isOperatorObject(condition)) {
+    return matchesOperators(actual, condition);
+  }
+  return matchesScalar(actual, candidate => DataTransformer.isEqual(candidate, condition));
+}
+
+// Evaluate a query object against a single record
+export function matchesQuery(value: unknown, query: QueryObject, key: string = ''): boolean {
+  for (const [path, condition] of Object.entries(query)) {
+    switch (path) {
+      case '$and':
+        if (!(condition as QueryObject[]).every(sub => matchesQuery(value, sub, key))) return false;
+        break;
+      case '$or':
+        if (!(condition as QueryObject[]).some(sub => matchesQuery(value, sub, key))) return false;
+        break;
+      case '$nor':
+        if ((condition as QueryObject[]).some(sub => matchesQuery(value, sub, key))) return false;
+        break;
+      default: {
+        const actual = path === KEY_PATH ? key : getPath(value, path);
+        if (!matchesCondition(actual, condition)) return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Build a reusable matcher from either a predicate or a query object
+export function createMatcher<T>(query: Query<T>): (value: T, key: string) => boolean {
+  if (typeof query === 'function') {
+    return query;
+  }
+  return (value, key) => matchesQuery(value, query, key);
+}
+
+// Build a comparator from a sort specification
+export function createComparator<T>(sort: SortSpec<T>): (a: StorageEntry<T>, b: StorageEntry<T>) => number {
+  if (typeof sort === 'function') {
+    return sort;
+  }
+
+  const fields = Object.entries(sort).map(([path, direction]) => ({
+    path,
+    factor: direction === -1 || direction === 'desc' ? -1 : 1
+  }));
+
+  return (a, b) => {
+    for (const { path, factor } of fields) {
+      const left = path === KEY_PATH ? a.key : getPath(a.value, path);
+      const right = path === KEY_PATH ? b.key : getPath(b.value, path);
+
+      // Missing values always sort first in ascending order
+      if (left === undefined || left === null) {
+        if (right === undefined || right === null) continue;
+        return -factor;
+      }
+      if (right === undefined || right === null) {
+        return factor;
+      }
+
+      const result = compareValues(left, right);
+      if (!Number.isNaN(result) && result !== 0) {
+        return result * factor;
+      }
+    }
+    return 0;
+  };
+}
+
+// Apply offset/limit to an already filtered and sorted list
+export function paginate<U>(items: U[], options: { limit?: number; offset?: number } = {}): U[] {
+  const offset = Math.max(0, options.offset || 0);
+  const end = options.limit !== undefined ? offset + Math.max(0, options.limit) : undefined;
+  return items.slice(offset, end);
+}
+
+// In-memory query execution used when the adapter cannot run the query itself
+export function executeQuery<T>(
+  entries: Iterable<StorageEntry<T>>,
+  query: Query<T>,
+  options: QueryOptions<T> = {}
+): StorageEntry<T>[] {
+  const matcher = createMatcher(query);
+  const matches: StorageEntry<T>[] = [];
+
+  for (const entry of entries) {
+    if (matcher(entry.value, entry.key)) {
+      matches.push(entry);
+    }
+  }
+
+  if (options.sort) {
+    matches.sort(createComparator(options.sort));
+  }
+
+  return paginate(matches, options);
+}
@@ -0,0 +1,182 @@
+// src/utils/reactive.ts
+import type { AllowedData } from '../core/types.js';
+import type { DataStorage, MutationChange } from '../core/storage.js';
+import { Emitter } from './Emitter.js';
+import { DataTransformer } from './validation.js';
+
+export type StateSelector<T, V> = (state: Record<string, T>) => V;
+
+export type SelectionStatus = 'loading' | 'ready' | 'error';
+
+export interface SelectOptions<V> {
+  initial?: V; // Snapshot until the first load finishes (undefined by default); also the server snapshot
+  isEqual?: (a: V, b: V) => boolean; // Decides when the snapshot changes (deep equality by default)
+}
+
+// A reactive view of a key or of a value derived from the whole state. It follows both
+// React's useSyncExternalStore (subscribe + getSnapshot) and the Svelte store contract
+// (subscribe calls back right away with the current value and returns the unsubscriber).
+// The snapshot keeps its identity until the selected value really changes.
+export class StoreSelection<T extends AllowedData, V> {
+  private storage: DataStorage<T>;
+  private key: string | null;
+  private selector: StateSelector<T, V>;
+  private isEqual: (a: V, b: V) => boolean;
+  private initial: V | undefined;
+  private emitter = new Emitter();
+  private snapshot: V | undefined;
+  private state: Record<string, T> | null = null;
+  private pending: MutationChange<T>[] | null = null; // Changes seen while a load is in flight
+  private loadPromise: Promise<V | undefined> | null = null;
+  private loads = 0;
+  private disconnect: (() => void) | null = null;
+  private currentStatus: SelectionStatus = 'loading';
+  private lastError: unknown = null;
+
+  constructor(storage: DataStorage<T>, source: string | StateSelector<T, V>, options: SelectOptions<V> = {}) {
+    this.storage = storage;
+    if (typeof source === 'string') {
+      const key = source;
+      this.key = key;
+      this.selector = state => (state[key] ?? null) as V;
+    } else {
+      this.key = null;
+      this.selector = source;
+    }
+    this.isEqual = options.isEqual || ((a, b) => DataTransformer.isEqual(a, b));
+    this.initial = options.initial;
+    this.snapshot = options.initial;
+  }
+
+  get status(): SelectionStatus {
+    return this.currentStatus;
+  }
+
+  // The error of the last failed load, if any
+  get error(): unknown {
+    return this.lastError;
+  }
+
+  // Bound so they can be passed around as in useSyncExternalStore(selection.subscribe, selection.getSnapshot)
+  subscribe = (run: (value: V | undefined) => void): (() => void) => {
+    const unsubscribe = this.emitter.on('change', ({ value }: { value: V }) => run(value));
+    this.connect();
+    run(this.snapshot);
+    return () => {
+      unsubscribe();
+      if (this.emitter.listenerCount('change') === 0) {
+        this.stop();
+      }
+    };
+  };
+
+  getSnapshot = (): V | undefined => this.snapshot;
+
+  getServerSnapshot = (): V | undefined => this.initial;
+
+  // Resolves with the current snapshot once the pending load finishes (loading it if needed)
+  async ready(): Promise<V | undefined> {
+    await (this.loadPromise ?? this.load());
+    return this.snapshot;
+  }
+
+  // Reloads the selected data from the storage
+  refresh(): Promise<V | undefined> {
+    return this.load();
+  }
+
+  // Follows the storage while there are subscribers
+  private connect(): void {
+    if (this.disconnect) {
+      return;
+    }
+    this.disconnect = this.storage.onMutation(mutation => this.apply(mutation.changes));
+    this.load().catch(() => undefined);
+  }
+
+  // Without subscribers the storage is no longer followed; the next subscribe reloads
+  private stop(): void {
+    this.disconnect?.();
+    this.disconnect = null;
+    this.state = null;
+    this.pending = null;
+    this.loadPromise = null;
+    this.loads++;
+  }
+
+  private load(): Promise<V | undefined> {
+    const load = ++this.loads;
+    this.pending = [];
+    const promise = this.read().then(
+      state => {
+        if (load !== this.loads) {
+          return this.loadPromise ?? this.snapshot;
+        }
+        this.state = state;
+        const pending = this.pending || [];
+        this.pending = null;
+        this.currentStatus = 'ready';
+        this.lastError = null;
+        this.apply(pending, false);
+        this.update();
+        return this.snapshot;
+      },
+      error => {
+        if (load === this.loads) {
+          this.pending = null;
+          this.currentStatus = 'error';
+          this.lastError = error;
+        }
+        throw error;
+      }
+    );
+    this.loadPromise = promise;
+    return promise;
+  }
+
+  // A key selection only reads its own key
+  private async read(): Promise<Record<string, T>> {
+    if (this.key === null) {
+      return this.storage.getAll();
+    }
+    const value = await this.storage.load(this.key);
+    return value === null ? {} : { [this.key]: value };
+  }
+
+  // Applies the changes to a copy of the state, so selectors can memoize on its identity
+  private apply(changes: MutationChange<T>[], notify: boolean = true): void {
+    const relevant = this.key === null ? changes : changes.filter(change => change.key === this.key);
+    if (relevant.length === 0) {
+      return;
+    }
+    if (this.pending) {
+      this.pending.push(...relevant);
+      return;
+    }
+    if (!this.state) {
+      return;
+    }
+    const state = { ...this.state };
+    for (const change of relevant) {
+      if (change.current === null) {
+        delete state[change.key];
+      } else {
+        state[change.key] = change.current;
+      }
+    }
+    this.state = state;
+    if (notify) {
+      this.update();
+    }
+  }
+
+  // Runs the selector once per state change; subscribers are only called when the result differs
+  private update(): void {
+    const next = this.selector(this.state!);
+    if (this.snapshot !== undefined && this.isEqual(this.snapshot, next)) {
+      return;
+    }
+    this.snapshot = next;
+    this.emitter.emit('change', { value: next });
+  }
+}
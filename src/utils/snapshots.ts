@@ -0,0 +1,125 @@
+// src/utils/snapshots.ts
+import type { StorageAdapter } from '../core/types.js';
+import type { RecordMeta } from '../core/record.js';
+import { GzipCompressionAdapter, type CompressionAdapter } from './compression.js';
+import { createJsonPatch, type JsonPatchOperation } from './json-patch.js';
+import { DataTransformer } from './validation.js';
+
+export interface SnapshotInfo {
+  id: string;
+  label?: string;
+  createdAt: number;
+  keyCount: number;
+  compressed: boolean;
+}
+
+export interface Snapshot<T> extends SnapshotInfo {
+  data: Record<string, T>;
+  meta: Record<string, RecordMeta>; // Metadata (e.g. expiresAt) of the keys that had any
+}
+
+export interface SnapshotDiff<T> {
+  added: Record<string, T>; // Present now, missing in the snapshot
+  removed: Record<string, T>; // In the snapshot, missing now
+  changed: Record<string, { snapshot: T; current: T; operations: JsonPatchOperation[] }>;
+}
+
+export interface SnapshotStoreOptions {
+  compression?: boolean | CompressionAdapter; // true uses GzipCompressionAdapter
+}
+
+interface StoredSnapshot<T> extends SnapshotInfo {
+  data?: Record<string, T>;
+  payload?: string; // Compressed JSON of `data`
+  meta?: Record<string, RecordMeta>;
+}
+
+const INDEX_KEY = 'snapshots';
+const SNAPSHOT_PREFIX = 'snapshot:';
+
+// Keeps full copies of a storage's state in any StorageAdapter, optionally compressed
+export class SnapshotStore<T> {
+  private adapter: StorageAdapter<any>;
+  private compression: CompressionAdapter | null;
+
+  constructor(adapter: StorageAdapter<any>, options: SnapshotStoreOptions = {}) {
+    this.adapter = adapter;
+    this.compression = options.compression === true
+      ? new GzipCompressionAdapter()
+      : options.compression || null;
+  }
+
+  async create(data: Record<string, T>, label?: string, meta: Record<string, RecordMeta> = {}): Promise<SnapshotInfo> {
+    const info: SnapshotInfo = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now(),
+      keyCount: Object.keys(data).length,
+      compressed: this.compression !== null
+    };
+    if (label !== undefined) {
+      info.label = label;
+    }
+
+    const stored: StoredSnapshot<T> = this.compression
+      ? { ...info, payload: await this.compression.compress(JSON.stringify(data)) }
+      : { ...info, data: DataTransformer.deepClone(data) };
+    if (Object.keys(meta).length > 0) {
+      stored.meta = DataTransformer.deepClone(meta);
+    }
+
+    await this.adapter.save(SNAPSHOT_PREFIX + info.id, stored);
+    await this.adapter.save(INDEX_KEY, [...(await this.list()), info]);
+    return info;
+  }
+
+  // Oldest first
+  async list(): Promise<SnapshotInfo[]> {
+    const index: SnapshotInfo[] | null = await this.adapter.load(INDEX_KEY);
+    return [...(index || [])].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(id: string): Promise<Snapshot<T> | null> {
+    const stored: StoredSnapshot<T> | null = await this.adapter.load(SNAPSHOT_PREFIX + id);
+    if (!stored) {
+      return null;
+    }
+
+    const { payload, data, meta = {}, ...info } = stored;
+    if (payload === undefined) {
+      return { ...info, data: data || {}, meta };
+    }
+
+    const compression = this.compression || new GzipCompressionAdapter();
+    return { ...info, data: JSON.parse(await compression.decompress(payload)), meta };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.adapter.delete(SNAPSHOT_PREFIX + id);
+    await this.adapter.save(INDEX_KEY, (await this.list()).filter(info => info.id !== id));
+  }
+}
+
+// Differences between a snapshot and the current state
+export function diffSnapshotData<T>(snapshot: Record<string, T>, current: Record<string, T>): SnapshotDiff<T> {
+  const diff: SnapshotDiff<T> = { added: {}, removed: {}, changed: {} };
+
+  for (const [key, value] of Object.entries(current)) {
+    if (!(key in snapshot)) {
+      diff.added[key] = value;
+    } else if (!DataTransformer.isEqual(snapshot[key], value)) {
+      diff.changed[key] = {
+        snapshot: snapshot[key],
+        current: value,
+        operations: createJsonPatch(snapshot[key], value)
+      };
+    }
+  }
+
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (!(key in current)) {
+      diff.removed[key] = value;
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,350 @@
+// src/utils/sync.ts
+import type { StorageAdapter, AllowedData } from '../core/types.js';
+import type { DataStorage } from '../core/storage.js';
+import { isReservedKey, RESERVED_KEY_PREFIX } from '../core/record.js';
+import { readAdapterRecords } from './iteration.js';
+import { DataTransformer } from './validation.js';
+import { computeVersion } from './version.js';
+
+// Reserved key where each side keeps its sync bookkeeping
+export const SYNC_STATE_KEY = `${RESERVED_KEY_PREFIX}sync`;
+
+// A change of one key as exchanged between the sides. Values are the raw stored values
+export interface SyncChange<T> {
+  key: string;
+  value: T | null; // null: the key was deleted
+  version: string | null;
+  timestamp: number; // When the change was made (or first seen)
+}
+
+export interface SyncRequest<T> {
+  since: number; // Server cursor of the previous sync (0 the first time)
+  changes: SyncChange<T>[]; // Client changes not pushed yet
+}
+
+export interface SyncResponse<T> {
+  cursor: number;
+  changes: SyncChange<T>[]; // Server changes since the request cursor, conflicts already resolved
+  conflicts: string[];
+}
+
+// Sends a request to the server side (e.g. over HTTP to a SyncServer) and returns its response
+export type SyncTransport<T> = (request: SyncRequest<T>) => Promise<SyncResponse<T>>;
+
+// Both sides changed the same key since the last sync
+export interface SyncConflict<T> {
+  key: string;
+  server: SyncChange<T>;
+  client: SyncChange<T>;
+}
+
+// Returns the value to keep (null deletes the key)
+export type ConflictResolver<T> = (conflict: SyncConflict<T>) => T | null | Promise<T | null>;
+
+export type ConflictStrategy = 'last-writer-wins' | 'server-wins' | 'client-wins' | 'merge';
+
+export interface SyncServerOptions<T> {
+  strategy?: ConflictStrategy | ConflictResolver<T>; // Default 'last-writer-wins'
+  stateKey?: string;
+}
+
+export interface SyncEngineOptions<T> extends SyncServerOptions<T> {}
+
+export interface SyncResult {
+  pushed: string[];
+  pulled: string[];
+  conflicts: string[];
+}
+
+interface SyncEntry {
+  version: string | null;
+  timestamp: number;
+  seq: number;
+  remote?: boolean; // Written by a pull; not pushed back
+}
+
+interface SyncState {
+  seq: number;
+  entries: Record<string, SyncEntry>;
+  pushed: number; // Client: last local seq sent to the server
+  cursor: number; // Client: server cursor of the last sync
+}
+
+export const conflictStrategies = {
+  // The most recent change wins; ties go to the higher version so both sides agree
+  lastWriterWins<T>({ server, client }: SyncConflict<T>): T | null {
+    if (server.timestamp !== client.timestamp) {
+      return server.timestamp > client.timestamp ? server.value : client.value;
+    }
+    return (server.version ?? '') >= (client.version ?? '') ? server.value : client.value;
+  },
+
+  serverWins<T>({ server }: SyncConflict<T>): T | null {
+    return server.value;
+  },
+
+  clientWins<T>({ client }: SyncConflict<T>): T | null {
+    return client.value;
+  },
+
+  // Deep merge of both values, the newer one taking precedence. A deletion falls back to last-writer-wins
+  merge<T>(conflict: SyncConflict<T>): T | null {
+    const { server, client } = conflict;
+    if (server.value === null || client.value === null) {
+      return conflictStrategies.lastWriterWins(conflict);
+    }
+    const [older, newer] = server.timestamp > client.timestamp ? [client, server] : [server, client];
+    return DataTransformer.deepMerge(older.value, newer.value);
+  }
+};
+
+function toResolver<T>(strategy: ConflictStrategy | ConflictResolver<T> = 'last-writer-wins'): ConflictResolver<T> {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+  switch (strategy) {
+    case 'last-writer-wins':
+      return conflictStrategies.lastWriterWins;
+    case 'server-wins':
+      return conflictStrategies.serverWins;
+    case 'client-wins':
+      return conflictStrategies.clientWins;
+    case 'merge':
+      return conflictStrategies.merge;
+    default:
+      throw new Error(`Unknown conflict strategy "${strategy}"`);
+  }
+}
+
+// Change log of one adapter: a version per key and a sequence number that grows with every change.
+// Changes made without going through the log are found by comparing versions in refresh().
+class SyncLog<T> {
+  private adapter: StorageAdapter<T>;
+  private stateKey: string;
+  private state: SyncState | null = null;
+
+  constructor(adapter: StorageAdapter<T>, stateKey: string) {
+    this.adapter = adapter;
+    this.stateKey = stateKey;
+  }
+
+  get seq(): number {
+    return this.state!.seq;
+  }
+
+  get pushed(): number {
+    return this.state!.pushed;
+  }
+
+  get cursor(): number {
+    return this.state!.cursor;
+  }
+
+  entry(key: string): SyncEntry | undefined {
+    return this.state!.entries[key];
+  }
+
+  // Records the keys whose version changed since the last look. `timestamps` holds the real
+  // modification time of tracked changes; other changes are dated now. The state is read again
+  // every time because other logs (another SyncServer or SyncEngine) may share the adapter
+  async refresh(timestamps: Map<string, number> = new Map()): Promise<void> {
+    const stored = (await this.adapter.load(this.stateKey)) as unknown as SyncState | null;
+    this.state = stored || { seq: 0, entries: {}, pushed: 0, cursor: 0 };
+
+    const now = Date.now();
+    const records = await readAdapterRecords(this.adapter);
+    const entries = this.state.entries;
+    for (const [key, raw] of Object.entries(records)) {
+      const version = computeVersion(raw);
+      if (!isReservedKey(key) && entries[key]?.version !== version) {
+        entries[key] = { version, timestamp: timestamps.get(key) ?? now, seq: ++this.state.seq };
+      }
+    }
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!(key in records) && entry.version !== null) {
+        entries[key] = { version: null, timestamp: timestamps.get(key) ?? now, seq: ++this.state.seq };
+      }
+    }
+  }
+
+  async changesSince(seq: number, includeRemote: boolean): Promise<SyncChange<T>[]> {
+    const changes: SyncChange<T>[] = [];
+    const entries = Object.entries(this.state!.entries)
+      .filter(([, entry]) => entry.seq > seq && (includeRemote || !entry.remote))
+      .sort(([, a], [, b]) => a.seq - b.seq);
+    for (const [key, entry] of entries) {
+      changes.push({ key, value: entry.version === null ? null : await this.adapter.load(key), version: entry.version, timestamp: entry.timestamp });
+    }
+    return changes;
+  }
+
+  async current(key: string): Promise<SyncChange<T>> {
+    const entry = this.entry(key);
+    const value = await this.adapter.load(key);
+    return { key, value, version: computeVersion(value), timestamp: entry?.timestamp ?? Date.now() };
+  }
+
+  async write(change: SyncChange<T>, remote: boolean = false): Promise<void> {
+    if (change.value === null) {
+      await this.adapter.delete(change.key);
+    } else {
+      await this.adapter.save(change.key, change.value);
+    }
+    this.state!.entries[change.key] = {
+      version: change.version,
+      timestamp: change.timestamp,
+      seq: ++this.state!.seq,
+      ...(remote ? { remote } : {})
+    };
+  }
+
+  async persist(progress: { pushed?: number; cursor?: number } = {}): Promise<void> {
+    Object.assign(this.state!, progress);
+    await this.adapter.save(this.stateKey, this.state as unknown as T);
+  }
+}
+
+type Queue = <R>(task: () => Promise<R>) => Promise<R>;
+
+// Serializes async tasks
+function createQueue(): Queue {
+  let tail: Promise<unknown> = Promise.resolve();
+  return task => {
+    const run = tail.then(task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+// One queue per server adapter, so servers created over the same adapter (e.g. by several
+// SyncEngines sharing a peer) handle their requests one at a time
+const serverQueues = new WeakMap<object, Queue>();
+
+function serverQueue(adapter: object): Queue {
+  let queue = serverQueues.get(adapter);
+  if (!queue) {
+    queue = createQueue();
+    serverQueues.set(adapter, queue);
+  }
+  return queue;
+}
+
+// Server side of the sync: applies client changes to its adapter, resolving conflicts, and
+// answers with its own changes. Any number of clients can sync against the same server.
+export class SyncServer<T = any> {
+  private log: SyncLog<T>;
+  private resolve: ConflictResolver<T>;
+  private exclusive: Queue;
+
+  constructor(adapter: StorageAdapter<T>, options: SyncServerOptions<T> = {}) {
+    this.log = new SyncLog(adapter, options.stateKey || SYNC_STATE_KEY);
+    this.resolve = toResolver(options.strategy);
+    this.exclusive = serverQueue(adapter);
+  }
+
+  async handle(request: SyncRequest<T>): Promise<SyncResponse<T>> {
+    return this.exclusive(async () => {
+      await this.log.refresh();
+      const conflicts: string[] = [];
+
+      for (const change of request.changes) {
+        if (isReservedKey(change.key)) {
+          continue;
+        }
+        const entry = this.log.entry(change.key);
+        // The server changed the key after the client last synced
+        if (entry && entry.seq > request.since && entry.version !== change.version) {
+          const server = await this.log.current(change.key);
+          const value = await this.resolve({ key: change.key, server, client: change });
+          conflicts.push(change.key);
+          const version = computeVersion(value);
+          if (version !== server.version) {
+            await this.log.write({ key: change.key, value, version, timestamp: Math.max(server.timestamp, change.timestamp) });
+          }
+          continue;
+        }
+        if (entry?.version !== change.version) {
+          await this.log.write(change);
+        }
+      }
+      await this.log.persist();
+
+      // The client already has the values it sent, unless a conflict changed them
+      const sent = new Map(request.changes.map(change => [change.key, change.version]));
+      const changes = (await this.log.changesSince(request.since, true)).filter(change => sent.get(change.key) !== change.version);
+      return { cursor: this.log.seq, changes, conflicts };
+    });
+  }
+}
+
+// Client side of the sync. Tracks the changes of a local adapter and exchanges them with a peer:
+// another adapter (synced in-process through a SyncServer) or a transport to a remote SyncServer.
+export class SyncEngine<T = any> {
+  private log: SyncLog<T>;
+  private local: StorageAdapter<T>;
+  private transport: SyncTransport<T>;
+  private timestamps = new Map<string, number>();
+  private exclusive = createQueue();
+
+  constructor(local: StorageAdapter<T>, peer: StorageAdapter<T> | SyncTransport<T>, options: SyncEngineOptions<T> = {}) {
+    this.local = local;
+    this.log = new SyncLog(local, options.stateKey || SYNC_STATE_KEY);
+    if (typeof peer === 'function') {
+      this.transport = peer;
+    } else {
+      const server = new SyncServer(peer, options);
+      // Cloned both ways so the two adapters never share objects, like over a real transport
+      this.transport = async request => DataTransformer.deepClone(await server.handle(DataTransformer.deepClone(request)));
+    }
+  }
+
+  // Records the time of every change made through `storage` (on the local adapter), so
+  // last-writer-wins compares when the changes happened instead of when they were synced
+  track<S extends AllowedData>(storage: DataStorage<S>): () => void {
+    return storage.onMutation(mutation => {
+      for (const change of mutation.changes) {
+        this.timestamps.set(change.key, mutation.timestamp);
+      }
+    });
+  }
+
+  // Pushes the local changes, pulls the peer changes and returns the affected keys
+  async sync(): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      const timestamps = new Map(this.timestamps);
+      await this.log.refresh(timestamps);
+      for (const [key, time] of timestamps) {
+        // A newer change of the key stays for the next refresh
+        if (this.timestamps.get(key) === time) {
+          this.timestamps.delete(key);
+        }
+      }
+
+      const pushedUpTo = this.log.seq;
+      const changes = await this.log.changesSince(this.log.pushed, false);
+      const response = await this.transport({ since: this.log.cursor, changes });
+
+      const pulled: string[] = [];
+      let skipped = false;
+      for (const change of response.changes) {
+        const entry = this.log.entry(change.key);
+        // Pulled by an earlier sync that kept its cursor
+        if (entry?.remote && entry.version === change.version) {
+          continue;
+        }
+        // Skip keys written locally while the request was in flight; the next sync sends them
+        if (computeVersion(await this.local.load(change.key)) !== (entry?.version ?? null)) {
+          skipped = true;
+          continue;
+        }
+        await this.log.write(change, true);
+        pulled.push(change.key);
+      }
+      // The cursor stays behind a skipped change, so the server still sees it as a conflict
+      const cursor = skipped ? this.log.cursor : response.cursor;
+      await this.log.persist({ pushed: pushedUpTo, cursor });
+
+      return { pushed: changes.map(change => change.key), pulled, conflicts: response.conflicts };
+    });
+  }
+}
@@ -44,6 +44,58 @@ export class DataValidator {
     return result;
   }
 
+  // Best-effort conversion of primitive values to the types declared in the schema
+  coerce(data: any): any {
+    return this.coerceValue(data, this.schema);
+  }
+
+  private coerceValue(value: any, schema: Schema): any {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    switch (schema.type) {
+      case 'number':
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+          return Number(value);
+        }
+        if (typeof value === 'boolean') {
+          return value ? 1 : 0;
+        }
+        return value;
+      case 'string':
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          return String(value);
+        }
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        return value;
+      case 'boolean':
+        if (value === 'true' || value === 1) return true;
+        if (value === 'false' || value === 0) return false;
+        return value;
+      case 'array':
+        if (Array.isArray(value) && schema.items) {
+          return value.map(item => this.coerceValue(item, schema.items!));
+        }
+        return value;
+      case 'object':
+        if (typeof value === 'object' && !Array.isArray(value) && schema.properties) {
+          const coerced: any = { ...value };
+          for (const [key, propSchema] of Object.entries(schema.properties)) {
+            if (key in coerced) {
+              coerced[key] = this.coerceValue(coerced[key], propSchema);
+            }
+          }
+          return coerced;
+        }
+        return value;
+      default:
+        return value;
+    }
+  }
+
   private validateValue(value: any, schema: Schema, path: string, result: ValidationResult): void {
     // Check required
     if (schema.required && (value === null || value === undefined)) {
@@ -173,6 +225,54 @@ export class DataTransformer {
     return cloned;
   }
 
+  // Deep merge: plain objects are merged recursively, anything else in source replaces target
+  static deepMerge<T>(target: T, source: any): T {
+    const isPlainObject = (value: any) =>
+      value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+    if (!isPlainObject(target) || !isPlainObject(source)) {
+      return (source === undefined ? this.deepClone(target) : this.deepClone(source)) as T;
+    }
+
+    const merged: any = this.deepClone(target);
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      // Skip dangerous keys, same as sanitize()
+      if (key === '__proto__' || key === 'constructor' || key === 'prototype') continue;
+      merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+        ? this.deepMerge(merged[key], value)
+        : this.deepClone(value);
+    }
+
+    return merged;
+  }
+
+  // Deep structural equality for JSON-like data
+  static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+      return false;
+    }
+
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    if (Array.isArray(a)) {
+      if (a.length !== b.length) return false;
+      return a.every((item, index) => this.isEqual(item, b[index]));
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+
+    return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && this.isEqual(a[key], b[key]));
+  }
+
   // Flatten nested object
   static flatten(obj: any, prefix: string = '', separator: string = '.'): Record<string, any> {
     const flattened: Record<string, any> = {};
@@ -0,0 +1,67 @@
+// src/utils/version.ts
+import type { StorageAdapter } from '../core/types.js';
+
+// JSON serialization with sorted object keys, so equal data always yields the same string
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+// Fast non-cryptographic 53-bit hash (cyrb53), hex encoded
+export function hashString(input: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+// Version of a stored record: a content hash of the raw value, or null when there is no record.
+// Every adapter computes it the same way, so versions can be compared across processes.
+export function computeVersion(raw: unknown): string | null {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+  return hashString(stableStringify(raw));
+}
+
+// Conditional save through the adapter's own compareAndSave. Adapters without one get a load,
+// a version check and a save, which is not atomic: a concurrent writer can slip in between
+export async function compareAndSaveRecord<T>(
+  adapter: StorageAdapter<T>,
+  key: string,
+  expectedVersion: string | null,
+  data: T
+): Promise<boolean> {
+  if (typeof adapter.compareAndSave === 'function') {
+    return await adapter.compareAndSave(key, expectedVersion, data);
+  }
+  if (computeVersion(await adapter.load(key)) !== expectedVersion) {
+    return false;
+  }
+  await adapter.save(key, data);
+  return true;
+}
@@ -1,6 +1,9 @@
 import { LocalStorageAdapter } from '../src/adapters/local-storage';
 import { SessionStorageAdapter } from '../src/adapters/session-storage';
 import { IndexedDBAdapter } from '../src/adapters/indexeddb';
+import { computeVersion } from '../src/utils/version';
+import { DataStorage } from '../src/core/storage';
+import { UniqueConstraintError } from '../src/core/errors';
 
 // Mock localStorage for testing
 const localStorageMock = (() => {
@@ -52,12 +55,38 @@ const mockSessionStorage = (() => {
   };
 })();
 
+// Mock IDBKeyRange: the factories the adapter uses, plus includes() for the mock index cursors
+const mockIDBKeyRange = (() => {
+  const create = (lower: any, upper: any, lowerOpen: boolean = false, upperOpen: boolean = false) => ({
+    lower,
+    upper,
+    lowerOpen,
+    upperOpen,
+    includes: (key: any) =>
+      (lower === undefined || (lowerOpen ? key > lower : key >= lower)) &&
+      (upper === undefined || (upperOpen ? key < upper : key <= upper))
+  });
+
+  return {
+    only: (value: any) => create(value, value),
+    bound: (lower: any, upper: any, lowerOpen?: boolean, upperOpen?: boolean) => create(lower, upper, lowerOpen, upperOpen),
+    lowerBound: (lower: any, open?: boolean) => create(lower, undefined, open),
+    upperBound: (upper: any, open?: boolean) => create(undefined, upper, false, open)
+  };
+})();
+
 // Mock IndexedDB for testing
 const mockIndexedDB = (() => {
   let databases: Record<string, any> = {};
   
   const createMockDatabase = (name: string) => {
     const stores: Record<string, Record<string, any>> = {};
+    // Secondary indexes per store: index name -> key path (e.g. 'indexes.byEmail')
+    const indexes: Record<string, Record<string, { keyPath: string; unique: boolean }>> = {};
+    const indexValues = (row: any, keyPath: string): any[] => {
+      const value = keyPath.split('.').reduce((current, part) => current?.[part], row);
+      return value === undefined ? [] : Array.isArray(value) ? value : [value];
+    };
     
     return {
       name,
@@ -97,6 +126,13 @@ const mockIndexedDB = (() => {
               put: jest.fn((value: any, key?: string) => {
                 // IndexedDBAdapter stores as { key, data } objects
                 const finalKey = value.key || key || Math.random().toString();
+                for (const { keyPath, unique } of Object.values(indexes[storeName] || {})) {
+                  const taken = unique && Object.values(store).some(row =>
+                    row.key !== finalKey && indexValues(row, keyPath).some(v => indexValues(value, keyPath).includes(v)));
+                  if (taken) {
+                    return createMockErrorRequest('ConstraintError');
+                  }
+                }
                 store[finalKey] = value;
                 return createMockRequest(value);
               }),
@@ -120,7 +156,26 @@ const mockIndexedDB = (() => {
               }),
               count: jest.fn(() => {
                 return createMockRequest(Object.keys(store).length);
-              })
+              }),
+              openCursor: jest.fn(() => {
+                return createMockCursorRequest(Object.keys(store).sort().map(key => store[key]), row => {
+                  store[row.key] = row;
+                  return createMockRequest(row);
+                });
+              }),
+              indexNames: {
+                contains: (indexName: string) => indexName in (indexes[storeName] || {})
+              },
+              index: jest.fn((indexName: string) => ({
+                openCursor: jest.fn((range?: { includes: (key: any) => boolean }) => {
+                  const { keyPath } = indexes[storeName][indexName];
+                  const entries = Object.values(store)
+                    .flatMap(row => indexValues(row, keyPath).map(value => ({ key: value, primaryKey: row.key, value: row })))
+                    .filter(entry => !range || range.includes(entry.key))
+                    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.primaryKey < b.primaryKey ? -1 : 1));
+                  return createMockCursorRequest(entries.map(entry => entry.value), undefined, entries);
+                })
+              }))
             };
           }),
           oncomplete: null,
@@ -133,9 +188,33 @@ const mockIndexedDB = (() => {
       close: jest.fn(),
       deleteObjectStore: jest.fn((storeName: string) => {
         delete stores[storeName];
+      }),
+      // Object store handle available inside onupgradeneeded
+      upgradeStore: (storeName: string) => ({
+        createIndex: jest.fn((indexName: string, keyPath: string, options: { unique?: boolean } = {}) => {
+          indexes[storeName] = { ...(indexes[storeName] || {}), [indexName]: { keyPath, unique: !!options.unique } };
+        }),
+        deleteIndex: jest.fn((indexName: string) => {
+          delete indexes[storeName]?.[indexName];
+        })
       })
     };
   };
+
+  const createMockErrorRequest = (errorName: string) => {
+    const request: any = {
+      result: undefined,
+      error: { name: errorName, message: errorName },
+      onsuccess: null,
+      onerror: null
+    };
+    setTimeout(() => {
+      if (request.onerror) {
+        request.onerror({ target: request } as any);
+      }
+    }, 0);
+    return request;
+  };
   
   const createMockRequest = (result?: any) => {
     const request = {
@@ -155,14 +234,57 @@ const mockIndexedDB = (() => {
     return request;
   };
   
+  // Cursor requests fire onsuccess once per record and once more with a null result.
+  // Index cursors pass `indexEntries` so `key` is the index value and `primaryKey` the record key.
+  const createMockCursorRequest = (
+    values: any[],
+    update?: (value: any) => any,
+    indexEntries?: Array<{ key: any; primaryKey: string }>
+  ) => {
+    const request: any = {
+      result: null,
+      error: null,
+      onsuccess: null,
+      onerror: null
+    };
+    let index = 0;
+
+    const advance = () => {
+      setTimeout(() => {
+        request.result = index < values.length
+          ? {
+            key: indexEntries ? indexEntries[index].key : values[index].key,
+            primaryKey: indexEntries ? indexEntries[index].primaryKey : values[index].key,
+            value: values[index],
+            continue: () => { index++; advance(); },
+            update
+          }
+          : null;
+        if (request.onsuccess) {
+          request.onsuccess({ target: request } as any);
+        }
+      }, 0);
+    };
+    advance();
+
+    return request;
+  };
+  
   return {
     open: jest.fn((name: string, version?: number) => {
-      const db = createMockDatabase(name);
+      // Opening an existing database with a higher version upgrades it in place
+      const existing = databases[name];
+      const upgrading = existing !== undefined && version !== undefined && version > existing.version;
+      const db = upgrading ? existing : createMockDatabase(name);
       databases[name] = db;
+      if (upgrading) {
+        db.version = version;
+      }
       
       const request = {
         result: db,
         error: null,
+        transaction: { objectStore: (storeName: string) => db.upgradeStore(storeName) },
         onsuccess: null,
         onerror: null,
         onupgradeneeded: null
@@ -253,6 +375,36 @@ describe('LocalStorageAdapter', () => {
     });
   });
 
+  test('should list keys with prefix and cursor', async () => {
+    await adapter.save('a:2', 2);
+    await adapter.save('a:1', 1);
+    await adapter.save('b:1', 3);
+
+    const page = await adapter.list({ prefix: 'a:', limit: 1 });
+    expect(page).toEqual({ items: [{ key: 'a:1', value: 1 }], cursor: 'a:1' });
+    expect(await adapter.has('b:1')).toBe(true);
+
+    const keys: string[] = [];
+    for await (const key of adapter.keys()) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(['a:2', 'a:1', 'b:1']);
+  });
+
+  test('should compare-and-save against the latest localStorage contents', async () => {
+    const otherTab = new LocalStorageAdapter<any>('test-prefix');
+    await adapter.save('counter', 1);
+    const version = computeVersion(1);
+
+    // Another tab writes after this adapter loaded its cache
+    await otherTab.compareAndSave('counter', version, 2);
+
+    expect(await adapter.compareAndSave('counter', version, 3)).toBe(false);
+    expect(await adapter.load('counter')).toBe(2);
+    expect(await adapter.compareAndSave('counter', computeVersion(2), 3)).toBe(true);
+    expect(JSON.parse(localStorageMock.getItem('test-prefix')!)).toEqual({ counter: 3 });
+  });
+
   test('should handle JSON parsing errors gracefully', async () => {
     // Manually set invalid JSON
     localStorageMock.setItem('test-prefix:invalid', 'invalid json');
@@ -338,6 +490,18 @@ describe('SessionStorageAdapter', () => {
     });
   });
   
+  test('should iterate entries', async () => {
+    await adapter.save('key1', { n: 1 });
+    await adapter.save('key2', { n: 2 });
+
+    const entries = [];
+    for await (const entry of adapter.entries()) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([{ key: 'key1', value: { n: 1 } }, { key: 'key2', value: { n: 2 } }]);
+    expect((await adapter.list({ after: 'key1' })).items).toEqual([{ key: 'key2', value: { n: 2 } }]);
+  });
+  
   test('should use cache for repeated reads', async () => {
     const testData = { cached: true };
     await adapter.save('cache-test', testData);
@@ -392,6 +556,10 @@ describe('IndexedDBAdapter', () => {
       value: mockIndexedDB,
       writable: true
     });
+    Object.defineProperty(global, 'IDBKeyRange', {
+      value: mockIDBKeyRange,
+      writable: true
+    });
     
     jest.clearAllMocks();
     
@@ -447,6 +615,88 @@ describe('IndexedDBAdapter', () => {
     expect(keys).toHaveLength(3);
   }, 10000);
   
+  test('should run queries with a cursor', async () => {
+    await adapter.save('a', { age: 20 });
+    await adapter.save('b', { age: 35 });
+    await adapter.save('c', { age: 50 });
+
+    const streamed = await adapter.query({ age: { $gte: 30 } }, { limit: 1 });
+    expect(streamed).toEqual([{ key: 'b', value: { age: 35 } }]);
+
+    const sorted = await adapter.query({}, { sort: { age: -1 }, offset: 1 });
+    expect(sorted.map(entry => entry.key)).toEqual(['b', 'a']);
+  }, 10000);
+
+  test('should skip reserved keys and honor a zero limit in queries', async () => {
+    await adapter.save('__jom:index:age', { age: 10 });
+    await adapter.save('a', { age: 20 });
+    await adapter.save('b', { age: 35 });
+
+    expect(await adapter.query({}, { limit: 0 })).toEqual([]);
+    const page = await adapter.query({}, { offset: 1, limit: 1 });
+    expect(page).toEqual([{ key: 'b', value: { age: 35 } }]);
+  }, 10000);
+  
+  test('should paginate with cursors and iterate entries', async () => {
+    for (const key of ['user:3', 'order:1', 'user:1', 'user:2']) {
+      await adapter.save(key, { key });
+    }
+
+    const first = await adapter.list({ prefix: 'user:', limit: 2 });
+    expect(first.items.map(item => item.key)).toEqual(['user:1', 'user:2']);
+    expect(first.cursor).toBe('user:2');
+
+    const second = await adapter.list({ prefix: 'user:', limit: 2, after: first.cursor! });
+    expect(second.items.map(item => item.key)).toEqual(['user:3']);
+    expect(second.cursor).toBeNull();
+
+    const keys: string[] = [];
+    for await (const key of adapter.keys()) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(['order:1', 'user:1', 'user:2', 'user:3']);
+    expect(await adapter.has('order:1')).toBe(true);
+    expect(await adapter.has('order:2')).toBe(false);
+  }, 10000);
+  
+  test('should compare-and-save inside a readwrite transaction', async () => {
+    expect(await adapter.compareAndSave('doc', null, { rev: 1 })).toBe(true);
+    expect(await adapter.compareAndSave('doc', null, { rev: 2 })).toBe(false);
+
+    const version = computeVersion({ rev: 1 });
+    expect(await adapter.compareAndSave('doc', version, { rev: 2 })).toBe(true);
+    expect(await adapter.compareAndSave('doc', version, { rev: 3 })).toBe(false);
+    expect(await adapter.load('doc')).toEqual({ rev: 2 });
+  }, 10000);
+  
+  test('should maintain native secondary indexes', async () => {
+    await adapter.save('u1', { email: 'ada@example.com', age: 36 });
+    await adapter.save('u2', { email: 'grace@example.com', age: 85 });
+
+    // Existing rows are indexed when the index is created
+    await adapter.createIndex('byEmail', (user: any) => user.email, { unique: true });
+    await adapter.createIndex('byAge', (user: any) => user.age, { unique: false });
+    await adapter.save('u3', { email: 'alan@example.com', age: 41 });
+
+    expect(await adapter.queryIndex('byEmail', { gte: 'grace@example.com', lte: 'grace@example.com' })).toEqual(['u2']);
+    expect(await adapter.queryIndex('byAge', { gte: 30, lt: 50 })).toEqual(['u1', 'u3']);
+    expect(await adapter.queryIndex('byAge', { gt: 36, gte: 20, lte: 85 })).toEqual(['u3', 'u2']);
+    expect(await adapter.queryIndex('byAge', { lt: 41 })).toEqual(['u1']);
+    expect(await adapter.queryIndex('byAge', { gt: 41, lt: 41 })).toEqual([]);
+    await expect(adapter.save('u4', { email: 'ada@example.com', age: 1 })).rejects.toThrow('ConstraintError');
+  }, 10000);
+
+  test('should back DataStorage indexes with the native ones', async () => {
+    const storage = new DataStorage<any>(adapter);
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+    await storage.save('u1', { email: 'ada@example.com' });
+
+    expect(await storage.lookup('byEmail', 'ada@example.com')).toEqual([{ key: 'u1', value: { email: 'ada@example.com' } }]);
+    await expect(storage.save('u2', { email: 'ada@example.com' })).rejects.toBeInstanceOf(UniqueConstraintError);
+    // Native indexes are not persisted under a reserved key
+    expect(await adapter.getAllKeys()).toEqual(['u1']);
+  }, 10000);
+  
   test('should count records', async () => {
     await adapter.save('count1', { data: 'test1' });
     await adapter.save('count2', { data: 'test2' });
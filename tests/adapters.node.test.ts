@@ -57,6 +57,39 @@ describe('InMemoryAdapter', () => {
       key2: 'value2'
     });
   });
+
+  test('should iterate keys and entries', async () => {
+    await adapter.save('key1', 'value1');
+    await adapter.save('key2', 'value2');
+
+    const keys: string[] = [];
+    for await (const key of adapter.keys()) {
+      keys.push(key);
+    }
+    const entries = [];
+    for await (const entry of adapter.entries()) {
+      entries.push(entry);
+    }
+
+    expect(keys).toEqual(['key1', 'key2']);
+    expect(entries).toEqual([{ key: 'key1', value: 'value1' }, { key: 'key2', value: 'value2' }]);
+    expect(await adapter.has('key1')).toBe(true);
+    expect(await adapter.has('missing')).toBe(false);
+  });
+
+  test('should paginate with a cursor', async () => {
+    for (const key of ['user:3', 'user:1', 'order:1', 'user:2']) {
+      await adapter.save(key, key);
+    }
+
+    const first = await adapter.list({ prefix: 'user:', limit: 2 });
+    expect(first.items.map(item => item.key)).toEqual(['user:1', 'user:2']);
+    expect(first.cursor).toBe('user:2');
+
+    const second = await adapter.list({ prefix: 'user:', limit: 2, after: first.cursor! });
+    expect(second.items.map(item => item.key)).toEqual(['user:3']);
+    expect(second.cursor).toBeNull();
+  });
 });
 
 describe('JSONFileAdapter', () => {
@@ -149,4 +182,20 @@ describe('JSONFileAdapter', () => {
     
     expect(retrieved).toEqual(complexData);
   });
+
+  test('should list and iterate file contents', async () => {
+    await adapter.save('b', 2);
+    await adapter.save('a', 1);
+    await adapter.save('c', 3);
+
+    const page = await adapter.list({ after: 'a', limit: 1 });
+    expect(page).toEqual({ items: [{ key: 'b', value: 2 }], cursor: 'b' });
+
+    const keys: string[] = [];
+    for await (const key of adapter.keys()) {
+      keys.push(key);
+    }
+    expect(keys.sort()).toEqual(['a', 'b', 'c']);
+    expect(await adapter.has('c')).toBe(true);
+  });
 });
\ No newline at end of file
@@ -80,6 +80,26 @@ describe('BatchProcessor', () => {
       expect(await storage.load('another_key')).toBe('another_value');
       expect(await storage.load('existing')).toBeNull();
     });
+
+    it('should execute operations in order', async () => {
+      const objectStorage = new DataStorage(new InMemoryAdapter<any>());
+      await objectStorage.save('user', { name: 'Alice', tags: [] });
+      const processor = new BatchProcessor(objectStorage);
+
+      const result = await processor.executeBatch([
+        { type: 'applyPatch', key: 'user', patch: [{ op: 'replace', path: '/name', value: 'Bob' }] },
+        { type: 'delete', key: 'user' },
+        { type: 'save', key: 'user', value: { name: 'Carol', tags: [] } },
+        { type: 'applyPatch', key: 'user', patch: [{ op: 'add', path: '/tags/-', value: 'admin' }] },
+        { type: 'applyPatch', key: 'missing', patch: [{ op: 'remove', path: '/name' }] }
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.operations.map(op => op.success)).toEqual([true, true, true, true, false]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toContain("Patch operation failed for key 'missing'");
+      expect(await objectStorage.load('user')).toEqual({ name: 'Carol', tags: ['admin'] });
+    });
   });
   
   describe('Batch chunking', () => {
@@ -280,6 +300,26 @@ describe('TransactionProcessor', () => {
     });
   });
   
+  describe('Patch operations', () => {
+    it('should commit patches and roll them back on failure', async () => {
+      const objectStorage = new DataStorage(new InMemoryAdapter<any>());
+      await objectStorage.save('config', { theme: 'light', size: 1 });
+
+      const committed = await new TransactionProcessor(objectStorage)
+        .applyPatch('config', [{ op: 'replace', path: '/theme', value: 'dark' }])
+        .commit();
+      expect(committed.success).toBe(true);
+      expect(await objectStorage.load('config')).toEqual({ theme: 'dark', size: 1 });
+
+      const failed = await new TransactionProcessor(objectStorage)
+        .applyPatch('config', [{ op: 'replace', path: '/size', value: 2 }])
+        .applyPatch('config', [{ op: 'test', path: '/size', value: 99 }])
+        .commit();
+      expect(failed.success).toBe(false);
+      expect(await objectStorage.load('config')).toEqual({ theme: 'dark', size: 1 });
+    });
+  });
+
   describe('Transaction state management', () => {
     it('should prevent operations after commit', async () => {
       await transaction.save('key1', 'value1').commit();
@@ -326,6 +366,16 @@ describe('BatchBuilder', () => {
     ]);
   });
   
+  it('should build applyPatch operations', () => {
+    const operations = builder
+      .applyPatch('key1', [{ op: 'add', path: '/a', value: 1 }])
+      .build();
+
+    expect(operations).toEqual([
+      { type: 'applyPatch', key: 'key1', patch: [{ op: 'add', path: '/a', value: 1 }] }
+    ]);
+  });
+  
   it('should build delete operations', () => {
     const operations = builder
       .delete('key1')
@@ -468,4 +518,40 @@ describe('Integration tests', () => {
     expect(await storage.load('user:active')).toBe('true');
     expect(await storage.load('session:id')).toBe('abc123');
   });
-});
\ No newline at end of file
+
+  it('should emit a single changes event for a whole batch', async () => {
+    const change = jest.fn();
+    const changes = jest.fn();
+    storage.on('change', change);
+    storage.on('changes', changes);
+
+    const data: Record<string, string> = {};
+    for (let i = 0; i < 250; i++) {
+      data[`key${i}`] = `value${i}`;
+    }
+    await createBatchProcessor(storage, { maxBatchSize: 100 }).batchSave(data);
+
+    expect(change).not.toHaveBeenCalled();
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect((changes.mock.calls[0][0] as any).keys).toHaveLength(250);
+  });
+
+  it('should include the rollback of a failed transaction in one changes event', async () => {
+    const changes = jest.fn();
+    await storage.save('counter', '0');
+    storage.on('changes', changes);
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save' && ctx.key === 'broken') {
+        throw new Error('Save failed');
+      }
+      await next();
+    });
+
+    const result = await createTransaction(storage).save('counter', '1').save('broken', 'x').commit();
+
+    expect(result.success).toBe(false);
+    expect(await storage.load('counter')).toBe('0');
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect((changes.mock.calls[0][0] as any).keys).toEqual(['counter', 'broken']);
+  });
+});
@@ -0,0 +1,241 @@
+// tests/cached.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type DataStorageEventMap } from '../src/core/storage.js';
+import { CachedAdapter } from '../src/adapters/cached.js';
+import { Emitter } from '../src/utils/Emitter.js';
+import type { StorageAdapter } from '../src/core/types.js';
+
+describe('CachedAdapter', () => {
+  let inner: InMemoryAdapter<any>;
+  let cached: CachedAdapter<any>;
+
+  beforeEach(async () => {
+    inner = new InMemoryAdapter<any>();
+    await inner.save('a', { n: 1 });
+    await inner.save('b', { n: 2 });
+    await inner.save('c', { n: 3 });
+  });
+
+  afterEach(() => {
+    cached?.dispose();
+  });
+
+  it('should serve repeated reads from the cache and count hits and misses', async () => {
+    cached = new CachedAdapter(inner);
+    const load = jest.spyOn(inner, 'load');
+
+    expect(await cached.load('a')).toEqual({ n: 1 });
+    expect(await cached.load('a')).toEqual({ n: 1 });
+    expect(await cached.load('missing')).toBeNull();
+    expect(await cached.load('missing')).toBeNull();
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cached.getStats()).toMatchObject({ hits: 2, misses: 2, entries: 2, hitRate: 0.5 });
+  });
+
+  it('should evict the least recently used entries beyond maxEntries', async () => {
+    cached = new CachedAdapter(inner, { maxEntries: 2 });
+    await cached.load('a');
+    await cached.load('b');
+    await cached.load('a');
+    await cached.load('c');
+
+    const load = jest.spyOn(inner, 'load');
+    await cached.load('a');
+    await cached.load('b');
+
+    expect(load.mock.calls.map(call => call[0])).toEqual(['b']);
+    expect(cached.getStats()).toMatchObject({ evictions: 2, entries: 2 });
+  });
+
+  it('should bound the approximate size of the cached values', async () => {
+    cached = new CachedAdapter(inner, { maxBytes: 20 });
+    await inner.save('big', { text: 'x'.repeat(30) });
+
+    await cached.load('a');
+    await cached.load('b');
+    await cached.load('big');
+
+    const stats = cached.getStats();
+    // Values larger than the limit are not cached at all
+    expect(stats.bytes).toBeLessThanOrEqual(20);
+    expect(stats.entries).toBe(2);
+    expect(await cached.load('big')).toEqual({ text: 'x'.repeat(30) });
+    expect(cached.getStats().misses).toBe(4);
+  });
+
+  it('should expire cached reads after the ttl', async () => {
+    jest.useFakeTimers();
+    try {
+      cached = new CachedAdapter(inner, { ttl: 1000 });
+      await cached.load('a');
+      await inner.save('a', { n: 10 });
+
+      expect(await cached.load('a')).toEqual({ n: 1 });
+      jest.advanceTimersByTime(1001);
+      expect(await cached.load('a')).toEqual({ n: 10 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should write through to the inner adapter', async () => {
+    cached = new CachedAdapter(inner);
+
+    await cached.save('d', { n: 4 });
+    await cached.delete('a');
+
+    expect(await inner.load('d')).toEqual({ n: 4 });
+    expect(await inner.load('a')).toBeNull();
+    expect(await cached.load('d')).toEqual({ n: 4 });
+    expect(cached.getStats().hits).toBe(1);
+  });
+
+  it('should keep writes in the cache until flushed in write-back mode', async () => {
+    cached = new CachedAdapter(inner, { writeMode: 'write-back', flushInterval: 0 });
+
+    await cached.save('a', { n: 100 });
+    await cached.delete('b');
+
+    expect(await cached.load('a')).toEqual({ n: 100 });
+    expect(await cached.load('b')).toBeNull();
+    expect(await inner.load('a')).toEqual({ n: 1 });
+    expect(cached.getStats().dirty).toBe(2);
+
+    await cached.flush();
+    expect(await inner.load('a')).toEqual({ n: 100 });
+    expect(await inner.load('b')).toBeNull();
+    expect(cached.getStats().dirty).toBe(0);
+  });
+
+  it('should flush pending writes before enumerating', async () => {
+    cached = new CachedAdapter(inner, { writeMode: 'write-back', flushInterval: 0 });
+    await cached.save('d', { n: 4 });
+    await cached.delete('a');
+
+    expect(await cached.getAll()).toEqual({ b: { n: 2 }, c: { n: 3 }, d: { n: 4 } });
+    expect((await cached.list({ limit: 2 })).items.map(item => item.key)).toEqual(['b', 'c']);
+  });
+
+  it('should flush write-back changes on an interval', async () => {
+    jest.useFakeTimers();
+    try {
+      cached = new CachedAdapter(inner, { writeMode: 'write-back', flushInterval: 500 });
+      await cached.save('a', { n: 100 });
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(await inner.load('a')).toEqual({ n: 100 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should invalidate keys when a watched emitter reports changes', async () => {
+    const events = new Emitter();
+    cached = new CachedAdapter(inner, { invalidateOn: events });
+    await cached.load('a');
+    await cached.load('b');
+
+    // Another writer changes the shared adapter
+    await inner.save('a', { n: 10 });
+    events.emit('save', { key: 'a' });
+    expect(await cached.load('a')).toEqual({ n: 10 });
+
+    await inner.clear();
+    events.emit('clear', {});
+    expect(await cached.load('b')).toBeNull();
+  });
+
+  it('should invalidate the keys of coalesced changes from a typed storage emitter', async () => {
+    const events = new Emitter<DataStorageEventMap<any>>();
+    const writer = new DataStorage<any>(inner, events, { coalesce: { window: 'microtask' } });
+    cached = new CachedAdapter(inner, { invalidateOn: events });
+    await cached.load('a');
+    await cached.load('b');
+
+    await writer.save('a', { n: 10 });
+    await Promise.resolve();
+    expect(await cached.load('a')).toEqual({ n: 10 });
+
+    await writer.clear();
+    await Promise.resolve();
+    expect(await cached.load('b')).toBeNull();
+  });
+
+  it('should keep pending write-back changes when the whole cache is invalidated', async () => {
+    const events = new Emitter();
+    cached = new CachedAdapter(inner, { writeMode: 'write-back', flushInterval: 0, invalidateOn: events });
+    await cached.load('b');
+    await cached.save('a', { n: 100 });
+    await cached.delete('c');
+
+    events.emit('clear', {});
+    events.emit('restore', {});
+    expect(cached.getStats()).toMatchObject({ entries: 2, dirty: 2 });
+
+    await cached.flush();
+    expect(await inner.getAll()).toEqual({ a: { n: 100 }, b: { n: 2 } });
+  });
+
+  it('should not lose pending writes when watching the events of its own storage', async () => {
+    const events = new Emitter();
+    cached = new CachedAdapter(inner, { writeMode: 'write-back', flushInterval: 0, invalidateOn: events });
+    const storage = new DataStorage<any>(cached, events).setEmitMode('info');
+
+    await storage.save('d', { n: 4 });
+    await storage.save('a', { n: 100 });
+    await storage.delete('b');
+    expect(await inner.load('d')).toBeNull();
+
+    await cached.flush();
+    expect(await inner.getAll()).toEqual({ a: { n: 100 }, c: { n: 3 }, d: { n: 4 } });
+  });
+
+  it('should let DataStorage.find skip expired records', async () => {
+    cached = new CachedAdapter(inner);
+    const storage = new DataStorage<any>(cached);
+    await storage.save('session', { n: 4 }, { ttl: 60000 });
+    await storage.save('stale', { n: 5 }, { ttl: 0 });
+
+    expect(await storage.find({ n: { $gte: 3 } })).toEqual([
+      { key: 'c', value: { n: 3 } },
+      { key: 'session', value: { n: 4 } }
+    ]);
+  });
+
+  it('should replace the inner contents without emptying it when a save fails', async () => {
+    const map = new Map<string, any>([['a', { n: 1 }], ['b', { n: 2 }]]);
+    const plain: StorageAdapter<any> = {
+      save: async (key, data) => {
+        if (key === 'bad') throw new Error('disk full');
+        map.set(key, data);
+      },
+      load: async key => map.get(key) ?? null,
+      delete: async key => { map.delete(key); },
+      clear: async () => { map.clear(); },
+      getAll: async () => Object.fromEntries(map)
+    };
+    cached = new CachedAdapter(plain);
+
+    await cached.replaceAll({ b: { n: 20 }, d: { n: 4 } });
+    expect(Object.fromEntries(map)).toEqual({ b: { n: 20 }, d: { n: 4 } });
+
+    await expect(cached.replaceAll({ e: { n: 5 }, bad: { n: 0 } })).rejects.toThrow('disk full');
+    expect(Object.fromEntries(map)).toEqual({ b: { n: 20 }, d: { n: 4 }, e: { n: 5 } });
+  });
+
+  it('should work as the adapter of a DataStorage', async () => {
+    const events = new Emitter();
+    const writer = new DataStorage<any>(inner, events).setEmitMode('info');
+    cached = new CachedAdapter(inner, { invalidateOn: events });
+    const storage = new DataStorage<any>(cached);
+
+    await storage.save('user', { name: 'Ada' });
+    expect(await storage.load('user')).toEqual({ name: 'Ada' });
+
+    await writer.save('user', { name: 'Grace' });
+    expect(await storage.load('user')).toEqual({ name: 'Grace' });
+    expect(await storage.compareAndSwap('user', { name: 'Grace' }, { name: 'Alan' })).toBe(true);
+    expect(await inner.load('user')).toEqual({ name: 'Alan' });
+  });
+});
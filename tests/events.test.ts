@@ -0,0 +1,402 @@
+// tests/events.test.ts
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type ChangeEvent, type BeforeWriteEvent, type ChangesEvent, type StorageErrorEvent, type WatchEvent } from '../src/core/storage.js';
+import { WriteVetoedError } from '../src/core/errors.js';
+import { Emitter } from '../src/utils/Emitter.js';
+
+describe('DataStorage emit modes', () => {
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+    await storage.save('user', { name: 'Ada', langs: ['en'] });
+  });
+
+  describe("'diff'", () => {
+    let events: ChangeEvent<any>[];
+
+    beforeEach(() => {
+      storage.setEmitMode('diff');
+      events = [];
+      storage.on('change', (event: ChangeEvent<any>) => events.push(event));
+    });
+
+    it('should describe saves with the previous value and a structural diff', async () => {
+      await storage.save('user', { name: 'Ada Lovelace', langs: ['en'] });
+      await storage.save('other', { name: 'Grace' });
+
+      expect(events[0]).toMatchObject({
+        type: 'save',
+        key: 'user',
+        previous: { name: 'Ada', langs: ['en'] },
+        current: { name: 'Ada Lovelace', langs: ['en'] },
+        diff: [{ op: 'replace', path: '/name', value: 'Ada Lovelace' }]
+      });
+      expect(events[1]).toMatchObject({ type: 'save', key: 'other', previous: null, current: { name: 'Grace' } });
+    });
+
+    it('should describe updates, deletes and clears', async () => {
+      await storage.update('user', user => {
+        user.langs.push('fr');
+      });
+      await storage.delete('user');
+      await storage.save('other', { name: 'Grace' });
+      await storage.clear();
+
+      expect(events.map(event => [event.type, event.key])).toEqual([
+        ['update', 'user'],
+        ['delete', 'user'],
+        ['save', 'other'],
+        ['clear', null]
+      ]);
+      expect(events[0].diff).toEqual([{ op: 'replace', path: '/langs', value: ['en', 'fr'] }]);
+      expect(events[1]).toMatchObject({ previous: { name: 'Ada', langs: ['en', 'fr'] }, current: null });
+    });
+
+    it('should only read the whole state when a listener asks for it', async () => {
+      const getAll = jest.spyOn(adapter, 'getAll');
+
+      await storage.save('other', { name: 'Grace' });
+      expect(getAll).not.toHaveBeenCalled();
+
+      const state = await events[0].getState();
+      expect(Object.keys(state)).toEqual(['user', 'other']);
+      await events[0].getState();
+      expect(getAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("should emit nothing in 'none' mode but still notify onMutation", async () => {
+    const listener = jest.fn();
+    const mutations = jest.fn();
+    storage.setEmitMode('none');
+    for (const event of ['change', 'save', 'delete', 'update', 'clear', 'expire']) {
+      storage.on(event as any, listener);
+    }
+    storage.onMutation(mutations);
+
+    await storage.save('other', { name: 'Grace' });
+    await storage.patch('user', { name: 'Ada L.' });
+    await storage.save('session', { id: 1 }, { ttl: 0 });
+    await storage.load('session');
+    await storage.delete('other');
+    await storage.clear();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(mutations).toHaveBeenCalled();
+  });
+
+  it("should keep emitting the whole dataset in 'all' mode", async () => {
+    const changes: unknown[] = [];
+    storage.on('change', data => changes.push(data));
+
+    await storage.save('other', { name: 'Grace' });
+
+    expect(changes).toEqual([{ user: { name: 'Ada', langs: ['en'] }, other: { name: 'Grace' } }]);
+  });
+});
+
+describe('DataStorage change coalescing', () => {
+  let storage: DataStorage<any>;
+  let events: ChangesEvent<any>[];
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  function create(options = {}) {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, options);
+    storage.on('changes', event => events.push(event));
+    return storage;
+  }
+
+  it('should replace per-operation events with one changes event in batch()', async () => {
+    create();
+    const change = jest.fn();
+    storage.on('change', change);
+
+    const result = await storage.batch(async () => {
+      await storage.save('a', { n: 1 });
+      await storage.batch(async () => {
+        await storage.save('b', { n: 2 });
+        await storage.update('a', a => ({ n: a.n + 1 }));
+      });
+      expect(events).toHaveLength(0);
+      await storage.delete('b');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(change).not.toHaveBeenCalled();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ keys: ['a', 'b'], cleared: false });
+    expect(await events[0].getState()).toEqual({ a: { n: 2 } });
+  });
+
+  it('should emit the collected changes when the batch throws', async () => {
+    create();
+
+    await expect(storage.batch(async () => {
+      await storage.save('a', { n: 1 });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(events.map(event => event.keys)).toEqual([['a']]);
+  });
+
+  it('should group the writes of the same tick with a microtask window', async () => {
+    create({ coalesce: { window: 'microtask' } });
+
+    await Promise.all([storage.save('a', { n: 1 }), storage.save('b', { n: 2 })]);
+    await Promise.resolve();
+    await storage.clear();
+    await Promise.resolve();
+
+    expect(events.map(event => [event.keys, event.cleared])).toEqual([[['a', 'b'], false], [[], true]]);
+  });
+
+  it('should debounce writes with a time window', async () => {
+    jest.useFakeTimers();
+    try {
+      create({ coalesce: { window: 50 } });
+
+      await storage.save('a', { n: 1 });
+      await jest.advanceTimersByTimeAsync(30);
+      await storage.save('b', { n: 2 });
+      await jest.advanceTimersByTimeAsync(30);
+      expect(events).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(30);
+      expect(events.map(event => event.keys)).toEqual([['a', 'b']]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('DataStorage watch', () => {
+  let storage: DataStorage<any>;
+
+  beforeEach(async () => {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    await storage.save('user-1', { profile: { name: 'Ada', city: 'London' } });
+  });
+
+  it('should only fire when the watched key changes', async () => {
+    const events: WatchEvent<any>[] = [];
+    storage.watch('user-1', event => events.push(event));
+
+    await storage.save('user-2', { profile: { name: 'Grace' } });
+    await storage.save('user-1', { profile: { name: 'Ada', city: 'London' } });
+    await storage.patch('user-1', { profile: { city: 'Paris' } });
+    await storage.delete('user-1');
+
+    expect(events).toEqual([
+      {
+        key: 'user-1',
+        path: null,
+        previous: { profile: { name: 'Ada', city: 'London' } },
+        current: { profile: { name: 'Ada', city: 'Paris' } }
+      },
+      { key: 'user-1', path: null, previous: { profile: { name: 'Ada', city: 'Paris' } }, current: null }
+    ]);
+  });
+
+  it('should only fire when the watched path changes', async () => {
+    const events: WatchEvent<unknown>[] = [];
+    storage.watchPath('user-1.profile.name', event => events.push(event));
+
+    await storage.patch('user-1', { profile: { city: 'Paris' } });
+    await storage.patch('user-1', { profile: { name: 'Ada Lovelace' } });
+    await storage.clear();
+
+    expect(events).toEqual([
+      { key: 'user-1', path: 'profile.name', previous: 'Ada', current: 'Ada Lovelace' },
+      { key: 'user-1', path: 'profile.name', previous: 'Ada Lovelace', current: undefined }
+    ]);
+  });
+
+  it('should watch paths of keys that contain dots', async () => {
+    const callback = jest.fn();
+    await storage.save('app.settings', { theme: 'dark' });
+    storage.watchPath('theme', callback, { key: 'app.settings' });
+
+    await storage.save('app.settings', { theme: 'light' });
+
+    expect(callback).toHaveBeenCalledWith({ key: 'app.settings', path: 'theme', previous: 'dark', current: 'light' });
+  });
+
+  it('should emit the current value immediately when asked', async () => {
+    const keyEvents: WatchEvent<any>[] = [];
+    const pathEvents: WatchEvent<unknown>[] = [];
+    storage.watch('user-1', event => keyEvents.push(event), { immediate: true });
+    storage.watchPath('user-1.profile.city', event => pathEvents.push(event), { immediate: true });
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(keyEvents).toEqual([{ key: 'user-1', path: null, previous: null, current: { profile: { name: 'Ada', city: 'London' } } }]);
+    expect(pathEvents).toEqual([{ key: 'user-1', path: 'profile.city', previous: undefined, current: 'London' }]);
+  });
+
+  it('should fire when a watched key expires', async () => {
+    jest.useFakeTimers();
+    try {
+      storage.setEmitMode('none');
+      const keyEvents: WatchEvent<any>[] = [];
+      const pathEvents: WatchEvent<unknown>[] = [];
+      await storage.save('session', { user: 'Ada' }, { ttl: 1000 });
+      await storage.save('token', { user: 'Grace' }, { ttl: 1000 });
+      storage.watch('session', event => keyEvents.push(event));
+      storage.watchPath('token.user', event => pathEvents.push(event));
+
+      jest.advanceTimersByTime(1001);
+      expect(await storage.load('session')).toBeNull();
+      expect(await storage.sweepExpired()).toEqual(['token']);
+
+      expect(keyEvents).toEqual([{ key: 'session', path: null, previous: { user: 'Ada' }, current: null }]);
+      expect(pathEvents).toEqual([{ key: 'token', path: 'user', previous: 'Grace', current: undefined }]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stop calling back once unsubscribed', async () => {
+    const callback = jest.fn();
+    const unsubscribe = storage.watch('user-1', callback, { immediate: true });
+    unsubscribe();
+
+    await storage.save('user-1', { profile: { name: 'Grace' } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
+
+describe('DataStorage error events', () => {
+  it("should route background errors to 'error' listeners", async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    const errors: StorageErrorEvent[] = [];
+    const warn = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    storage.on('error', event => errors.push(event));
+    storage.onMutation(() => {
+      throw new Error('listener failed');
+    });
+
+    await storage.save('a', { n: 1 });
+
+    expect(errors).toEqual([{ source: 'mutation', error: new Error('listener failed') }]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('DataStorage before events', () => {
+  let storage: DataStorage<any>;
+
+  beforeEach(async () => {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    await storage.save('a', { n: 1 });
+  });
+
+  it('should await before listeners and let them veto writes', async () => {
+    const seen: BeforeWriteEvent<any>[] = [];
+    storage.on('beforeSave', async event => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      seen.push(event);
+      return event.data.n >= 0;
+    });
+
+    await storage.save('b', { n: 2 });
+    await expect(storage.save('b', { n: -1 })).rejects.toBeInstanceOf(WriteVetoedError);
+
+    expect(await storage.load('b')).toEqual({ n: 2 });
+    expect(seen.map(event => [event.operation, event.key, event.data])).toEqual([
+      ['save', 'b', { n: 2 }],
+      ['save', 'b', { n: -1 }]
+    ]);
+  });
+
+  it('should propagate the error thrown by a before listener', async () => {
+    storage.on('beforeDelete', () => {
+      throw new Error('a is protected');
+    });
+    storage.on('beforeUpdate', event => {
+      if (event.previous?.n === 1) {
+        throw new Error('frozen');
+      }
+    });
+    const mutations = jest.fn();
+    storage.onMutation(mutations);
+
+    await expect(storage.delete('a')).rejects.toThrow('a is protected');
+    await expect(storage.patch('a', { n: 2 })).rejects.toThrow('frozen');
+
+    expect(await storage.load('a')).toEqual({ n: 1 });
+    expect(mutations).not.toHaveBeenCalled();
+  });
+
+  it('should only take vetoes from the listeners of the before event', async () => {
+    const emitter = new Emitter();
+    const shared = new DataStorage<any>(new InMemoryAdapter<any>(), emitter);
+    const seen: string[] = [];
+    emitter.onAny(event => {
+      seen.push(event);
+      return false;
+    });
+    shared.on('beforeSave', () => true);
+
+    await shared.save('a', { n: 1 });
+
+    expect(await shared.load('a')).toEqual({ n: 1 });
+    expect(seen).toContain('beforeSave');
+  });
+
+  it('should let before listeners veto a clear', async () => {
+    storage.on('beforeClear', () => false);
+
+    await expect(storage.clear()).rejects.toMatchObject({ operation: 'clear', key: null });
+    expect(await storage.getAll()).toEqual({ a: { n: 1 } });
+  });
+});
+
+describe('DataStorage event helpers', () => {
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    storage.setEmitMode('info');
+  });
+
+  it('should wait for the next save of a key', async () => {
+    const saved = storage.waitFor('save', { filter: event => event.key === 'x', timeout: 1000 });
+
+    await storage.save('y', { n: 1 });
+    await storage.save('x', { n: 2 });
+
+    await expect(saved).resolves.toEqual({ key: 'x', data: { n: 2 } });
+  });
+
+  it('should stream its events and stop listening on abort', async () => {
+    const controller = new AbortController();
+    const keys: string[] = [];
+    const listener = jest.fn();
+    storage.on('delete', listener, { signal: controller.signal });
+
+    const consumer = (async () => {
+      for await (const event of storage.events('save', { signal: controller.signal })) {
+        keys.push(event.key);
+      }
+    })();
+    await storage.save('a', { n: 1 });
+    await storage.save('b', { n: 2 });
+    await Promise.resolve();
+    controller.abort();
+    await consumer;
+    await storage.delete('a');
+
+    expect(keys).toEqual(['a', 'b']);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
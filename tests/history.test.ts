@@ -0,0 +1,178 @@
+// tests/history.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type Mutation } from '../src/core/storage.js';
+import { HistoryManager, createHistory, HISTORY_ORIGIN } from '../src/utils/history.js';
+
+describe('DataStorage.onMutation', () => {
+  it('should report previous and current values for every write', async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    const mutations: Mutation<any>[] = [];
+    storage.onMutation(mutation => mutations.push(mutation));
+
+    await storage.save('a', { n: 1 });
+    await storage.patch('a', { n: 2 }, { origin: 'ui' });
+    await storage.delete('a');
+    await storage.delete('missing');
+    await storage.save('b', 1);
+    await storage.save('c', 2);
+    await storage.clear();
+
+    expect(mutations.map(m => [m.type, m.origin, m.changes])).toEqual([
+      ['save', undefined, [{ key: 'a', previous: null, current: { n: 1 } }]],
+      ['update', 'ui', [{ key: 'a', previous: { n: 1 }, current: { n: 2 } }]],
+      ['delete', undefined, [{ key: 'a', previous: { n: 2 }, current: null }]],
+      ['save', undefined, [{ key: 'b', previous: null, current: 1 }]],
+      ['save', undefined, [{ key: 'c', previous: null, current: 2 }]],
+      ['clear', undefined, [{ key: 'b', previous: 1, current: null }, { key: 'c', previous: 2, current: null }]]
+    ]);
+  });
+});
+
+describe('HistoryManager', () => {
+  let storage: DataStorage<any>;
+  let history: HistoryManager<any>;
+
+  beforeEach(() => {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>());
+    history = createHistory(storage);
+  });
+
+  it('should undo and redo saves, updates and deletes', async () => {
+    await storage.save('theme', 'light');
+    await storage.save('theme', 'dark');
+    await storage.patch('layout', { sidebar: true });
+    await storage.delete('theme');
+
+    await history.undo();
+    expect(await storage.load('theme')).toBe('dark');
+    await history.undo();
+    expect(await storage.load('layout')).toBeNull();
+    await history.undo();
+    expect(await storage.load('theme')).toBe('light');
+    await history.undo();
+    expect(await storage.load('theme')).toBeNull();
+    expect(await history.undo()).toBeNull();
+
+    await history.redo();
+    await history.redo();
+    expect(await storage.load('theme')).toBe('dark');
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('should not record its own writes and drop redo after a new change', async () => {
+    await storage.save('a', 1);
+    await storage.save('a', 2);
+    await history.undo();
+
+    expect(history.history('a')).toHaveLength(1);
+    expect(history.canRedo()).toBe(true);
+
+    await storage.save('a', 3);
+    expect(history.canRedo()).toBe(false);
+    expect(history.history('a').map(entry => entry.after)).toEqual([1, 3]);
+  });
+
+  it('should list entries per key with timestamps and origins', async () => {
+    await storage.save('volume', 5, { origin: 'slider' });
+    await storage.save('muted', true);
+    await storage.save('volume', 7, { origin: 'keyboard' });
+
+    const entries = history.history('volume');
+    expect(entries.map(({ before, after, origin }) => ({ before, after, origin }))).toEqual([
+      { before: null, after: 5, origin: 'slider' },
+      { before: 5, after: 7, origin: 'keyboard' }
+    ]);
+    expect(entries.every(entry => typeof entry.timestamp === 'number')).toBe(true);
+    expect(history.history()).toHaveLength(3);
+  });
+
+  it('should undo a group of changes as one step', async () => {
+    await storage.save('width', 100);
+
+    await history.group(async () => {
+      await storage.save('width', 200);
+      await storage.save('height', 50);
+      await history.group(() => storage.delete('width'));
+    }, 'resize');
+
+    expect(history.history()).toHaveLength(4);
+    const step = await history.undo();
+
+    expect(step!.label).toBe('resize');
+    expect(step!.entries).toHaveLength(3);
+    expect(await storage.getAll()).toEqual({ width: 100 });
+  });
+
+  it('should treat clear() as a single step', async () => {
+    await storage.save('a', 1);
+    await storage.save('b', 2);
+    await storage.clear();
+
+    await history.undo();
+    expect(await storage.getAll()).toEqual({ a: 1, b: 2 });
+  });
+
+  it('should keep at most `limit` steps', async () => {
+    history.dispose();
+    history = new HistoryManager(storage, { limit: 2 });
+
+    for (let i = 1; i <= 4; i++) {
+      await storage.save('n', i);
+    }
+
+    expect(history.history('n').map(entry => entry.after)).toEqual([3, 4]);
+    await history.undo();
+    await history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(await storage.load('n')).toBe(2);
+  });
+
+  it('should ignore configured origins and stop after dispose', async () => {
+    history.dispose();
+    history = new HistoryManager(storage, { ignoreOrigins: ['sync'] });
+
+    await storage.save('remote', 1, { origin: 'sync' });
+    await storage.save('local', 1, { origin: HISTORY_ORIGIN });
+    expect(history.canUndo()).toBe(false);
+
+    history.dispose();
+    await storage.save('local', 2);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should persist the stacks through its own adapter', async () => {
+    const historyAdapter = new InMemoryAdapter<any>();
+    history.dispose();
+    history = new HistoryManager(storage, { adapter: historyAdapter, persistKey: 'settings-history' });
+
+    await storage.save('zoom', 1);
+    await storage.save('zoom', 2);
+    await history.undo();
+    await history.flush();
+    history.dispose();
+
+    // A new manager (e.g. after a reload) picks up both stacks
+    const reloaded = new HistoryManager(storage, { adapter: historyAdapter, persistKey: 'settings-history' });
+    await reloaded.ready();
+
+    expect(reloaded.history('zoom').map(entry => entry.after)).toEqual([1]);
+    await reloaded.redo();
+    expect(await storage.load('zoom')).toBe(2);
+    await reloaded.undo();
+    await reloaded.undo();
+    expect(await storage.load('zoom')).toBeNull();
+  });
+
+  it('should restore the stack if reverting fails', async () => {
+    await storage.save('a', 1);
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'delete') {
+        throw new Error('read-only');
+      }
+      await next();
+    });
+
+    await expect(history.undo()).rejects.toThrow('read-only');
+    expect(history.canUndo()).toBe(true);
+  });
+});
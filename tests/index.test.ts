@@ -6,6 +6,9 @@ import {
   DataStorage,
   InMemoryAdapter
 } from '../src/index';
+import type { StorageAdapter } from '../src/index';
+import type { ListOptions } from '../src/core/types';
+import { listKeys } from '../src/utils/iteration';
 
 describe('ChatMemory', () => {
   let memory: ChatMemory;
@@ -208,4 +211,51 @@ describe('DataStorage', () => {
       expect(typeof value).toBe('string');
     });
   });
+
+  describe('Iteration', () => {
+    // Adapter with only the required methods, no getAll/data
+    class MinimalAdapter implements StorageAdapter<number> {
+      private items = new Map<string, number>();
+      async save(key: string, data: number) { this.items.set(key, data); }
+      async load(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+      async delete(key: string) { this.items.delete(key); }
+      async clear() { this.items.clear(); }
+      async list(options: ListOptions = {}) {
+        return listKeys(this.items.keys(), key => this.items.get(key)!, options);
+      }
+    }
+
+    test('should build getAll from paginated adapters', async () => {
+      const storage = new DataStorage<number>(new MinimalAdapter());
+      await storage.save('b', 2);
+      await storage.save('a', 1);
+
+      expect(await storage.getAll()).toEqual({ a: 1, b: 2 });
+      expect(await storage.has('a')).toBe(true);
+      expect(await storage.has('z')).toBe(false);
+    });
+
+    test('should iterate keys and entries through DataStorage', async () => {
+      const storage = new DataStorage<number>(new InMemoryAdapter<number>());
+      for (let i = 0; i < 5; i++) {
+        await storage.save(`key${i}`, i);
+      }
+
+      const keys: string[] = [];
+      for await (const key of storage.keys()) {
+        keys.push(key);
+      }
+      let total = 0;
+      for await (const { value } of storage.entries()) {
+        total += value;
+      }
+
+      expect(keys).toHaveLength(5);
+      expect(total).toBe(10);
+
+      const page = await storage.list({ limit: 2, after: 'key1' });
+      expect(page.items.map(item => item.key)).toEqual(['key2', 'key3']);
+      expect(page.cursor).toBe('key3');
+    });
+  });
 });
\ No newline at end of file
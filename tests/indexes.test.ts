@@ -0,0 +1,212 @@
+// tests/indexes.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { UniqueConstraintError } from '../src/core/errors.js';
+import { SecondaryIndex, extractIndexValues, indexEntryPrefix, indexStorageKey } from '../src/utils/indexes.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('SecondaryIndex', () => {
+  it('should keep keys ordered by value for range scans', () => {
+    const index = new SecondaryIndex();
+    index.set('c', [30]);
+    index.set('a', [10, 'x']);
+    index.set('b', [20]);
+    index.set('d', [20]);
+
+    expect(index.keys({ gte: 15 })).toEqual(['b', 'd', 'c', 'a']);
+    expect(index.keys({ gt: 10, lt: 30 })).toEqual(['b', 'd']);
+    expect(index.keys({ gte: 'a' })).toEqual(['a']);
+
+    index.set('b', []);
+    expect(index.keys({ gte: 20, lte: 20 })).toEqual(['d']);
+  });
+
+  it('should normalize extracted values', () => {
+    const extract = (value: any) => value;
+    expect(extractIndexValues(extract, ['a', 'a', 1, true, null, {}], 'k')).toEqual(['a', 1]);
+    expect(extractIndexValues(extract, new Date(5), 'k')).toEqual([5]);
+    expect(extractIndexValues(extract, undefined, 'k')).toEqual([]);
+  });
+});
+
+describe('DataStorage secondary indexes', () => {
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+    await storage.save('user:1', { email: 'ada@example.com', age: 36, tags: ['math', 'code'] });
+    await storage.save('user:2', { email: 'grace@example.com', age: 85, tags: ['code'] });
+  });
+
+  it('should index existing records and follow saves, updates and deletes', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+
+    expect(await storage.lookup('byEmail', 'ada@example.com')).toEqual([
+      { key: 'user:1', value: { email: 'ada@example.com', age: 36, tags: ['math', 'code'] } }
+    ]);
+
+    await storage.patch('user:1', { email: 'ada@lovelace.dev' });
+    await storage.save('user:3', { email: 'alan@example.com', age: 41 });
+    await storage.delete('user:2');
+
+    expect(await storage.lookup('byEmail', 'ada@example.com')).toEqual([]);
+    expect((await storage.lookup('byEmail', 'ada@lovelace.dev')).map(entry => entry.key)).toEqual(['user:1']);
+    expect((await storage.lookup('byEmail', 'alan@example.com')).map(entry => entry.key)).toEqual(['user:3']);
+    expect(await storage.lookup('byEmail', 'grace@example.com')).toEqual([]);
+  });
+
+  it('should answer range queries in index order', async () => {
+    await storage.createIndex('byAge', user => user.age);
+    await storage.save('user:3', { email: 'alan@example.com', age: 41 });
+
+    const adults = await storage.lookupRange('byAge', { gte: 30, lt: 80 });
+    expect(adults.map(entry => entry.key)).toEqual(['user:1', 'user:3']);
+    expect((await storage.lookupRange('byAge', { gt: 36 }, { limit: 1 })).map(entry => entry.key)).toEqual(['user:3']);
+  });
+
+  it('should index every element of an array', async () => {
+    await storage.createIndex('byTag', user => user.tags);
+
+    expect((await storage.lookup('byTag', 'code')).map(entry => entry.key)).toEqual(['user:1', 'user:2']);
+    expect((await storage.lookup('byTag', 'math')).map(entry => entry.key)).toEqual(['user:1']);
+  });
+
+  it('should reject saves that break a unique index', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+
+    const attempt = storage.save('user:3', { email: 'ada@example.com' });
+    await expect(attempt).rejects.toBeInstanceOf(UniqueConstraintError);
+    await expect(storage.save('user:3', { email: 'ada@example.com' })).rejects.toMatchObject({
+      index: 'byEmail',
+      value: 'ada@example.com',
+      key: 'user:3',
+      existingKey: 'user:1'
+    });
+    await expect(storage.patch('user:2', { email: 'ada@example.com' })).rejects.toThrow('Unique index "byEmail"');
+
+    expect(await storage.load('user:3')).toBeNull();
+    expect((await storage.load('user:2')).email).toBe('grace@example.com');
+    // Saving the same value under the same key is fine
+    await storage.patch('user:1', { age: 37 });
+  });
+
+  it('should let only one of two concurrent saves claim a unique value', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+
+    const results = await Promise.allSettled([
+      storage.save('user:3', { email: 'new@example.com' }),
+      storage.save('user:4', { email: 'new@example.com' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await storage.lookup('byEmail', 'new@example.com')).toHaveLength(1);
+  });
+
+  it('should fail to create a unique index over duplicated values', async () => {
+    await storage.save('user:3', { email: 'ada@example.com' });
+
+    await expect(storage.createIndex('byEmail', user => user.email, { unique: true })).rejects.toBeInstanceOf(UniqueConstraintError);
+    expect(storage.listIndexes()).toEqual([]);
+    // The failed index does not block later operations
+    expect(await storage.load('user:3')).toEqual({ email: 'ada@example.com' });
+  });
+
+  it('should empty the indexes on clear and rebuild them on restore', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+    const snapshot = await storage.snapshot();
+
+    await storage.clear();
+    expect(await storage.lookup('byEmail', 'ada@example.com')).toEqual([]);
+    await storage.save('user:9', { email: 'ada@example.com' });
+
+    await storage.restore(snapshot.id);
+    expect((await storage.lookup('byEmail', 'ada@example.com')).map(entry => entry.key)).toEqual(['user:1']);
+  });
+
+  it('should skip expired records', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+    await storage.save('session', { email: 'temp@example.com' }, { ttl: 0 });
+
+    expect(await storage.lookup('byEmail', 'temp@example.com')).toEqual([]);
+    // The expired record does not hold on to its unique value
+    await storage.save('user:3', { email: 'temp@example.com' });
+    expect((await storage.lookup('byEmail', 'temp@example.com')).map(entry => entry.key)).toEqual(['user:3']);
+  });
+
+  it('should persist the index under reserved keys and drop it', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+    const prefix = indexEntryPrefix('byEmail');
+
+    expect(await adapter.load(indexStorageKey('byEmail'))).toEqual({ fingerprint: expect.any(String) });
+    expect(await adapter.load(`${prefix}user:1`)).toEqual(['ada@example.com']);
+    expect(await adapter.load(`${prefix}user:2`)).toEqual(['grace@example.com']);
+    expect(Object.keys(await storage.getAll())).toEqual(['user:1', 'user:2']);
+
+    await storage.dropIndex('byEmail');
+    expect(Object.keys(await adapter.getAll())).toEqual(['user:1', 'user:2']);
+    await expect(storage.lookup('byEmail', 'x')).rejects.toThrow('Unknown index "byEmail"');
+  });
+
+  it('should only persist the index entry of the written key', async () => {
+    await storage.createIndex('byEmail', user => user.email, { unique: true });
+    const prefix = indexEntryPrefix('byEmail');
+    const save = jest.spyOn(adapter, 'save');
+    const remove = jest.spyOn(adapter, 'delete');
+
+    await storage.save('user:3', { email: 'alan@example.com' });
+    await storage.delete('user:1');
+
+    expect(save.mock.calls.map(call => call[0])).toEqual(['user:3', `${prefix}user:3`]);
+    expect(remove.mock.calls.map(call => call[0])).toEqual(['user:1', `${prefix}user:1`]);
+  });
+});
+
+describe('Secondary indexes on a JSON file', () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'indexes-test-'));
+    file = path.join(tempDir, 'users.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reuse the persisted index after a restart', async () => {
+    const byEmail = (user: any) => user.email;
+    const first = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    await first.createIndex('byEmail', byEmail, { unique: true });
+    await first.save('user:1', { email: 'ada@example.com' });
+
+    const contents = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(contents[`${indexEntryPrefix('byEmail')}user:1`]).toEqual(['ada@example.com']);
+
+    // A second process loads the index instead of scanning every record
+    const adapter = new JSONFileAdapter<any>(file);
+    const second = new DataStorage<any>(adapter);
+    const getAll = jest.spyOn(adapter, 'getAll');
+    await second.createIndex('byEmail', byEmail, { unique: true });
+
+    expect(getAll).not.toHaveBeenCalled();
+    expect((await second.lookup('byEmail', 'ada@example.com')).map(entry => entry.key)).toEqual(['user:1']);
+    await expect(second.save('user:2', { email: 'ada@example.com' })).rejects.toBeInstanceOf(UniqueConstraintError);
+  });
+
+  it('should rebuild the index when its definition changes', async () => {
+    const first = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    await first.save('user:1', { email: 'Ada@Example.com' });
+    await first.createIndex('byEmail', user => user.email);
+
+    const second = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    await second.createIndex('byEmail', user => user.email.toLowerCase());
+
+    expect((await second.lookup('byEmail', 'ada@example.com')).map(entry => entry.key)).toEqual(['user:1']);
+  });
+});
@@ -0,0 +1,192 @@
+// tests/json-patch.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { applyJsonPatch, createJsonPatch, JsonPatchError, parsePointer, formatPointer } from '../src/utils/json-patch.js';
+import { DataStorage, InMemoryAdapter, type UpdateEvent } from '../src/core/storage.js';
+import { DataTransformer } from '../src/utils/validation.js';
+
+describe('JSON Pointer', () => {
+  it('should escape and unescape tokens', () => {
+    expect(parsePointer('/a~1b/c~0d/0')).toEqual(['a/b', 'c~d', '0']);
+    expect(formatPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+    expect(parsePointer('')).toEqual([]);
+    expect(() => parsePointer('a/b')).toThrow('Invalid JSON Pointer');
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { name: 'Alice', tags: ['a', 'b'], profile: { city: 'Lima' } };
+
+  it('should apply add, remove and replace without mutating the input', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'add', path: '/tags/-', value: 'c' },
+      { op: 'add', path: '/tags/0', value: 'z' },
+      { op: 'remove', path: '/profile/city' },
+      { op: 'replace', path: '/name', value: 'Bob' }
+    ]);
+
+    expect(result).toEqual({ name: 'Bob', tags: ['z', 'a', 'b', 'c'], profile: {} });
+    expect(document).toEqual({ name: 'Alice', tags: ['a', 'b'], profile: { city: 'Lima' } });
+  });
+
+  it('should apply move, copy and test', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/name', value: 'Alice' },
+      { op: 'copy', from: '/profile', path: '/home' },
+      { op: 'move', from: '/tags/0', path: '/first' }
+    ]);
+
+    expect(result).toEqual({
+      name: 'Alice',
+      tags: ['b'],
+      profile: { city: 'Lima' },
+      home: { city: 'Lima' },
+      first: 'a'
+    });
+  });
+
+  it('should replace the whole document with an empty path', () => {
+    expect(applyJsonPatch(document, [{ op: 'replace', path: '', value: 42 }])).toBe(42);
+  });
+
+  it('should report the failing operation', () => {
+    try {
+      applyJsonPatch(document, [
+        { op: 'add', path: '/ok', value: true },
+        { op: 'test', path: '/name', value: 'Bob' }
+      ]);
+      throw new Error('expected failure');
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonPatchError);
+      expect((error as JsonPatchError).index).toBe(1);
+      expect((error as JsonPatchError).operation.op).toBe('test');
+    }
+
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/missing' }])).toThrow(JsonPatchError);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/tags/5', value: 1 }])).toThrow('out of bounds');
+    expect(() => applyJsonPatch(document, [{ op: 'move', from: '/profile', path: '/profile/inner' }])).toThrow('its children');
+  });
+});
+
+describe('createJsonPatch', () => {
+  it('should produce operations that reproduce the target', () => {
+    const before = { a: 1, b: { c: [1, 2], d: 'x' }, e: true };
+    const after = { a: 2, b: { c: [1, 3], f: null }, g: [1] };
+
+    const operations = createJsonPatch(before, after);
+
+    expect(operations).toEqual(expect.arrayContaining([
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'replace', path: '/b/c/1', value: 3 },
+      { op: 'remove', path: '/b/d' },
+      { op: 'add', path: '/b/f', value: null },
+      { op: 'remove', path: '/e' },
+      { op: 'add', path: '/g', value: [1] }
+    ]));
+    expect(applyJsonPatch(before, operations)).toEqual(after);
+  });
+
+  it('should return no operations for equal values', () => {
+    expect(createJsonPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+});
+
+describe('DataTransformer.deepMerge', () => {
+  it('should merge nested objects and replace arrays', () => {
+    const merged = DataTransformer.deepMerge(
+      { a: { b: 1, c: 2 }, list: [1, 2], keep: 'yes' },
+      { a: { c: 3 }, list: [9], extra: { x: 1 }, keep: undefined }
+    );
+    expect(merged).toEqual({ a: { b: 1, c: 3 }, list: [9], keep: 'yes', extra: { x: 1 } });
+  });
+});
+
+describe('DataStorage partial updates', () => {
+  interface Settings {
+    theme: string;
+    editor: { fontSize: number; tabs: boolean };
+    recent: string[];
+  }
+
+  let storage: DataStorage<Settings>;
+  const initial: Settings = { theme: 'light', editor: { fontSize: 12, tabs: true }, recent: [] };
+
+  beforeEach(async () => {
+    storage = new DataStorage<Settings>(new InMemoryAdapter<Settings>());
+    await storage.save('settings', initial);
+  });
+
+  it('should update with a function returning a new value', async () => {
+    const result = await storage.update('settings', current => ({ ...current!, theme: 'dark' }));
+    expect(result.theme).toBe('dark');
+    expect((await storage.load('settings'))!.theme).toBe('dark');
+  });
+
+  it('should update by mutating the draft', async () => {
+    await storage.update('settings', draft => {
+      draft!.recent.push('file.ts');
+    });
+    expect((await storage.load('settings'))!.recent).toEqual(['file.ts']);
+    expect(initial.recent).toEqual([]);
+  });
+
+  it('should serialize concurrent updates on the same key', async () => {
+    const counter = new DataStorage<number>(new InMemoryAdapter<number>());
+    await counter.save('count', 0);
+
+    await Promise.all(Array.from({ length: 20 }, () =>
+      counter.update('count', async value => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return (value || 0) + 1;
+      })
+    ));
+
+    expect(await counter.load('count')).toBe(20);
+  });
+
+  it('should deep merge partial values', async () => {
+    await storage.patch('settings', { editor: { fontSize: 14 } });
+    expect(await storage.load('settings')).toEqual({ theme: 'light', editor: { fontSize: 14, tabs: true }, recent: [] });
+  });
+
+  it('should apply JSON Patch operations', async () => {
+    await storage.applyPatch('settings', [
+      { op: 'replace', path: '/editor/tabs', value: false },
+      { op: 'add', path: '/recent/-', value: 'a.ts' }
+    ]);
+    expect(await storage.load('settings')).toEqual({ theme: 'light', editor: { fontSize: 12, tabs: false }, recent: ['a.ts'] });
+  });
+
+  it('should leave the value untouched when a patch fails', async () => {
+    await expect(storage.applyPatch('settings', [
+      { op: 'replace', path: '/theme', value: 'dark' },
+      { op: 'test', path: '/theme', value: 'light' }
+    ])).rejects.toThrow(JsonPatchError);
+    expect(await storage.load('settings')).toEqual(initial);
+  });
+
+  it('should emit a single update event with the applied operations', async () => {
+    const events: UpdateEvent<Settings>[] = [];
+    const saves: unknown[] = [];
+    storage.setEmitMode('info');
+    storage.on('update', event => events.push(event));
+    storage.on('save', event => saves.push(event));
+
+    await storage.patch('settings', { theme: 'dark' });
+
+    expect(saves).toHaveLength(0);
+    expect(events).toHaveLength(1);
+    expect(events[0].key).toBe('settings');
+    expect(events[0].previous).toEqual(initial);
+    expect(events[0].operations).toEqual([{ op: 'replace', path: '/theme', value: 'dark' }]);
+  });
+
+  it('should emit change with all data in the default mode', async () => {
+    const changes: unknown[] = [];
+    storage.on('change', data => changes.push(data));
+
+    await storage.applyPatch('settings', [{ op: 'replace', path: '/theme', value: 'dark' }]);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toEqual({ settings: { ...initial, theme: 'dark' } });
+  });
+});
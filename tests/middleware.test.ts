@@ -0,0 +1,207 @@
+// tests/middleware.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type StorageMiddleware } from '../src/core/storage.js';
+import { composeMiddleware, type Middleware } from '../src/utils/middleware.js';
+
+describe('composeMiddleware', () => {
+  it('should run middlewares in onion order around the terminal', async () => {
+    const calls: string[] = [];
+    const logger = (name: string): Middleware<unknown> => async (_context, next) => {
+      calls.push(`${name}:before`);
+      await next();
+      calls.push(`${name}:after`);
+    };
+
+    await composeMiddleware([logger('a'), logger('b')], async () => {
+      calls.push('terminal');
+    })({});
+
+    expect(calls).toEqual(['a:before', 'b:before', 'terminal', 'b:after', 'a:after']);
+  });
+
+  it('should reject when next() is called twice', async () => {
+    const run = composeMiddleware<unknown>([async (_context, next) => {
+      await next();
+      await next();
+    }], async () => {});
+
+    await expect(run({})).rejects.toThrow('next() called multiple times');
+  });
+});
+
+describe('DataStorage.use', () => {
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+  });
+
+  it('should intercept every operation', async () => {
+    const operations: string[] = [];
+    storage.use(async (ctx, next) => {
+      operations.push(ctx.operation);
+      await next();
+    });
+
+    await storage.save('a', 1);
+    await storage.load('a');
+    await storage.delete('a');
+    await storage.clear();
+
+    // In 'all' mode every write reads getAll() for the 'change' event
+    expect(operations).toEqual(['save', 'getAll', 'load', 'delete', 'getAll', 'clear', 'getAll']);
+  });
+
+  it('should transform values on the way in and out', async () => {
+    // Stores strings reversed and restores them on read
+    const reverse = (value: string) => value.split('').reverse().join('');
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save' && typeof ctx.value === 'string') {
+        ctx.value = reverse(ctx.value);
+      }
+      await next();
+      if (ctx.operation === 'load' && typeof ctx.result === 'string') {
+        ctx.result = reverse(ctx.result);
+      }
+      if (ctx.operation === 'getAll') {
+        for (const [key, value] of Object.entries(ctx.result)) {
+          ctx.result[key] = typeof value === 'string' ? reverse(value) : value;
+        }
+      }
+    });
+
+    await storage.save('greeting', 'hello');
+
+    expect(await adapter.load('greeting')).toBe('olleh');
+    expect(await storage.load('greeting')).toBe('hello');
+    expect(await storage.getAll()).toEqual({ greeting: 'hello' });
+  });
+
+  it('should apply the same transforms inside update and patch', async () => {
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save') {
+        ctx.value = { stored: ctx.value };
+      }
+      await next();
+      if (ctx.operation === 'load' && ctx.result !== null) {
+        ctx.result = ctx.result.stored;
+      }
+    });
+
+    await storage.save('counter', { count: 1 });
+    await storage.update('counter', current => ({ count: current.count + 1 }));
+    await storage.patch('counter', { label: 'clicks' });
+
+    expect(await adapter.load('counter')).toEqual({ stored: { count: 2, label: 'clicks' } });
+    expect(await storage.load('counter')).toEqual({ count: 2, label: 'clicks' });
+  });
+
+  it('should provide default values for missing keys', async () => {
+    storage.use(async (ctx, next) => {
+      await next();
+      if (ctx.operation === 'load' && ctx.result === null) {
+        ctx.result = { theme: 'light' };
+      }
+    });
+
+    expect(await storage.load('settings')).toEqual({ theme: 'light' });
+    expect(await storage.patch('settings', { fontSize: 14 })).toEqual({ theme: 'light', fontSize: 14 });
+  });
+
+  it('should short-circuit without touching the adapter or emitting', async () => {
+    const changes: unknown[] = [];
+    storage.on('change', data => changes.push(data));
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save' && ctx.key.startsWith('tmp:')) {
+        return;
+      }
+      if (ctx.operation === 'load' && ctx.key === 'cached') {
+        ctx.result = 'from cache';
+        return;
+      }
+      await next();
+    });
+
+    await storage.save('tmp:1', 'ignored');
+    expect(await adapter.load('tmp:1')).toBeNull();
+    expect(changes).toHaveLength(0);
+    expect(await storage.load('cached')).toBe('from cache');
+  });
+
+  it('should abort the operation when a middleware throws', async () => {
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'delete' && ctx.key === 'protected') {
+        throw new Error('Key is protected');
+      }
+      await next();
+    });
+
+    await storage.save('protected', 'keep me');
+    await expect(storage.delete('protected')).rejects.toThrow('Key is protected');
+    expect(await storage.load('protected')).toBe('keep me');
+  });
+
+  it('should let middlewares measure the wrapped operation', async () => {
+    const durations: Array<{ operation: string; ms: number }> = [];
+    const metrics: StorageMiddleware<any> = async (ctx, next) => {
+      const start = Date.now();
+      try {
+        await next();
+      } finally {
+        durations.push({ operation: ctx.operation, ms: Date.now() - start });
+      }
+    };
+    storage.setEmitMode('info');
+    storage.use(metrics);
+
+    await storage.save('a', 1);
+    await storage.load('a');
+
+    expect(durations.map(entry => entry.operation)).toEqual(['save', 'load']);
+    expect(durations.every(entry => entry.ms >= 0)).toBe(true);
+  });
+
+  it('should stop running a middleware once it is removed', async () => {
+    const seen: string[] = [];
+    const remove = storage.use(async (ctx, next) => {
+      seen.push(ctx.operation);
+      await next();
+    });
+
+    await storage.load('a');
+    remove();
+    await storage.load('a');
+
+    expect(seen).toEqual(['load']);
+  });
+
+  it('should validate the original value before middlewares transform it', async () => {
+    storage = new DataStorage<any>(adapter, undefined, {
+      validation: { schema: { type: 'object', properties: { name: { type: 'string', required: true } } } }
+    });
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save') {
+        ctx.value = JSON.stringify(ctx.value);
+      }
+      await next();
+    });
+
+    await storage.save('user', { name: 'Ada' });
+    expect(await adapter.load('user')).toBe('{"name":"Ada"}');
+    await expect(storage.save('user', { name: 42 })).rejects.toThrow('Validation failed');
+  });
+
+  it('should let middlewares change the save options', async () => {
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save' && ctx.key.startsWith('session:')) {
+        ctx.options = { ...ctx.options, ttl: 0 };
+      }
+      await next();
+    });
+
+    await storage.save('session:1', { user: 'ada' });
+    expect(await storage.load('session:1')).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+// tests/migrations.test.ts
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { MigrationRunner, SCHEMA_VERSION_KEY, type Migration } from '../src/utils/migrations.js';
+import { PersistentChatMemory } from '../src/utils/memory.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+// v1: split `name` into first/last; v2: drop users without email
+const userMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Split name',
+    keys: 'user:*',
+    up: (user: any) => {
+      const [first, ...rest] = user.name.split(' ');
+      return { first, last: rest.join(' '), email: user.email };
+    },
+    down: (user: any) => ({ name: `${user.first} ${user.last}`.trim(), email: user.email })
+  },
+  {
+    version: 2,
+    description: 'Remove users without email',
+    keys: 'user:*',
+    up: (user: any) => (user.email ? undefined : null)
+  }
+];
+
+describe('MigrationRunner', () => {
+  let adapter: InMemoryAdapter<any>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter<any>();
+    await adapter.save('user:1', { name: 'Ada Lovelace', email: 'ada@example.com' });
+    await adapter.save('user:2', { name: 'Anonymous' });
+    await adapter.save('settings', { theme: 'dark' });
+  });
+
+  it('should apply pending migrations in order and store the version', async () => {
+    const runner = new MigrationRunner(adapter, [...userMigrations].reverse());
+
+    const result = await runner.migrate();
+
+    expect(result.applied.map(step => step.version)).toEqual([1, 2]);
+    expect(await adapter.load('user:1')).toEqual({ first: 'Ada', last: 'Lovelace', email: 'ada@example.com' });
+    expect(await adapter.load('user:2')).toBeNull();
+    expect(await adapter.load('settings')).toEqual({ theme: 'dark' });
+    expect(await runner.getVersion()).toBe(2);
+    expect(await runner.pending()).toEqual([]);
+    expect((await runner.migrate()).applied).toEqual([]);
+  });
+
+  it('should report the changes of a dry run without writing', async () => {
+    const runner = new MigrationRunner(adapter, userMigrations);
+
+    const result = await runner.migrate({ dryRun: true });
+
+    expect(result.changes).toEqual([
+      { key: 'user:1', before: { name: 'Ada Lovelace', email: 'ada@example.com' }, after: { first: 'Ada', last: 'Lovelace', email: 'ada@example.com' } },
+      { key: 'user:2', before: { name: 'Anonymous' }, after: null }
+    ]);
+    expect(await adapter.load('user:1')).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(await runner.getVersion()).toBe(0);
+  });
+
+  it('should roll back with down functions', async () => {
+    const runner = new MigrationRunner(adapter, userMigrations);
+    await runner.migrate({ to: 1 });
+
+    const result = await runner.rollback();
+
+    expect(result).toMatchObject({ from: 1, to: 0, applied: [{ version: 1, direction: 'down' }] });
+    expect(await adapter.load('user:1')).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(await runner.getVersion()).toBe(0);
+
+    await runner.migrate();
+    await expect(runner.rollback()).rejects.toThrow('Migration 2 cannot be rolled back: it has no down function');
+  });
+
+  it('should leave the data untouched when a migration throws', async () => {
+    const runner = new MigrationRunner(adapter, [
+      userMigrations[0],
+      { version: 2, up: () => { throw new Error('boom'); } }
+    ]);
+
+    await expect(runner.migrate()).rejects.toThrow('boom');
+    expect(await adapter.load('user:1')).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(await runner.getVersion()).toBe(0);
+  });
+
+  it('should reject invalid migration lists and targets', async () => {
+    expect(() => new MigrationRunner(adapter, [userMigrations[0], userMigrations[0]])).toThrow('Duplicate migration version 1');
+    expect(() => new MigrationRunner(adapter, [{ version: 0, up: () => undefined }])).toThrow('positive integers');
+    await expect(new MigrationRunner(adapter, userMigrations).migrate({ to: 7 })).rejects.toThrow('Unknown schema version 7');
+  });
+});
+
+describe('DataStorage migrations', () => {
+  let adapter: InMemoryAdapter<any>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter<any>();
+    await adapter.save('user:1', { name: 'Ada Lovelace', email: 'ada@example.com' });
+  });
+
+  it('should migrate on first access and hide the version key', async () => {
+    const storage = new DataStorage<any>(adapter, undefined, { migration: { migrations: userMigrations } });
+
+    expect(await storage.load('user:1')).toEqual({ first: 'Ada', last: 'Lovelace', email: 'ada@example.com' });
+    expect(await storage.getSchemaVersion()).toBe(2);
+    expect(Object.keys(await storage.getAll())).toEqual(['user:1']);
+    expect((await storage.list()).items.map(item => item.key)).toEqual(['user:1']);
+    expect(await storage.count()).toBe(1);
+    expect(await adapter.load(SCHEMA_VERSION_KEY)).toMatchObject({ version: 2 });
+  });
+
+  it('should run the migrations only once for concurrent first accesses', async () => {
+    let runs = 0;
+    const storage = new DataStorage<any>(adapter, undefined, {
+      migration: { migrations: [{ version: 1, up: () => { runs++; return undefined; } }] }
+    });
+
+    await Promise.all([storage.load('user:1'), storage.getAll(), storage.save('user:2', { name: 'Grace' })]);
+
+    expect(runs).toBe(1);
+    expect(await storage.load('user:2')).toEqual({ name: 'Grace' });
+  });
+
+  it('should keep the schema version across clear()', async () => {
+    const storage = new DataStorage<any>(adapter, undefined, { migration: { migrations: userMigrations } });
+    await storage.clear();
+    await storage.save('user:9', { first: 'Grace', last: 'Hopper', email: 'grace@example.com' });
+
+    // A new instance must not migrate data that is already in the new format
+    const reopened = new DataStorage<any>(adapter, undefined, { migration: { migrations: userMigrations } });
+    expect(await reopened.load('user:9')).toEqual({ first: 'Grace', last: 'Hopper', email: 'grace@example.com' });
+  });
+
+  it('should support dry runs and rollback when auto migration is off', async () => {
+    const storage = new DataStorage<any>(adapter, undefined, { migration: { migrations: userMigrations, auto: false } });
+
+    const preview = await storage.migrate({ dryRun: true });
+    expect(preview.changes).toHaveLength(1);
+    expect(await storage.load('user:1')).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+
+    await storage.migrate({ to: 1 });
+    expect((await storage.load('user:1')).first).toBe('Ada');
+    await storage.rollback();
+    expect(await storage.load('user:1')).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+  });
+
+  it('should keep record expiration while migrating', async () => {
+    const storage = new DataStorage<any>(adapter, undefined, { migration: { migrations: [], auto: false } });
+    await storage.save('session', { user: 'ada' }, { ttl: 60_000 });
+    const before = await storage.loadWithMeta('session');
+
+    const migrated = new DataStorage<any>(adapter, undefined, {
+      migration: { migrations: [{ version: 1, keys: 'session', up: (session: any) => ({ ...session, v: 2 }) }] }
+    });
+
+    expect(await migrated.loadWithMeta('session')).toMatchObject({ value: { user: 'ada', v: 2 }, expiresAt: before!.expiresAt });
+  });
+
+  it('should throw when no migrations are configured', async () => {
+    await expect(new DataStorage<any>(adapter).migrate()).rejects.toThrow('No migrations configured');
+  });
+});
+
+describe('Migrations on persistent adapters', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should migrate an existing JSON file in place', async () => {
+    const file = path.join(tempDir, 'users.json');
+    await fs.writeFile(file, JSON.stringify({ 'user:1': { name: 'Ada Lovelace', email: 'ada@example.com' } }));
+
+    const storage = new DataStorage<any>(new JSONFileAdapter<any>(file), undefined, { migration: { migrations: userMigrations } });
+    await storage.getAll();
+
+    const contents = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(contents['user:1']).toEqual({ first: 'Ada', last: 'Lovelace', email: 'ada@example.com' });
+    expect(contents[SCHEMA_VERSION_KEY].version).toBe(2);
+  });
+
+  it('should migrate the stored messages of PersistentChatMemory', async () => {
+    const adapter = new InMemoryAdapter<any>();
+    await adapter.save('chat-memory', [
+      { role: 'user', content: 'Hi', timestamp: 0, extra: true },
+      { role: 'system', content: 'dropped' },
+      { role: 'assistant', content: 'Hello' }
+    ]);
+
+    const memory = new PersistentChatMemory(adapter, {
+      migrations: [{ version: 2, up: (messages: any) => messages.map((msg: any) => ({ ...msg, content: msg.content.toUpperCase() })) }]
+    });
+    const messages = await memory.getMessagesAsync();
+
+    expect(messages.map(msg => [msg.role, msg.content])).toEqual([['user', 'HI'], ['assistant', 'HELLO']]);
+    expect(await adapter.load('chat-memory')).toEqual([
+      { role: 'user', content: 'HI', timestamp: new Date(0).toISOString() },
+      { role: 'assistant', content: 'HELLO' }
+    ]);
+  });
+
+  it('should keep the messages added while PersistentChatMemory migrates', async () => {
+    const adapter = new InMemoryAdapter<any>();
+    await adapter.save('chat-memory', [{ role: 'user', content: 'Hi', extra: true }]);
+
+    const memory = new PersistentChatMemory(adapter);
+    memory.addAIMessage('Hello');
+    await memory.saveMessages();
+
+    expect((await memory.getMessagesAsync()).map(msg => msg.content)).toEqual(['Hi', 'Hello']);
+    expect(await adapter.load('chat-memory')).toMatchObject([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' }
+    ]);
+    expect((await adapter.load('chat-memory'))[0]).not.toHaveProperty('extra');
+  });
+});
@@ -0,0 +1,167 @@
+// tests/namespace.test.ts
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { PrefixedAdapter } from '../src/adapters/prefixed.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { Emitter } from '../src/utils/Emitter.js';
+import { schemas } from '../src/utils/validation.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('PrefixedAdapter', () => {
+  let inner: InMemoryAdapter<string>;
+  let adapter: PrefixedAdapter<string>;
+
+  beforeEach(async () => {
+    inner = new InMemoryAdapter<string>();
+    adapter = new PrefixedAdapter(inner, 'users:');
+    await inner.save('users:1', 'alice');
+    await inner.save('users:2', 'bob');
+    await inner.save('sessions:1', 'token');
+  });
+
+  it('should only expose keys under the prefix', async () => {
+    expect(await adapter.getAll()).toEqual({ '1': 'alice', '2': 'bob' });
+    expect(await adapter.load('1')).toBe('alice');
+    expect(await adapter.has('2')).toBe(true);
+    expect(await adapter.load('sessions:1')).toBeNull();
+  });
+
+  it('should translate list cursors', async () => {
+    const first = await adapter.list({ limit: 1 });
+    expect(first).toEqual({ items: [{ key: '1', value: 'alice' }], cursor: '1' });
+
+    const second = await adapter.list({ limit: 1, after: first.cursor! });
+    expect(second).toEqual({ items: [{ key: '2', value: 'bob' }], cursor: null });
+  });
+
+  it('should clear only prefixed keys', async () => {
+    await adapter.clear();
+    expect(await inner.getAll()).toEqual({ 'sessions:1': 'token' });
+  });
+});
+
+describe('DataStorage.namespace', () => {
+  let adapter: InMemoryAdapter<any>;
+  let emitter: Emitter;
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter<any>();
+    emitter = new Emitter();
+    storage = new DataStorage<any>(adapter, emitter);
+  });
+
+  it('should scope save, load, delete and getAll to the namespace', async () => {
+    const users = storage.namespace('users');
+    const sessions = storage.namespace('sessions');
+
+    await users.save('1', { name: 'Alice' });
+    await sessions.save('1', { token: 'abc' });
+
+    expect(await users.load('1')).toEqual({ name: 'Alice' });
+    expect(await sessions.load('1')).toEqual({ token: 'abc' });
+    expect(await users.getAll()).toEqual({ '1': { name: 'Alice' } });
+    expect(await storage.getAll()).toEqual({
+      'users:1': { name: 'Alice' },
+      'sessions:1': { token: 'abc' }
+    });
+
+    await users.delete('1');
+    expect(await storage.load('users:1')).toBeNull();
+    expect(await storage.load('sessions:1')).toEqual({ token: 'abc' });
+  });
+
+  it('should clear only the namespace keys', async () => {
+    const users = storage.namespace('users');
+    await storage.save('settings', { theme: 'dark' });
+    await users.save('1', 'alice');
+    await users.save('2', 'bob');
+
+    await users.clear();
+
+    expect(await storage.getAll()).toEqual({ settings: { theme: 'dark' } });
+  });
+
+  it('should support nested namespaces and custom separators', async () => {
+    const admins = storage.namespace('users').namespace('admins');
+    const flat = storage.namespace('cache', { separator: '/' });
+
+    await admins.save('1', 'root');
+    await flat.save('home', '<html>');
+
+    expect(await storage.getAll()).toEqual({ 'users:admins:1': 'root', 'cache/home': '<html>' });
+    expect(await storage.namespace('users').getAll()).toEqual({ 'admins:1': 'root' });
+  });
+
+  it('should have its own events that bubble to the parent', async () => {
+    const users = storage.namespace('users');
+    const admins = users.namespace('admins');
+    const childChanges: unknown[] = [];
+    const parentEvents: Array<[string, unknown]> = [];
+    const parentChanges: unknown[] = [];
+
+    users.on('change', data => childChanges.push(data));
+    storage.on('change', data => parentChanges.push(data));
+    emitter.onAny((event, data) => parentEvents.push([event, data]));
+
+    await users.save('1', 'alice');
+    await admins.save('2', 'root');
+
+    expect(childChanges).toEqual([{ '1': 'alice' }]);
+    expect(parentChanges).toHaveLength(0);
+    expect(parentEvents.map(([event]) => event)).toEqual(['users:change', 'users:admins:change']);
+    expect(parentEvents[1][1]).toEqual({ '2': 'root' });
+  });
+
+  it('should reject unique indexes, which namespace writes would bypass', async () => {
+    await storage.createIndex('email', user => user.email, { unique: true });
+    expect(() => storage.namespace('users')).toThrow('unique index "email"');
+
+    const other = new DataStorage<any>(new InMemoryAdapter<any>());
+    other.namespace('users');
+    await expect(other.createIndex('email', user => user.email, { unique: true })).rejects.toThrow('namespaces');
+    await other.createIndex('name', user => user.name);
+  });
+
+  it('should inherit the emit mode and validation options', async () => {
+    storage = new DataStorage<any>(adapter, emitter, { validation: { schema: schemas.user } });
+    storage.setEmitMode('info');
+    const users = storage.namespace('users');
+    const saved: unknown[] = [];
+    users.on('save', event => saved.push(event));
+
+    await expect(users.save('1', { id: 1 })).rejects.toThrow('Validation failed');
+    await users.save('2', { id: '2', email: 'bob@example.com', name: 'Bob' });
+
+    expect(saved).toEqual([{ key: '2', data: { id: '2', email: 'bob@example.com', name: 'Bob' } }]);
+
+    const loose = storage.namespace('loose', { validation: undefined });
+    await loose.save('1', { anything: true });
+    expect(await loose.load('1')).toEqual({ anything: true });
+  });
+});
+
+describe('Namespaces over a JSON file', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'namespace-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep several namespaces in one file', async () => {
+    const file = path.join(tempDir, 'app.json');
+    const storage = new DataStorage<any>(new JSONFileAdapter<any>(file));
+
+    await storage.namespace('users').save('1', { name: 'Alice' });
+    await storage.namespace('settings').save('theme', 'dark');
+    await storage.namespace('users').clear();
+
+    expect(JSON.parse(await fs.readFile(file, 'utf-8'))).toEqual({ 'settings:theme': 'dark' });
+  });
+});
@@ -0,0 +1,169 @@
+// tests/query.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { matchesQuery, executeQuery, getPath } from '../src/utils/query.js';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import type { StorageAdapter, StorageEntry } from '../src/core/types.js';
+
+interface User {
+  name: string;
+  age: number;
+  email?: string;
+  tags: string[];
+  profile: { city: string };
+}
+
+const users: Record<string, User> = {
+  'user-1': { name: 'Alice', age: 31, email: 'alice@example.com', tags: ['admin', 'dev'], profile: { city: 'Madrid' } },
+  'user-2': { name: 'Bob', age: 25, tags: ['dev'], profile: { city: 'Lima' } },
+  'user-3': { name: 'Carol', age: 42, email: 'carol@example.com', tags: [], profile: { city: 'Madrid' } },
+  'user-4': { name: 'dave', age: 25, tags: ['ops'], profile: { city: 'Quito' } }
+};
+
+describe('matchesQuery', () => {
+  it('should match literal values and nested paths', () => {
+    expect(matchesQuery(users['user-1'], { name: 'Alice' })).toBe(true);
+    expect(matchesQuery(users['user-1'], { 'profile.city': 'Madrid' })).toBe(true);
+    expect(matchesQuery(users['user-2'], { 'profile.city': 'Madrid' })).toBe(false);
+  });
+
+  it('should support comparison operators', () => {
+    expect(matchesQuery(users['user-1'], { age: { $gt: 30, $lte: 31 } })).toBe(true);
+    expect(matchesQuery(users['user-2'], { age: { $gte: 30 } })).toBe(false);
+    expect(matchesQuery(users['user-2'], { age: { $ne: 25 } })).toBe(false);
+    expect(matchesQuery(users['user-2'], { name: { $in: ['Bob', 'Carol'] } })).toBe(true);
+    expect(matchesQuery(users['user-2'], { name: { $nin: ['Bob'] } })).toBe(false);
+  });
+
+  it('should support $exists, $regex and $not', () => {
+    expect(matchesQuery(users['user-2'], { email: { $exists: false } })).toBe(true);
+    expect(matchesQuery(users['user-4'], { name: { $regex: '^D', $options: 'i' } })).toBe(true);
+    expect(matchesQuery(users['user-4'], { name: /^D/ })).toBe(false);
+    expect(matchesQuery(users['user-1'], { age: { $not: { $lt: 30 } } })).toBe(true);
+  });
+
+  it('should give the same answer on every call with global or sticky regexes', () => {
+    const global = /i/g;
+    const sticky = /d/y;
+    for (let i = 0; i < 3; i++) {
+      expect(matchesQuery(users['user-1'], { name: global })).toBe(true);
+      expect(matchesQuery(users['user-4'], { name: { $regex: sticky } })).toBe(true);
+    }
+    expect(executeQuery(Object.entries(users).map(([key, value]) => ({ key, value })), { tags: { $regex: 'dev', $options: 'g' } })
+      .map(entry => entry.key)).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should match array fields by element', () => {
+    expect(matchesQuery(users['user-1'], { tags: 'admin' })).toBe(true);
+    expect(matchesQuery(users['user-2'], { tags: { $in: ['admin', 'ops'] } })).toBe(false);
+    expect(matchesQuery(users['user-3'], { tags: { $size: 0 } })).toBe(true);
+    expect(matchesQuery(users['user-1'], { 'tags.1': 'dev' })).toBe(true);
+  });
+
+  it('should support logical operators and the record key', () => {
+    const query = { $or: [{ age: { $lt: 26 } }, { 'profile.city': 'Madrid' }], $nor: [{ name: 'dave' }] };
+    expect(matchesQuery(users['user-1'], query)).toBe(true);
+    expect(matchesQuery(users['user-4'], query)).toBe(false);
+    expect(matchesQuery(users['user-3'], { $key: { $regex: '-3$' } }, 'user-3')).toBe(true);
+  });
+
+  it('should throw on unknown operators', () => {
+    expect(() => matchesQuery(users['user-1'], { age: { $foo: 1 } })).toThrow('Unknown query operator: $foo');
+  });
+
+  it('should resolve paths safely', () => {
+    expect(getPath(users['user-1'], 'profile.city')).toBe('Madrid');
+    expect(getPath(users['user-1'], 'profile.missing.deep')).toBeUndefined();
+  });
+});
+
+describe('executeQuery', () => {
+  const entries: StorageEntry<User>[] = Object.entries(users).map(([key, value]) => ({ key, value }));
+
+  it('should sort by multiple fields', () => {
+    const result = executeQuery(entries, {}, { sort: { age: 1, name: -1 } });
+    expect(result.map(entry => entry.key)).toEqual(['user-4', 'user-2', 'user-1', 'user-3']);
+  });
+
+  it('should apply offset and limit after sorting', () => {
+    const result = executeQuery(entries, {}, { sort: { age: 'desc' }, offset: 1, limit: 2 });
+    expect(result.map(entry => entry.key)).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should accept predicates and comparator functions', () => {
+    const result = executeQuery(
+      entries,
+      (user, key) => user.tags.includes('dev') && key !== 'user-9',
+      { sort: (a, b) => a.value.name.localeCompare(b.value.name) }
+    );
+    expect(result.map(entry => entry.value.name)).toEqual(['Alice', 'Bob']);
+  });
+});
+
+describe('DataStorage queries', () => {
+  let storage: DataStorage<User>;
+
+  beforeEach(async () => {
+    storage = new DataStorage<User>(new InMemoryAdapter<User>());
+    for (const [key, user] of Object.entries(users)) {
+      await storage.save(key, user);
+    }
+  });
+
+  it('should find records with a query object', async () => {
+    const result = await storage.find({ 'profile.city': 'Madrid' }, { sort: { age: -1 } });
+    expect(result.map(entry => entry.key)).toEqual(['user-3', 'user-1']);
+  });
+
+  it('should find a single record', async () => {
+    const result = await storage.findOne({ email: { $exists: true } }, { sort: { age: 1 } });
+    expect(result).toEqual({ key: 'user-1', value: users['user-1'] });
+    expect(await storage.findOne({ name: 'Nobody' })).toBeNull();
+  });
+
+  it('should count matching records', async () => {
+    expect(await storage.count()).toBe(4);
+    expect(await storage.count({ age: 25 })).toBe(2);
+  });
+
+  it('should delegate to adapters that implement query', async () => {
+    const adapter = new InMemoryAdapter<User>() as StorageAdapter<User>;
+    const calls: unknown[] = [];
+    adapter.query = async (query, options) => {
+      calls.push([query, options]);
+      return [{ key: 'native', value: users['user-1'] }];
+    };
+
+    const delegated = new DataStorage<User>(adapter);
+    const result = await delegated.find({ age: 31 }, { limit: 5 });
+
+    expect(result).toEqual([{ key: 'native', value: users['user-1'] }]);
+    expect(calls).toEqual([[{ age: 31 }, { limit: 5 }]]);
+  });
+
+  it('should skip expired records and unwrap envelopes returned by the adapter', async () => {
+    const adapter = new InMemoryAdapter<User>() as StorageAdapter<User>;
+    const delegated = new DataStorage<User>(adapter);
+    await delegated.save('user-1', users['user-1'], { ttl: 60000 });
+    await delegated.save('user-2', users['user-2'], { ttl: 0 });
+    adapter.query = async () => Object.entries(await adapter.getAll!()).map(([key, value]) => ({ key, value }));
+
+    expect(await delegated.find({})).toEqual([{ key: 'user-1', value: users['user-1'] }]);
+  });
+
+  it('should evaluate the query in memory when middlewares are registered', async () => {
+    const adapter = new InMemoryAdapter<User>() as StorageAdapter<User>;
+    adapter.query = async () => [{ key: 'native', value: users['user-1'] }];
+    const delegated = new DataStorage<User>(adapter);
+    await delegated.save('user-2', users['user-2']);
+    delegated.use(async (ctx, next) => {
+      await next();
+      if (ctx.operation === 'getAll') {
+        ctx.result = Object.fromEntries(
+          Object.entries(ctx.result).map(([key, user]) => [key, { ...user, name: user.name.toUpperCase() }])
+        );
+      }
+    });
+
+    expect(await delegated.find({ name: 'BOB' })).toEqual([{ key: 'user-2', value: { ...users['user-2'], name: 'BOB' } }]);
+  });
+});
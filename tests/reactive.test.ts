@@ -0,0 +1,118 @@
+// tests/reactive.test.ts
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+
+describe('StoreSelection', () => {
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+    await storage.save('todo:1', { title: 'Write tests', done: false });
+    await storage.save('todo:2', { title: 'Review PR', done: true });
+  });
+
+  it('should follow a key like a Svelte store', async () => {
+    const selection = storage.select('todo:1');
+    const values: unknown[] = [];
+
+    const unsubscribe = selection.subscribe(value => values.push(value));
+    expect(values).toEqual([undefined]);
+    expect(selection.status).toBe('loading');
+
+    await selection.ready();
+    await storage.patch('todo:1', { done: true });
+    await storage.save('todo:2', { title: 'Other key' });
+    await storage.delete('todo:1');
+    unsubscribe();
+    await storage.save('todo:1', { title: 'Not seen' });
+
+    expect(values).toEqual([
+      undefined,
+      { title: 'Write tests', done: false },
+      { title: 'Write tests', done: true },
+      null
+    ]);
+  });
+
+  it('should keep the snapshot identity until the value really changes', async () => {
+    const selection = storage.select('todo:1');
+    const onStoreChange = jest.fn();
+    selection.subscribe(onStoreChange);
+    await selection.ready();
+    onStoreChange.mockClear();
+
+    const snapshot = selection.getSnapshot();
+    await storage.save('todo:1', { title: 'Write tests', done: false });
+
+    expect(selection.getSnapshot()).toBe(snapshot);
+    expect(onStoreChange).not.toHaveBeenCalled();
+  });
+
+  it('should only run the selector when the state changes', async () => {
+    const selector = jest.fn((state: Record<string, any>) => Object.values(state).filter(todo => !todo.done).length);
+    const selection = storage.select(selector, { initial: 0 });
+    const counts: unknown[] = [];
+
+    selection.subscribe(count => counts.push(count));
+    await selection.ready();
+    selection.getSnapshot();
+    selection.getSnapshot();
+    expect(selector).toHaveBeenCalledTimes(1);
+
+    await storage.save('todo:3', { title: 'Ship', done: false });
+    // Same count: the selector runs but subscribers are not called
+    await storage.patch('todo:2', { title: 'Review PR again' });
+
+    expect(selector).toHaveBeenCalledTimes(3);
+    expect(counts).toEqual([0, 1, 2]);
+  });
+
+  it('should reflect the writes made right after subscribing', async () => {
+    const selection = storage.select(state => Object.keys(state).sort());
+    selection.subscribe(() => undefined);
+
+    await storage.delete('todo:2');
+
+    expect(await selection.ready()).toEqual(['todo:1']);
+    expect(selection.getSnapshot()).toEqual(['todo:1']);
+  });
+
+  it('should expose the load error and the server snapshot', async () => {
+    jest.spyOn(adapter, 'load').mockRejectedValue(new Error('offline'));
+    const selection = storage.select('todo:1', { initial: null });
+
+    await expect(selection.ready()).rejects.toThrow('offline');
+    expect(selection.status).toBe('error');
+    expect(selection.error).toEqual(new Error('offline'));
+    expect(selection.getSnapshot()).toBeNull();
+    expect(selection.getServerSnapshot()).toBeNull();
+  });
+
+  it('should drop expired keys', async () => {
+    const selection = storage.select(state => Object.keys(state));
+    selection.subscribe(() => undefined);
+    await selection.ready();
+
+    await storage.save('session', { id: 1 }, { ttl: 0 });
+    expect(selection.getSnapshot()).toEqual(['todo:1', 'todo:2', 'session']);
+    await storage.load('session');
+
+    expect(selection.getSnapshot()).toEqual(['todo:1', 'todo:2']);
+  });
+
+  it('should drop expired keys without storage events', async () => {
+    storage.setEmitMode('none');
+    await storage.save('session', { id: 1 }, { ttl: 0 });
+    const selection = storage.select('session', { initial: null });
+    selection.subscribe(() => undefined);
+    await selection.ready();
+
+    await storage.save('session', { id: 2 }, { ttl: 0 });
+    expect(selection.getSnapshot()).toEqual({ id: 2 });
+    await storage.sweepExpired();
+
+    expect(selection.getSnapshot()).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+// tests/replicated.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { ReplicatedAdapter, type ReplicationFailureEvent, type ReplicationLagEvent } from '../src/adapters/replicated.js';
+import { ReplicationError } from '../src/core/errors.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+// Resolves a save only when release() is called, to observe async replication
+function gate(adapter: InMemoryAdapter<any>) {
+  let release!: () => void;
+  const opened = new Promise<void>(resolve => (release = resolve));
+  const save = adapter.save.bind(adapter);
+  jest.spyOn(adapter, 'save').mockImplementation(async (key, data) => {
+    await opened;
+    await save(key, data);
+  });
+  return release;
+}
+
+describe('ReplicatedAdapter', () => {
+  let primary: InMemoryAdapter<any>;
+  let first: InMemoryAdapter<any>;
+  let second: InMemoryAdapter<any>;
+
+  beforeEach(() => {
+    primary = new InMemoryAdapter<any>();
+    first = new InMemoryAdapter<any>();
+    second = new InMemoryAdapter<any>();
+  });
+
+  it('should mirror every write to the replicas in sync mode', async () => {
+    const replicated = new ReplicatedAdapter(primary, [first, second]);
+
+    await replicated.save('a', { n: 1 });
+    await replicated.save('b', { n: 2 });
+    await replicated.delete('a');
+
+    for (const adapter of [primary, first, second]) {
+      expect(await adapter.getAll()).toEqual({ b: { n: 2 } });
+    }
+  });
+
+  it('should fail writes below the quorum and report the failures', async () => {
+    const failures: ReplicationFailureEvent[] = [];
+    const replicated = new ReplicatedAdapter(primary, [first, second], { quorum: 2 });
+    replicated.on('replication:failure', event => failures.push(event));
+    jest.spyOn(first, 'save').mockRejectedValue(new Error('disk gone'));
+
+    // One replica is enough for a quorum of two
+    await replicated.save('a', { n: 1 });
+    expect(failures).toMatchObject([{ replica: 0, operation: 'save', key: 'a' }]);
+
+    jest.spyOn(second, 'save').mockRejectedValue(new Error('disk gone too'));
+    const attempt = replicated.save('b', { n: 2 });
+    await expect(attempt).rejects.toBeInstanceOf(ReplicationError);
+    await expect(replicated.save('b', { n: 2 })).rejects.toMatchObject({ acknowledged: 1, required: 2 });
+    expect(replicated.getStatus().map(status => status.divergent)).toEqual([true, true]);
+  });
+
+  it('should return once the quorum is reached in async mode', async () => {
+    const lags: ReplicationLagEvent[] = [];
+    const replicated = new ReplicatedAdapter(primary, [first], { mode: 'async' });
+    replicated.on('replication:lag', event => lags.push(event));
+    const release = gate(first);
+
+    await replicated.save('a', { n: 1 });
+    await replicated.save('a', { n: 2 });
+    expect(await primary.load('a')).toEqual({ n: 2 });
+    expect(await first.load('a')).toBeNull();
+    expect(replicated.getStatus()[0].pending).toBe(2);
+
+    release();
+    await replicated.flush();
+    // Queued writes reach the replica in order
+    expect(await first.load('a')).toEqual({ n: 2 });
+    expect(lags.map(event => event.pending)).toEqual([1, 0]);
+  });
+
+  it('should fail over reads to a replica when the primary throws', async () => {
+    const replicated = new ReplicatedAdapter(primary, [first, second]);
+    await replicated.save('a', { n: 1 });
+    jest.spyOn(primary, 'load').mockRejectedValue(new Error('primary down'));
+    jest.spyOn(primary, 'getAll').mockRejectedValue(new Error('primary down'));
+
+    expect(await replicated.load('a')).toEqual({ n: 1 });
+    expect(await replicated.getAll()).toEqual({ a: { n: 1 } });
+
+    jest.spyOn(first, 'load').mockRejectedValue(new Error('replica down'));
+    jest.spyOn(second, 'load').mockRejectedValue(new Error('replica down'));
+    await expect(replicated.load('a')).rejects.toThrow('primary down');
+  });
+
+  it('should reject writes the primary refuses without touching the replicas', async () => {
+    const replicated = new ReplicatedAdapter(primary, [first]);
+    jest.spyOn(primary, 'save').mockRejectedValueOnce(new Error('read-only'));
+
+    await expect(replicated.save('a', { n: 1 })).rejects.toThrow('read-only');
+    expect(await first.load('a')).toBeNull();
+  });
+
+  it('should repair divergent replicas', async () => {
+    const repairs: unknown[] = [];
+    const replicated = new ReplicatedAdapter(primary, [first, second], { quorum: 1 });
+    replicated.on('replication:repair', report => repairs.push(report));
+    await replicated.save('a', { n: 1 });
+    await first.save('stale', { n: 0 });
+    jest.spyOn(second, 'save').mockRejectedValueOnce(new Error('timeout'));
+    await replicated.save('b', { n: 2 });
+
+    const reports = await replicated.repair();
+
+    expect(reports).toEqual([
+      { replica: 0, saved: [], deleted: ['stale'] },
+      { replica: 1, saved: ['b'], deleted: [] }
+    ]);
+    expect(repairs).toEqual(reports);
+    expect(await first.getAll()).toEqual(await primary.getAll());
+    expect(await second.getAll()).toEqual(await primary.getAll());
+    expect(replicated.getStatus().map(status => status.divergent)).toEqual([false, false]);
+  });
+
+  it('should keep the writes made while a repair runs', async () => {
+    const replicated = new ReplicatedAdapter(primary, [first, second]);
+    await replicated.save('a', { n: 1 });
+    await first.save('stale', { n: 0 });
+
+    // Hold the repair of the first replica until a new write reaches the primary
+    let release!: () => void;
+    const opened = new Promise<void>(resolve => (release = resolve));
+    let started!: () => void;
+    const repairing = new Promise<void>(resolve => (started = resolve));
+    const remove = first.delete.bind(first);
+    jest.spyOn(first, 'delete').mockImplementation(async key => {
+      started();
+      await opened;
+      await remove(key);
+    });
+
+    const repair = replicated.repair();
+    await repairing;
+    const saving = replicated.save('b', { n: 2 });
+    release();
+    await Promise.all([repair, saving]);
+
+    expect(await first.getAll()).toEqual({ a: { n: 1 }, b: { n: 2 } });
+    expect(await second.getAll()).toEqual({ a: { n: 1 }, b: { n: 2 } });
+  });
+
+  it('should reject an impossible quorum', () => {
+    expect(() => new ReplicatedAdapter(primary, [first], { quorum: 3 })).toThrow('Invalid quorum 3');
+  });
+});
+
+describe('ReplicatedAdapter over JSON files', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'replicated-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep a second file in sync with the primary file', async () => {
+    const primaryFile = path.join(tempDir, 'primary.json');
+    const replicaFile = path.join(tempDir, 'replica.json');
+    const storage = new DataStorage<any>(
+      new ReplicatedAdapter(new JSONFileAdapter<any>(primaryFile), [new JSONFileAdapter<any>(replicaFile)])
+    );
+
+    await storage.save('settings', { theme: 'dark' });
+    await storage.update('settings', settings => ({ ...settings, lang: 'es' }));
+
+    const contents = await fs.readFile(replicaFile, 'utf-8');
+    expect(JSON.parse(contents)).toEqual(JSON.parse(await fs.readFile(primaryFile, 'utf-8')));
+    expect(JSON.parse(contents).settings).toEqual({ theme: 'dark', lang: 'es' });
+  });
+});
@@ -0,0 +1,221 @@
+// tests/snapshots.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type Mutation, type RestoreEvent } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { SnapshotStore, diffSnapshotData } from '../src/utils/snapshots.js';
+import { createHistory } from '../src/utils/history.js';
+import type { StorageAdapter } from '../src/core/types.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('diffSnapshotData', () => {
+  it('should report added, removed and changed keys', () => {
+    const diff = diffSnapshotData<any>(
+      { a: 1, b: { x: 1 }, c: 'gone' },
+      { a: 1, b: { x: 2 }, d: 'new' }
+    );
+
+    expect(diff.added).toEqual({ d: 'new' });
+    expect(diff.removed).toEqual({ c: 'gone' });
+    expect(diff.changed).toEqual({
+      b: { snapshot: { x: 1 }, current: { x: 2 }, operations: [{ op: 'replace', path: '/x', value: 2 }] }
+    });
+  });
+});
+
+describe('DataStorage snapshots', () => {
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+  });
+
+  it('should capture and list snapshots', async () => {
+    await storage.save('theme', 'dark');
+    await storage.save('layout', { sidebar: true });
+
+    const first = await storage.snapshot('initial');
+    await storage.save('theme', 'light');
+    const second = await storage.snapshot();
+
+    expect(first).toMatchObject({ label: 'initial', keyCount: 2, compressed: false });
+    expect((await storage.listSnapshots()).map(info => info.id)).toEqual([first.id, second.id]);
+
+    await storage.deleteSnapshot(first.id);
+    expect((await storage.listSnapshots()).map(info => info.id)).toEqual([second.id]);
+  });
+
+  it('should keep snapshots independent from later changes', async () => {
+    await storage.save('layout', { columns: 2 });
+    const info = await storage.snapshot();
+
+    await storage.patch('layout', { columns: 3 });
+    await storage.save('extra', true);
+
+    const diff = await storage.diffSnapshot(info.id);
+    expect(diff.added).toEqual({ extra: true });
+    expect(diff.changed.layout.snapshot).toEqual({ columns: 2 });
+  });
+
+  it('should restore the exact contents and emit a single event', async () => {
+    await storage.save('a', 1);
+    await storage.save('b', 2);
+    const info = await storage.snapshot('before');
+
+    await storage.save('a', 10);
+    await storage.delete('b');
+    await storage.save('c', 3);
+
+    const events: RestoreEvent<any>[] = [];
+    const changes: unknown[] = [];
+    storage.on('restore', event => events.push(event));
+    storage.on('change', data => changes.push(data));
+
+    expect(await storage.restore(info.id)).toEqual(info);
+    expect(await storage.getAll()).toEqual({ a: 1, b: 2 });
+    expect(events).toEqual([{ snapshot: info, data: { a: 1, b: 2 } }]);
+    expect(changes).toHaveLength(0);
+  });
+
+  it('should report the restore as one mutation that history can undo', async () => {
+    const history = createHistory(storage);
+    await storage.save('a', 1);
+    const info = await storage.snapshot();
+    await storage.save('a', 2);
+    await storage.save('b', 2);
+
+    const mutations: Mutation<any>[] = [];
+    storage.onMutation(mutation => mutations.push(mutation));
+    await storage.restore(info.id, { origin: 'admin' });
+
+    expect(mutations).toHaveLength(1);
+    expect(mutations[0]).toMatchObject({
+      type: 'restore',
+      origin: 'admin',
+      changes: [{ key: 'a', previous: 2, current: 1 }, { key: 'b', previous: 2, current: null }]
+    });
+
+    await history.undo();
+    expect(await storage.getAll()).toEqual({ a: 2, b: 2 });
+  });
+
+  it('should run restored values through the save middlewares', async () => {
+    storage.use(async (ctx, next) => {
+      if (ctx.operation === 'save') {
+        ctx.value = { stored: ctx.value };
+      }
+      await next();
+      if (ctx.operation === 'getAll') {
+        for (const [key, value] of Object.entries(ctx.result)) {
+          ctx.result[key] = (value as any).stored;
+        }
+      }
+    });
+    await storage.save('a', 1);
+    const info = await storage.snapshot();
+    await storage.save('a', 2);
+
+    await storage.restore(info.id);
+
+    expect(await adapter.load('a')).toEqual({ stored: 1 });
+    expect(await storage.getAll()).toEqual({ a: 1 });
+  });
+
+  it('should restore through adapters without replaceAll', async () => {
+    const map = new Map<string, any>();
+    const plain: StorageAdapter<any> = {
+      save: async (key, data) => { map.set(key, data); },
+      load: async key => map.get(key) ?? null,
+      delete: async key => { map.delete(key); },
+      clear: async () => { map.clear(); },
+      getAll: async () => Object.fromEntries(map)
+    };
+    const plainStorage = new DataStorage<any>(plain);
+    await plainStorage.save('keep', 1);
+    const info = await plainStorage.snapshot();
+    await plainStorage.save('keep', 2);
+    await plainStorage.save('stale', true);
+
+    await plainStorage.restore(info.id);
+
+    expect(Object.fromEntries(map)).toEqual({ keep: 1 });
+  });
+
+  it('should restore records with their original expiration', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    try {
+      await storage.save('session', { user: 'Ada' }, { ttl: 5000 });
+      await storage.save('token', 'abc', { ttl: 1000 });
+      await storage.save('theme', 'dark');
+      const info = await storage.snapshot();
+
+      jest.advanceTimersByTime(2000);
+      await storage.save('session', { user: 'Grace' });
+      await storage.restore(info.id);
+
+      expect(await adapter.load('session')).toEqual({ __jom: 1, value: { user: 'Ada' }, meta: { expiresAt: 1_005_000 } });
+      expect(await storage.getAll()).toEqual({ session: { user: 'Ada' }, theme: 'dark' });
+      jest.advanceTimersByTime(3000);
+      expect(await storage.getAll()).toEqual({ theme: 'dark' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject unknown snapshots', async () => {
+    await expect(storage.restore('missing')).rejects.toThrow('Snapshot "missing" not found');
+    await expect(storage.diffSnapshot('missing')).rejects.toThrow('Snapshot "missing" not found');
+  });
+});
+
+describe('Snapshots in a separate adapter', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist compressed snapshots to a JSON file', async () => {
+    const snapshotFile = path.join(tempDir, 'snapshots.json');
+    const storage = new DataStorage<any>(new JSONFileAdapter<any>(path.join(tempDir, 'data.json')), undefined, {
+      snapshots: { adapter: new JSONFileAdapter<any>(snapshotFile), compression: true }
+    });
+    await storage.save('settings', { theme: 'dark', items: Array.from({ length: 50 }, (_, i) => i) });
+
+    const info = await storage.snapshot('nightly');
+    await storage.clear();
+
+    // A fresh store over the same file reads the compressed snapshot back
+    const store = new SnapshotStore<any>(new JSONFileAdapter<any>(snapshotFile));
+    const snapshot = await store.get(info.id);
+    expect(info.compressed).toBe(true);
+    expect(snapshot!.data.settings.theme).toBe('dark');
+
+    await storage.restore(info.id);
+    expect((await storage.load('settings')).items).toHaveLength(50);
+  });
+
+  it('should keep namespace snapshots apart', async () => {
+    const snapshotAdapter = new InMemoryAdapter<any>();
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      snapshots: { adapter: snapshotAdapter }
+    });
+    const users = storage.namespace('users');
+
+    await storage.save('root', 1);
+    await users.save('ada', { admin: true });
+    await storage.snapshot();
+    await users.snapshot();
+
+    expect(await storage.listSnapshots()).toHaveLength(1);
+    expect(await users.listSnapshots()).toHaveLength(1);
+    expect((await users.listSnapshots())[0].keyCount).toBe(1);
+  });
+});
@@ -0,0 +1,200 @@
+// tests/sync.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { SyncEngine, SyncServer, SYNC_STATE_KEY, type SyncRequest } from '../src/utils/sync.js';
+
+describe('SyncEngine', () => {
+  let client: InMemoryAdapter<any>;
+  let server: InMemoryAdapter<any>;
+
+  beforeEach(() => {
+    client = new InMemoryAdapter<any>();
+    server = new InMemoryAdapter<any>();
+  });
+
+  it('should exchange changes in both directions', async () => {
+    await client.save('todo:1', { title: 'Write tests' });
+    await server.save('todo:2', { title: 'Review PR' });
+    const engine = new SyncEngine(client, server);
+
+    const result = await engine.sync();
+
+    expect(result).toEqual({ pushed: ['todo:1'], pulled: ['todo:2'], conflicts: [] });
+    expect(await server.load('todo:1')).toEqual({ title: 'Write tests' });
+    expect(await client.load('todo:2')).toEqual({ title: 'Review PR' });
+    // Nothing changed since
+    expect(await engine.sync()).toEqual({ pushed: [], pulled: [], conflicts: [] });
+  });
+
+  it('should only send the changes made since the last sync', async () => {
+    const requests: SyncRequest<any>[] = [];
+    const syncServer = new SyncServer(server);
+    const engine = new SyncEngine(client, request => {
+      requests.push(request);
+      return syncServer.handle(request);
+    });
+    await client.save('a', { n: 1 });
+    await client.save('b', { n: 2 });
+    await engine.sync();
+
+    await client.save('b', { n: 3 });
+    await client.delete('a');
+    await engine.sync();
+
+    expect(requests[1].changes.map(change => [change.key, change.value])).toEqual([['b', { n: 3 }], ['a', null]]);
+    expect(requests[1].since).toBeGreaterThan(0);
+    expect(await server.getAll()).toMatchObject({ b: { n: 3 } });
+    expect(await server.load('a')).toBeNull();
+  });
+
+  it('should propagate changes between clients through the server', async () => {
+    const other = new InMemoryAdapter<any>();
+    const syncServer = new SyncServer(server);
+    const first = new SyncEngine(client, request => syncServer.handle(request));
+    const second = new SyncEngine(other, request => syncServer.handle(request));
+
+    await client.save('note', { text: 'from first' });
+    await first.sync();
+    expect((await second.sync()).pulled).toEqual(['note']);
+    expect(await other.load('note')).toEqual({ text: 'from first' });
+
+    await other.delete('note');
+    await second.sync();
+    await first.sync();
+    expect(await client.load('note')).toBeNull();
+  });
+
+  it('should keep one change log when several engines share a peer adapter', async () => {
+    const other = new InMemoryAdapter<any>();
+    const first = new SyncEngine(client, server);
+    const second = new SyncEngine(other, server);
+    await client.save('a', { n: 1 });
+    await other.save('b', { n: 2 });
+
+    await Promise.all([first.sync(), second.sync()]);
+
+    const { entries } = await server.load(SYNC_STATE_KEY);
+    expect(Object.keys(entries).sort()).toEqual(['a', 'b']);
+    expect(entries.a.seq).not.toBe(entries.b.seq);
+    expect((await first.sync()).pulled).toEqual(['b']);
+  });
+
+  it('should not move the cursor past a change skipped during the sync', async () => {
+    const syncServer = new SyncServer(server);
+    let writeDuringSync = false;
+    const engine = new SyncEngine(client, async request => {
+      if (writeDuringSync) {
+        await client.save('doc', { title: 'Client' });
+      }
+      return syncServer.handle(request);
+    });
+    await client.save('doc', { title: 'Draft' });
+    await engine.sync();
+
+    await server.save('doc', { title: 'Server' });
+    writeDuringSync = true;
+    expect((await engine.sync()).pulled).toEqual([]);
+    writeDuringSync = false;
+
+    // The server change was not pulled, so the local change must be resolved against it
+    expect((await engine.sync()).conflicts).toEqual(['doc']);
+  });
+
+  it('should keep the sync state under a reserved key', async () => {
+    const storage = new DataStorage<any>(client);
+    await storage.save('a', { n: 1 });
+    await new SyncEngine(client, server).sync();
+
+    expect(await client.load(SYNC_STATE_KEY)).toMatchObject({ pushed: expect.any(Number), cursor: expect.any(Number) });
+    expect(Object.keys(await storage.getAll())).toEqual(['a']);
+  });
+});
+
+describe('SyncEngine conflicts', () => {
+  let client: InMemoryAdapter<any>;
+  let server: InMemoryAdapter<any>;
+
+  beforeEach(async () => {
+    client = new InMemoryAdapter<any>();
+    server = new InMemoryAdapter<any>();
+    await client.save('doc', { title: 'Draft', tags: ['a'] });
+    await new SyncEngine(client, server).sync();
+  });
+
+  // Runs `fn` with Date.now() returning `time`
+  async function at(time: number, fn: () => Promise<unknown>) {
+    const originalNow = Date.now;
+    Date.now = () => time;
+    try {
+      await fn();
+    } finally {
+      Date.now = originalNow;
+    }
+  }
+
+  // Both sides edit `doc` after the first sync, the client change made at `clientTime`.
+  // The server only notices its change when it syncs, so it is dated then
+  async function editBoth(engine: SyncEngine<any>, clientValue: any, serverValue: any, clientTime: number) {
+    const clientStorage = new DataStorage<any>(client);
+    engine.track(clientStorage);
+    await at(clientTime, () => clientStorage.save('doc', clientValue));
+    await new DataStorage<any>(server).save('doc', serverValue);
+  }
+
+  it('should keep the latest change with last-writer-wins', async () => {
+    const engine = new SyncEngine(client, server);
+    await editBoth(engine, { title: 'Client' }, { title: 'Server' }, 100);
+
+    const result = await engine.sync();
+
+    expect(result.conflicts).toEqual(['doc']);
+    expect(await client.load('doc')).toEqual({ title: 'Server' });
+    expect(await server.load('doc')).toEqual({ title: 'Server' });
+  });
+
+  it('should let the client change win when it is newer', async () => {
+    const engine = new SyncEngine(client, server);
+    await editBoth(engine, { title: 'Client' }, { title: 'Server' }, Date.now() + 60_000);
+
+    await engine.sync();
+
+    expect(await server.load('doc')).toEqual({ title: 'Client' });
+    expect(await client.load('doc')).toEqual({ title: 'Client' });
+  });
+
+  it('should apply the server-wins and client-wins strategies', async () => {
+    const serverWins = new SyncEngine(client, server, { strategy: 'server-wins' });
+    await client.save('doc', { title: 'Client' });
+    await server.save('doc', { title: 'Server' });
+    await serverWins.sync();
+    expect(await client.load('doc')).toEqual({ title: 'Server' });
+
+    const clientWins = new SyncEngine(client, server, { strategy: 'client-wins' });
+    await client.save('doc', { title: 'Client again' });
+    await server.save('doc', { title: 'Server again' });
+    await clientWins.sync();
+    expect(await server.load('doc')).toEqual({ title: 'Client again' });
+  });
+
+  it('should deep merge both sides with the merge strategy', async () => {
+    const engine = new SyncEngine(client, server, { strategy: 'merge' });
+    await editBoth(engine, { title: 'Client', body: { text: 'hi', color: 'red' } }, { title: 'Server', body: { color: 'blue' } }, 100);
+
+    await engine.sync();
+
+    const merged = { title: 'Server', body: { text: 'hi', color: 'blue' } };
+    expect(await server.load('doc')).toEqual(merged);
+    expect(await client.load('doc')).toEqual(merged);
+  });
+
+  it('should accept a custom resolver', async () => {
+    const engine = new SyncEngine(client, server, {
+      strategy: ({ server, client }) => ({ title: `${server.value.title} + ${client.value.title}` })
+    });
+    await client.save('doc', { title: 'Client' });
+    await server.save('doc', { title: 'Server' });
+
+    expect((await engine.sync()).conflicts).toEqual(['doc']);
+    expect(await client.load('doc')).toEqual({ title: 'Server + Client' });
+  });
+});
@@ -0,0 +1,131 @@
+// tests/tiered.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { TieredAdapter, type TierRead } from '../src/adapters/tiered.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('TieredAdapter', () => {
+  let fast: InMemoryAdapter<any>;
+  let durable: InMemoryAdapter<any>;
+
+  beforeEach(async () => {
+    fast = new InMemoryAdapter<any>();
+    durable = new InMemoryAdapter<any>();
+    await durable.save('user:1', { name: 'Ada' });
+    await durable.save('log:1', { line: 'started' });
+  });
+
+  it('should warm the fast tier before the first operation', async () => {
+    const reads: TierRead[] = [];
+    const tiered = new TieredAdapter(fast, durable, { onRead: read => reads.push(read) });
+
+    expect(await tiered.load('user:1')).toEqual({ name: 'Ada' });
+    expect(await fast.load('log:1')).toEqual({ line: 'started' });
+    expect(reads).toEqual([{ key: 'user:1', tier: 'fast' }]);
+    expect(tiered.getStats()).toMatchObject({ fast: 1, warmed: 2 });
+  });
+
+  it('should fall back to the durable tier and promote hot keys', async () => {
+    const tiered = new TieredAdapter(fast, durable, { warm: false, rules: [{ keys: 'user:*', promoteAfter: 2 }] });
+
+    expect(await tiered.loadWithTier('user:1')).toEqual({ value: { name: 'Ada' }, tier: 'durable' });
+    expect(await fast.load('user:1')).toBeNull();
+    expect((await tiered.loadWithTier('user:1')).tier).toBe('durable');
+    expect((await tiered.loadWithTier('user:1')).tier).toBe('fast');
+    expect(await tiered.loadWithTier('user:9')).toEqual({ value: null, tier: null });
+    expect(tiered.getStats()).toMatchObject({ fast: 1, durable: 2, misses: 1, promotions: 1 });
+  });
+
+  it('should write to both tiers, durable first', async () => {
+    const tiered = new TieredAdapter(fast, durable);
+    jest.spyOn(durable, 'save').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(tiered.save('user:2', { name: 'Grace' })).rejects.toThrow('disk full');
+    expect(await fast.load('user:2')).toBeNull();
+
+    await tiered.save('user:2', { name: 'Grace' });
+    expect(await fast.load('user:2')).toEqual({ name: 'Grace' });
+    expect(await durable.load('user:2')).toEqual({ name: 'Grace' });
+
+    await tiered.delete('user:1');
+    expect(await fast.load('user:1')).toBeNull();
+    expect(await durable.load('user:1')).toBeNull();
+  });
+
+  it('should place keys by pattern', async () => {
+    const tiered = new TieredAdapter(fast, durable, {
+      rules: [
+        { keys: 'log:*', placement: 'durable' },
+        { keys: /^draft:/, placement: 'fast' }
+      ]
+    });
+
+    await tiered.save('log:2', { line: 'stopped' });
+    await tiered.save('draft:1', { text: 'wip' });
+
+    expect(await fast.load('log:1')).toBeNull();
+    expect(await fast.load('log:2')).toBeNull();
+    expect(await durable.load('draft:1')).toBeNull();
+    expect(await tiered.loadWithTier('log:2')).toEqual({ value: { line: 'stopped' }, tier: 'durable' });
+    expect(await tiered.loadWithTier('draft:1')).toEqual({ value: { text: 'wip' }, tier: 'fast' });
+    expect(Object.keys(await tiered.getAll()).sort()).toEqual(['draft:1', 'log:1', 'log:2', 'user:1']);
+  });
+
+  it('should check versions against the durable tier', async () => {
+    const tiered = new TieredAdapter(fast, durable, { warm: false });
+    const storage = new DataStorage<any>(tiered);
+
+    expect(await storage.compareAndSwap('user:1', { name: 'Ada' }, { name: 'Ada L.' })).toBe(true);
+    expect(await durable.load('user:1')).toEqual({ name: 'Ada L.' });
+    expect(await fast.load('user:1')).toEqual({ name: 'Ada L.' });
+    expect(await storage.compareAndSwap('user:1', { name: 'Ada' }, { name: 'Nope' })).toBe(false);
+  });
+
+  it('should not overwrite keys written while warming', async () => {
+    const tiered = new TieredAdapter(fast, durable, { warm: false });
+    // Hold the first copy of the warm-up until a save has gone through
+    let release!: () => void;
+    const opened = new Promise<void>(resolve => (release = resolve));
+    const save = fast.save.bind(fast);
+    jest.spyOn(fast, 'save').mockImplementationOnce(async (key, data) => {
+      await opened;
+      await save(key, data);
+    });
+
+    const warming = tiered.warm();
+    await tiered.save('log:1', { line: 'restarted' });
+    release();
+
+    expect(await warming).toBe(1);
+    expect(await fast.load('log:1')).toEqual({ line: 'restarted' });
+    expect(await fast.load('user:1')).toEqual({ name: 'Ada' });
+  });
+});
+
+describe('TieredAdapter over a JSON file', () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tiered-test-'));
+    file = path.join(tempDir, 'data.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep the data across restarts and serve it from memory', async () => {
+    const first = new DataStorage<any>(new TieredAdapter(new InMemoryAdapter<any>(), new JSONFileAdapter<any>(file)));
+    await first.save('settings', { theme: 'dark' });
+
+    const tiered = new TieredAdapter(new InMemoryAdapter<any>(), new JSONFileAdapter<any>(file));
+    const second = new DataStorage<any>(tiered);
+
+    expect(await second.load('settings')).toEqual({ theme: 'dark' });
+    expect(tiered.getStats()).toMatchObject({ fast: 1, durable: 0, warmed: 1 });
+  });
+});
@@ -0,0 +1,135 @@
+// tests/transforming.test.ts
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { EncryptedAdapter, TransformingAdapter, isTransformedEnvelope } from '../src/adapters/transforming.js';
+import type { CompressionAdapter } from '../src/utils/compression.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('TransformingAdapter', () => {
+  let inner: InMemoryAdapter<any>;
+
+  beforeEach(() => {
+    inner = new InMemoryAdapter<any>();
+  });
+
+  it('should store plain values when no transform is configured', async () => {
+    const adapter = new TransformingAdapter<any>(inner);
+    await adapter.save('a', { n: 1 });
+
+    expect(await inner.load('a')).toEqual({ n: 1 });
+    expect(await adapter.load('a')).toEqual({ n: 1 });
+  });
+
+  it('should only compress values above the threshold', async () => {
+    const adapter = new TransformingAdapter<any>(inner, { compression: 'simple', compressionThreshold: 100 });
+    const large = { text: 'repeat '.repeat(100) };
+
+    await adapter.save('small', { text: 'hi' });
+    await adapter.save('large', large);
+
+    const small = await inner.load('small');
+    const stored = await inner.load('large');
+    expect(small).toEqual({ __transformed: 1, payload: '{"text":"hi"}' });
+    expect(stored.compression).toBe('simple');
+    expect(stored.payload.length).toBeLessThan(JSON.stringify(large).length);
+
+    expect(await adapter.load('small')).toEqual({ text: 'hi' });
+    expect(await adapter.load('large')).toEqual(large);
+  });
+
+  it('should round-trip gzip-compressed and encrypted values', async () => {
+    const adapter = new EncryptedAdapter<any>(inner, {
+      compression: 'gzip',
+      compressionThreshold: 0,
+      encryptionKey: 'secret-key'
+    });
+    const value = { user: 'ada', roles: ['admin'], nested: { ok: true } };
+
+    await adapter.save('profile', value);
+
+    const stored = await inner.load('profile');
+    expect(isTransformedEnvelope(stored)).toBe(true);
+    expect(stored).toMatchObject({ compression: 'gzip', encryption: 'aes' });
+    expect(JSON.stringify(stored)).not.toContain('ada');
+    expect(await adapter.load('profile')).toEqual(value);
+  });
+
+  it('should read values written before wrapping', async () => {
+    await inner.save('legacy', { old: true });
+    const adapter = new EncryptedAdapter<any>(inner, { encryptionKey: 'k', encryption: 'simple' });
+    await adapter.save('fresh', { old: false });
+
+    expect(await adapter.getAll()).toEqual({ legacy: { old: true }, fresh: { old: false } });
+    expect((await adapter.list()).items).toEqual([
+      { key: 'fresh', value: { old: false } },
+      { key: 'legacy', value: { old: true } }
+    ]);
+  });
+
+  it('should fail clearly when the key is missing or wrong', async () => {
+    const writer = new EncryptedAdapter<any>(inner, { encryptionKey: 'right', encryption: 'simple' });
+    await writer.save('secret', { pin: 1234 });
+
+    await expect(new TransformingAdapter<any>(inner).load('secret'))
+      .rejects.toThrow('Failed to decode value for key "secret"');
+    await expect(new EncryptedAdapter<any>(inner, { encryptionKey: 'wrong', encryption: 'simple' }).load('secret'))
+      .rejects.toThrow('Failed to decode value for key "secret"');
+  });
+
+  it('should require a key when encryption is enabled', () => {
+    expect(() => new TransformingAdapter<any>(inner, { encryption: 'aes' }))
+      .toThrow('An encryptionKey is required when encryption is enabled');
+  });
+
+  it('should use custom implementations under their own marker', async () => {
+    const upper: CompressionAdapter = {
+      compress: data => data.toUpperCase(),
+      decompress: data => data.toLowerCase(),
+      getCompressionRatio: () => 0
+    };
+    const adapter = new TransformingAdapter<any>(inner, {
+      compression: upper,
+      compressionName: 'upper',
+      compressionThreshold: 0
+    });
+
+    await adapter.save('word', 'hello');
+
+    expect(await inner.load('word')).toEqual({ __transformed: 1, compression: 'upper', payload: '"HELLO"' });
+    expect(await adapter.load('word')).toBe('hello');
+    await expect(new TransformingAdapter<any>(inner).load('word'))
+      .rejects.toThrow('unknown compression algorithm "upper"');
+  });
+});
+
+describe('EncryptedAdapter with DataStorage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transforming-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep the JSON file unreadable but the storage transparent', async () => {
+    const file = path.join(tempDir, 'secrets.json');
+    const open = () => new DataStorage<any>(
+      new EncryptedAdapter<any>(new JSONFileAdapter<any>(file), { compression: 'gzip', encryptionKey: 'pw' })
+    );
+
+    const storage = open();
+    await storage.save('token', { value: 'abc123' }, { ttl: 60_000 });
+    await storage.patch('token', { scope: 'read' });
+
+    expect(await fs.readFile(file, 'utf-8')).not.toContain('abc123');
+    expect(await open().load('token')).toEqual({ value: 'abc123', scope: 'read' });
+    expect(await open().find({ scope: 'read' })).toEqual([
+      { key: 'token', value: { value: 'abc123', scope: 'read' } }
+    ]);
+  });
+});
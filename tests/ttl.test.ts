@@ -0,0 +1,180 @@
+// tests/ttl.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DataStorage, InMemoryAdapter, type ExpireEvent } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { LocalStorageAdapter } from '../src/adapters/local-storage.js';
+import { isRecordEnvelope } from '../src/core/record.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('DataStorage TTL', () => {
+  let now: number;
+  let adapter: InMemoryAdapter<any>;
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    adapter = new InMemoryAdapter<any>();
+    storage = new DataStorage<any>(adapter);
+  });
+
+  afterEach(() => {
+    storage.stopSweeper();
+    jest.restoreAllMocks();
+  });
+
+  it('should return values until they expire', async () => {
+    await storage.save('token', { value: 'abc' }, { ttl: 1000 });
+
+    now += 999;
+    expect(await storage.load('token')).toEqual({ value: 'abc' });
+
+    now += 1;
+    expect(await storage.load('token')).toBeNull();
+  });
+
+  it('should delete expired keys on load and emit expire', async () => {
+    const events: ExpireEvent<any>[] = [];
+    storage.on('expire', event => events.push(event));
+    await storage.save('token', 'abc', { expiresAt: new Date(now + 10) });
+
+    now += 10;
+    expect(await storage.load('token')).toBeNull();
+
+    expect(await adapter.load('token')).toBeNull();
+    expect(events).toEqual([{ key: 'token', data: 'abc', expiresAt: 1_000_010 }]);
+  });
+
+  it('should store plain values when no TTL is given', async () => {
+    await storage.save('plain', { a: 1 });
+    await storage.save('cached', { a: 1 }, { ttl: 50 });
+
+    expect(await adapter.load('plain')).toEqual({ a: 1 });
+    expect(isRecordEnvelope(await adapter.load('cached'))).toBe(true);
+  });
+
+  it('should apply the default TTL from the options', async () => {
+    const withDefault = new DataStorage<any>(adapter, undefined, { ttl: { defaultTtl: 100 } });
+    await withDefault.save('key', 'value');
+
+    now += 100;
+    expect(await withDefault.load('key')).toBeNull();
+  });
+
+  it('should hide expired keys from getAll, iteration, has and find', async () => {
+    await storage.save('short', { n: 1 }, { ttl: 10 });
+    await storage.save('long', { n: 2 }, { ttl: 1000 });
+    await storage.save('forever', { n: 3 });
+    now += 10;
+
+    expect(await storage.getAll()).toEqual({ long: { n: 2 }, forever: { n: 3 } });
+    expect(await storage.has('short')).toBe(false);
+    expect(await storage.has('long')).toBe(true);
+    expect((await storage.find({ n: { $gte: 1 } })).map(entry => entry.key).sort()).toEqual(['forever', 'long']);
+
+    const keys: string[] = [];
+    for await (const key of storage.keys()) {
+      keys.push(key);
+    }
+    expect(keys.sort()).toEqual(['forever', 'long']);
+    expect((await storage.list()).items.map(item => item.key)).toEqual(['forever', 'long']);
+  });
+
+  it('should keep the expiration when a value is updated', async () => {
+    await storage.save('session', { hits: 0 }, { ttl: 100 });
+    await storage.patch('session', { hits: 1 });
+
+    now += 50;
+    expect(await storage.load('session')).toEqual({ hits: 1 });
+    now += 50;
+    expect(await storage.load('session')).toBeNull();
+  });
+
+  it('should treat expired values as missing in update', async () => {
+    await storage.save('counter', 5, { ttl: 10 });
+    now += 10;
+
+    const result = await storage.update('counter', current => (current ?? 0) + 1);
+    expect(result).toBe(1);
+    expect(await storage.load('counter')).toBe(1);
+  });
+
+  it('should sweep expired keys from the adapter', async () => {
+    const events: string[] = [];
+    storage.on('expire', event => events.push(event.key));
+    await storage.save('a', 1, { ttl: 10 });
+    await storage.save('b', 2, { ttl: 20 });
+    await storage.save('c', 3);
+    now += 15;
+
+    expect(await storage.sweepExpired()).toEqual(['a']);
+    expect(events).toEqual(['a']);
+    expect(Object.keys(await adapter.getAll()).sort()).toEqual(['b', 'c']);
+  });
+
+  it('should run the sweeper in the background', async () => {
+    await storage.save('a', 1, { ttl: 10 });
+    now += 10;
+
+    const expired = new Promise<ExpireEvent<any>>(resolve => storage.once('expire', resolve));
+    storage.startSweeper(5);
+
+    expect((await expired).key).toBe('a');
+    expect(await adapter.load('a')).toBeNull();
+  });
+});
+
+describe('DataStorage TTL with persistent adapters', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ttl-test-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist expiration metadata in JSON files', async () => {
+    const file = path.join(tempDir, 'cache.json');
+    const storage = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    await storage.save('response', { body: 'ok' }, { ttl: 60_000 });
+
+    const reopened = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    expect(await reopened.load('response')).toEqual({ body: 'ok' });
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 60_000);
+    expect(await reopened.load('response')).toBeNull();
+
+    const contents = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(contents).toEqual({});
+  });
+
+  it('should persist expiration metadata in localStorage', async () => {
+    const store: Record<string, string> = {};
+    Object.defineProperty(global, 'localStorage', {
+      value: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => { store[key] = value; },
+        removeItem: (key: string) => { delete store[key]; }
+      },
+      writable: true,
+      configurable: true
+    });
+
+    const storage = new DataStorage<any>(new LocalStorageAdapter<any>('ttl-test'));
+    await storage.save('prefs', { theme: 'dark' }, { ttl: 1000 });
+
+    const reopened = new DataStorage<any>(new LocalStorageAdapter<any>('ttl-test'));
+    expect(await reopened.load('prefs')).toEqual({ theme: 'dark' });
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now + 1000);
+    expect(await reopened.load('prefs')).toBeNull();
+    expect(JSON.parse(store['ttl-test'])).toEqual({});
+  });
+});
@@ -1,4 +1,5 @@
 import { Emitter } from '../src/utils/Emitter';
+import { EventBufferOverflowError, EventTimeoutError, ListenerTimeoutError } from '../src/core/errors';
 import { ChatMemory, PersistentChatMemory } from '../src/utils/memory';
 import { StringMapStorage } from '../src/utils/string-map-storage';
 import { InMemoryAdapter } from '../src/core/storage';
@@ -81,6 +82,352 @@ describe('Emitter', () => {
   });
 });
 
+describe('Typed Emitter', () => {
+  type Events = {
+    'user:created': { id: number; name: string };
+    'user:deleted': { id: number };
+    ready: undefined;
+  };
+  let emitter: Emitter<Events>;
+
+  beforeEach(() => {
+    emitter = new Emitter<Events>();
+  });
+
+  test('should deliver typed payloads', () => {
+    const names: string[] = [];
+    emitter.on('user:created', user => names.push(user.name));
+    emitter.prependListener('user:created', user => names.push(`#${user.id}`));
+
+    emitter.emit('user:created', { id: 1, name: 'Ada' });
+    emitter.emit('ready');
+
+    expect(names).toEqual(['#1', 'Ada']);
+  });
+
+  test('should narrow onAny payloads by event name', () => {
+    const seen: Array<number | string> = [];
+    emitter.onAny((event, data) => {
+      if (event === 'user:deleted') {
+        seen.push(data.id);
+      } else if (event === 'user:created') {
+        seen.push(data.name);
+      }
+    });
+
+    emitter.emit('user:created', { id: 1, name: 'Ada' });
+    emitter.emit('user:deleted', { id: 1 });
+
+    expect(seen).toEqual(['Ada', 1]);
+  });
+
+  test('should reject unknown events and wrong payloads at compile time', () => {
+    const listener = jest.fn();
+    // @ts-expect-error misspelled event name
+    emitter.on('user:craeted', listener);
+    // @ts-expect-error missing payload field
+    emitter.emit('user:created', { id: 1 });
+    // @ts-expect-error payload required
+    emitter.emit('user:deleted');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should resolve waitFor with the next matching payload', async () => {
+    const deleted = emitter.waitFor('user:deleted', user => user.id === 2);
+
+    emitter.emit('user:deleted', { id: 1 });
+    emitter.emit('user:deleted', { id: 2 });
+    emitter.emit('user:deleted', { id: 3 });
+
+    await expect(deleted).resolves.toEqual({ id: 2 });
+    expect(emitter.listenerCount('user:deleted')).toBe(0);
+  });
+});
+
+describe('Emitter async emission', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  test('should await async listeners in order with emitSerial', async () => {
+    const emitter = new Emitter();
+    const order: string[] = [];
+    emitter.on('job', async () => {
+      await delay(10);
+      order.push('slow');
+      return 1;
+    });
+    emitter.on('job', () => {
+      order.push('fast');
+      return 2;
+    });
+
+    await expect(emitter.emitSerial('job', null)).resolves.toEqual([1, 2]);
+    expect(order).toEqual(['slow', 'fast']);
+  });
+
+  test('should run listeners concurrently with emitParallel', async () => {
+    const emitter = new Emitter();
+    const order: string[] = [];
+    emitter.on('job', async () => {
+      await delay(10);
+      order.push('slow');
+      return 'a';
+    });
+    emitter.onAny(async () => {
+      order.push('any');
+      return 'b';
+    });
+
+    await expect(emitter.emitParallel('job', null)).resolves.toEqual(['a', 'b']);
+    expect(order).toEqual(['any', 'slow']);
+  });
+
+  test('should collect listener errors into an AggregateError', async () => {
+    const emitter = new Emitter({ errorPolicy: 'collect' });
+    const after = jest.fn();
+    emitter.on('job', () => {
+      throw new Error('first');
+    });
+    emitter.on('job', async () => {
+      throw new Error('second');
+    });
+    emitter.on('job', after);
+
+    const attempt = emitter.emitSerial('job', null);
+
+    await expect(attempt).rejects.toBeInstanceOf(AggregateError);
+    await attempt.catch((error: AggregateError) => {
+      expect(error.errors.map(e => e.message)).toEqual(['first', 'second']);
+    });
+    expect(after).toHaveBeenCalled();
+  });
+
+  test('should apply the error policy to synchronous emit', () => {
+    const emitter = new Emitter({ errorPolicy: 'collect' });
+    const after = jest.fn();
+    emitter.on('job', () => {
+      throw new Error('first');
+    });
+    emitter.on('job', after);
+
+    expect(() => emitter.emit('job', null)).toThrow(AggregateError);
+    expect(after).toHaveBeenCalled();
+  });
+
+  test('should rethrow the first error with the throw policy', async () => {
+    const emitter = new Emitter();
+    const after = jest.fn();
+    emitter.once('job', async () => {
+      throw new Error('boom');
+    });
+    emitter.on('job', after);
+
+    await expect(emitter.emitSerial('job', null, { errorPolicy: 'throw' })).rejects.toThrow('boom');
+    expect(after).not.toHaveBeenCalled();
+    // The once listener is gone even though it failed
+    await expect(emitter.emitSerial('job', null, { errorPolicy: 'throw' })).resolves.toEqual([undefined]);
+  });
+
+  test("should route errors to the 'error' event", () => {
+    const emitter = new Emitter({ errorPolicy: 'event' });
+    const errors: unknown[] = [];
+    const failure = new Error('boom');
+    emitter.on('error', event => errors.push(event));
+    emitter.on('job', () => {
+      throw failure;
+    });
+
+    emitter.emit('job', null);
+
+    expect(errors).toEqual([{ event: 'job', error: failure }]);
+  });
+
+  test('should time out slow listeners', async () => {
+    const emitter = new Emitter({ errorPolicy: 'collect', listenerTimeout: 20 });
+    emitter.on('job', () => delay(200));
+    emitter.on('job', () => delay(5), { timeout: 100 });
+
+    const attempt = emitter.emitParallel('job', null);
+
+    await expect(attempt).rejects.toBeInstanceOf(AggregateError);
+    await attempt.catch((error: AggregateError) => {
+      expect(error.errors).toEqual([expect.any(ListenerTimeoutError)]);
+    });
+  });
+});
+
+describe('Emitter patterns', () => {
+  let emitter: Emitter;
+
+  beforeEach(() => {
+    emitter = new Emitter();
+  });
+
+  test('should match single and multi-segment wildcards', () => {
+    const user = jest.fn();
+    const all = jest.fn();
+    const paid = jest.fn();
+    emitter.on('user:*', user);
+    emitter.on('**', all);
+    emitter.on('**:paid', paid);
+
+    emitter.emit('user:created', { id: 1 });
+    emitter.emit('user:profile:updated', { id: 1 });
+    emitter.emit('order:eu:paid', { id: 2 });
+
+    expect(user).toHaveBeenCalledTimes(1);
+    expect(user).toHaveBeenCalledWith({ id: 1 }, 'user:created');
+    expect(all.mock.calls.map(call => call[1])).toEqual(['user:created', 'user:profile:updated', 'order:eu:paid']);
+    expect(paid).toHaveBeenCalledWith({ id: 2 }, 'order:eu:paid');
+  });
+
+  test('should use the configured delimiter', () => {
+    const dotted = new Emitter({ delimiter: '.' });
+    const listener = jest.fn();
+    dotted.once('user.*', listener);
+
+    dotted.emit('user:created', 1);
+    dotted.emit('user.created', 2);
+    dotted.emit('user.deleted', 3);
+
+    expect(listener.mock.calls).toEqual([[2, 'user.created']]);
+  });
+
+  test('should count, list and remove listeners by pattern', () => {
+    const listener = jest.fn();
+    emitter.on('user:created', listener);
+    emitter.on('user:deleted', listener);
+    emitter.on('order:paid', listener);
+    emitter.on('user:*', listener);
+
+    expect(emitter.listenerCount('user:created')).toBe(2);
+    expect(emitter.listenerCount('user:*')).toBe(3);
+    expect(emitter.eventNames('user:*')).toEqual(['user:created', 'user:deleted', 'user:*']);
+
+    emitter.off('user:*', listener);
+    expect(emitter.eventNames()).toEqual(['order:paid']);
+
+    emitter.on('user:created', listener);
+    emitter.removeAllListeners('**');
+    emitter.emit('user:created', null);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('Emitter waitFor and event streams', () => {
+  let emitter: Emitter;
+
+  beforeEach(() => {
+    emitter = new Emitter();
+  });
+
+  test('should wait for a matching event with a timeout', async () => {
+    const saved = emitter.waitFor('save', { filter: event => event.key === 'x', timeout: 1000 });
+    emitter.emit('save', { key: 'y' });
+    emitter.emit('save', { key: 'x' });
+
+    await expect(saved).resolves.toEqual({ key: 'x' });
+    await expect(emitter.waitFor('save', { timeout: 10 })).rejects.toBeInstanceOf(EventTimeoutError);
+    expect(emitter.listenerCount('save')).toBe(0);
+  });
+
+  test('should reject waitFor when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = emitter.waitFor('save', { signal: controller.signal });
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(waiting).rejects.toThrow('cancelled');
+    expect(emitter.listenerCount('save')).toBe(0);
+  });
+
+  test('should remove on, once and onAny listeners when the signal aborts', () => {
+    const controller = new AbortController();
+    const listener = jest.fn();
+    emitter.on('save', listener, { signal: controller.signal });
+    emitter.once('save', listener, { signal: controller.signal });
+    emitter.onAny(listener, { signal: controller.signal });
+
+    controller.abort();
+    emitter.emit('save', {});
+    emitter.on('save', listener, { signal: controller.signal });
+    emitter.emit('save', {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should iterate over events until the signal aborts', async () => {
+    const controller = new AbortController();
+    const received: unknown[] = [];
+    const stream = emitter.events('tick', { signal: controller.signal });
+
+    emitter.emit('tick', 1);
+    emitter.emit('tick', 2);
+    const consumer = (async () => {
+      for await (const value of stream) {
+        received.push(value);
+        if (value === 3) {
+          controller.abort();
+        }
+      }
+    })();
+    await Promise.resolve();
+    emitter.emit('tick', 3);
+    emitter.emit('tick', 4);
+    await consumer;
+
+    expect(received).toEqual([1, 2, 3]);
+    expect(emitter.listenerCount('tick')).toBe(0);
+  });
+
+  test('should apply the overflow policy to a full buffer', async () => {
+    const oldest = emitter.events('tick', { bufferSize: 2 });
+    const newest = emitter.events('tick', { bufferSize: 2, overflow: 'drop-newest' });
+    const strict = emitter.events('tick', { bufferSize: 2, overflow: 'error' });
+
+    [1, 2, 3].forEach(value => emitter.emit('tick', value));
+
+    expect([(await oldest.next()).value, (await oldest.next()).value]).toEqual([2, 3]);
+    expect([(await newest.next()).value, (await newest.next()).value]).toEqual([1, 2]);
+    await strict.next();
+    await strict.next();
+    await expect(strict.next()).rejects.toBeInstanceOf(EventBufferOverflowError);
+    await oldest.return!();
+    await newest.return!();
+  });
+
+  test('should make awaited emits wait for a slow consumer', async () => {
+    const stream = emitter.events('job', { bufferSize: 1 });
+    let delivered = false;
+
+    const emitting = emitter.emitSerial('job', 'a').then(() => {
+      delivered = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(delivered).toBe(false);
+
+    expect((await stream.next()).value).toBe('a');
+    await emitting;
+    expect(delivered).toBe(true);
+    await stream.return!();
+  });
+
+  test('should share one backpressure promise while the buffer stays full', async () => {
+    const on = jest.spyOn(emitter, 'on');
+    const stream = emitter.events('job', { bufferSize: 1 });
+    const listener = on.mock.calls[0][1] as (data: string) => Promise<void> | void;
+
+    const first = listener('a');
+    expect(listener('b')).toBe(first);
+    expect(listener('c')).toBe(first);
+
+    expect((await stream.next()).value).toBe('c');
+    await first;
+    expect(listener('d')).not.toBe(first);
+    await stream.return!();
+  });
+});
+
 describe('PersistentChatMemory', () => {
   let adapter: InMemoryAdapter<any>;
   let memory: PersistentChatMemory;
@@ -94,7 +441,8 @@ describe('PersistentChatMemory', () => {
     memory.addUserMessage('Hello');
     memory.addAIMessage('Hi there');
 
-    // Messages are saved automatically
+    // Messages are saved automatically once the stored ones are loaded
+    await memory.getMessagesAsync();
     const savedData = await adapter.load('chat-memory');
     expect(savedData).toHaveLength(2);
     expect(savedData[0]).toMatchObject({
@@ -127,6 +475,7 @@ describe('PersistentChatMemory', () => {
     memory.addAIMessage('Auto save response');
 
     // Verify messages were saved automatically
+    await memory.getMessagesAsync();
     const savedData = await adapter.load('chat-memory');
     expect(savedData).toHaveLength(2);
     expect(savedData[0].content).toBe('Auto save test');
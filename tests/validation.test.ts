@@ -1,5 +1,5 @@
 // tests/validation.test.ts
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import {
   DataValidator,
   DataTransformer,
@@ -8,6 +8,9 @@ import {
   type Schema,
   type ValidationResult
 } from '../src/utils/validation.js';
+import { DataStorage, InMemoryAdapter, type InvalidEvent } from '../src/core/storage.js';
+import { ValidationError } from '../src/core/errors.js';
+import { matchesKeyPattern } from '../src/utils/key-pattern.js';
 
 describe('DataValidator', () => {
   describe('Basic validation', () => {
@@ -460,4 +463,129 @@ describe('Pre-defined schemas', () => {
       expect(validator.validate('not an object').isValid).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('DataValidator.coerce', () => {
+  it('should convert primitives to the declared types', () => {
+    const validator = new DataValidator({
+      type: 'object',
+      properties: {
+        age: { type: 'number' },
+        id: { type: 'string' },
+        active: { type: 'boolean' },
+        scores: { type: 'array', items: { type: 'number' } }
+      }
+    });
+
+    expect(validator.coerce({ age: '42', id: 7, active: 'true', scores: ['1', 2], extra: 'x' }))
+      .toEqual({ age: 42, id: '7', active: true, scores: [1, 2], extra: 'x' });
+    expect(validator.coerce({ age: 'not a number' })).toEqual({ age: 'not a number' });
+  });
+});
+
+describe('matchesKeyPattern', () => {
+  it('should match exact keys, globs and regular expressions', () => {
+    expect(matchesKeyPattern('users', 'users')).toBe(true);
+    expect(matchesKeyPattern('user:*', 'user:1')).toBe(true);
+    expect(matchesKeyPattern('user:*', 'order:1')).toBe(false);
+    expect(matchesKeyPattern('a.*', 'abc')).toBe(false);
+    expect(matchesKeyPattern(/^session-\d+$/g, 'session-1')).toBe(true);
+    expect(matchesKeyPattern(/^session-\d+$/g, 'session-1')).toBe(true);
+  });
+});
+
+describe('DataStorage schema enforcement', () => {
+  const validUser = { id: 'u1', email: 'alice@example.com', name: 'Alice', age: 30 };
+
+  it('should reject invalid data with a typed error and an invalid event', async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      validation: { schema: schemas.user }
+    });
+    const events: InvalidEvent<any>[] = [];
+    storage.on('invalid', event => events.push(event));
+
+    await storage.save('u1', validUser);
+
+    let caught: unknown;
+    try {
+      await storage.save('u2', { id: 'u2', email: 'nope', name: '' });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ValidationError);
+    expect((caught as ValidationError).key).toBe('u2');
+    expect((caught as ValidationError).result.errors).toEqual(expect.arrayContaining([
+      'root.email: Custom validation failed',
+      'root.name: String too short (min: 1)'
+    ]));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ key: 'u2', operation: 'save', mode: 'reject' });
+    expect(await storage.load('u2')).toBeNull();
+  });
+
+  it('should warn and still save in warn mode', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      validation: { schema: schemas.user, mode: 'warn' }
+    });
+
+    await storage.save('u1', { id: 'u1' });
+
+    expect(await storage.load('u1')).toEqual({ id: 'u1' });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should coerce values before rejecting', async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      validation: { schema: schemas.user, mode: 'coerce' }
+    });
+
+    await storage.save('u1', { ...validUser, age: '31' });
+    expect(await storage.load('u1')).toEqual({ ...validUser, age: 31 });
+
+    await expect(storage.save('u2', { ...validUser, age: 'old' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should pick schemas by key pattern', async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      validation: {
+        schemas: [
+          { match: 'user:*', schema: schemas.user },
+          { match: /^msg:/, schema: schemas.message }
+        ]
+      }
+    });
+
+    await storage.save('user:1', validUser);
+    await storage.save('msg:1', { role: 'user', content: 'hi' });
+    await storage.save('other', { anything: true });
+
+    await expect(storage.save('msg:2', { role: 'system', content: 'hi' })).rejects.toThrow(ValidationError);
+    await expect(storage.save('user:2', { role: 'user', content: 'hi' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should validate partial updates against the schema', async () => {
+    const storage = new DataStorage<any>(new InMemoryAdapter<any>(), undefined, {
+      validation: { schema: schemas.user }
+    });
+    await storage.save('u1', validUser);
+
+    await expect(storage.patch('u1', { age: 200 })).rejects.toThrow('Number too large');
+    expect(await storage.load('u1')).toEqual(validUser);
+  });
+
+  it('should optionally validate on load', async () => {
+    const adapter = new InMemoryAdapter<any>();
+    await adapter.save('u1', { id: 'u1' });
+    const storage = new DataStorage<any>(adapter, undefined, {
+      validation: { schema: schemas.user, validateOnLoad: true }
+    });
+    const events: InvalidEvent<any>[] = [];
+    storage.on('invalid', event => events.push(event));
+
+    await expect(storage.load('u1')).rejects.toThrow(ValidationError);
+    expect(events[0]).toMatchObject({ key: 'u1', operation: 'load' });
+  });
+});
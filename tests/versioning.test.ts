@@ -0,0 +1,180 @@
+// tests/versioning.test.ts
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DataStorage, InMemoryAdapter } from '../src/core/storage.js';
+import { JSONFileAdapter } from '../src/adapters/json-file.js';
+import { TransformingAdapter } from '../src/adapters/transforming.js';
+import { ConflictError } from '../src/core/errors.js';
+import { compareAndSaveRecord, computeVersion, stableStringify } from '../src/utils/version.js';
+import type { StorageAdapter } from '../src/core/types.js';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+
+describe('computeVersion', () => {
+  it('should not depend on key order', () => {
+    expect(stableStringify({ b: 1, a: [1, { d: 2, c: 3 }] })).toBe('{"a":[1,{"c":3,"d":2}],"b":1}');
+    expect(computeVersion({ a: 1, b: 2 })).toBe(computeVersion({ b: 2, a: 1 }));
+    expect(computeVersion({ a: 1 })).not.toBe(computeVersion({ a: 2 }));
+    expect(computeVersion(null)).toBeNull();
+  });
+});
+
+describe('compareAndSaveRecord', () => {
+  it('should check the version before saving on adapters without compareAndSave', async () => {
+    const map = new Map<string, any>([['doc', { rev: 1 }]]);
+    const adapter: StorageAdapter<any> = {
+      save: async (key, data) => { map.set(key, data); },
+      load: async key => map.get(key) ?? null,
+      delete: async key => { map.delete(key); },
+      clear: async () => { map.clear(); }
+    };
+
+    expect(await compareAndSaveRecord(adapter, 'doc', computeVersion({ rev: 2 }), { rev: 3 })).toBe(false);
+    expect(await compareAndSaveRecord(adapter, 'doc', computeVersion({ rev: 1 }), { rev: 2 })).toBe(true);
+    expect(await compareAndSaveRecord(adapter, 'new', null, { rev: 1 })).toBe(true);
+    expect(Object.fromEntries(map)).toEqual({ doc: { rev: 2 }, new: { rev: 1 } });
+  });
+});
+
+describe('DataStorage optimistic concurrency', () => {
+  let storage: DataStorage<any>;
+
+  beforeEach(() => {
+    storage = new DataStorage<any>(new InMemoryAdapter<any>());
+  });
+
+  it('should expose the record version through loadWithMeta', async () => {
+    expect(await storage.loadWithMeta('doc')).toBeNull();
+
+    await storage.save('doc', { title: 'Draft' });
+    const first = await storage.loadWithMeta('doc');
+    await storage.save('doc', { title: 'Final' });
+    const second = await storage.loadWithMeta('doc');
+
+    expect(first).toEqual({ value: { title: 'Draft' }, version: expect.any(String), expiresAt: undefined });
+    expect(second!.version).not.toBe(first!.version);
+  });
+
+  it('should reject saves when the version moved on', async () => {
+    await storage.save('doc', { title: 'Draft' });
+    const { version } = (await storage.loadWithMeta('doc'))!;
+
+    await storage.save('doc', { title: 'Edited elsewhere' });
+
+    const attempt = storage.save('doc', { title: 'Mine' }, { ifVersion: version });
+    await expect(attempt).rejects.toBeInstanceOf(ConflictError);
+    await expect(storage.save('doc', { title: 'Mine' }, { ifVersion: version })).rejects.toMatchObject({
+      key: 'doc',
+      expectedVersion: version,
+      actualVersion: computeVersion({ title: 'Edited elsewhere' })
+    });
+    expect(await storage.load('doc')).toEqual({ title: 'Edited elsewhere' });
+  });
+
+  it('should save when the version matches and emit as usual', async () => {
+    const changes: unknown[] = [];
+    storage.on('change', data => changes.push(data));
+    await storage.save('doc', { n: 1 });
+    const { version } = (await storage.loadWithMeta('doc'))!;
+
+    await storage.save('doc', { n: 2 }, { ifVersion: version });
+
+    expect(await storage.load('doc')).toEqual({ n: 2 });
+    expect(changes).toHaveLength(2);
+  });
+
+  it('should treat ifVersion null as create-only', async () => {
+    await storage.save('lock', { owner: 'a' }, { ifVersion: null });
+    await expect(storage.save('lock', { owner: 'b' }, { ifVersion: null })).rejects.toThrow('Version conflict for key "lock"');
+  });
+
+  it('should compare and swap by value', async () => {
+    expect(await storage.compareAndSwap('counter', null, 1)).toBe(true);
+    expect(await storage.compareAndSwap('counter', 5, 6)).toBe(false);
+    expect(await storage.compareAndSwap('counter', 1, 2)).toBe(true);
+    expect(await storage.compareAndSwap('config', { a: 1 }, { a: 2 })).toBe(false);
+    expect(await storage.load('counter')).toBe(2);
+  });
+
+  it('should let only one concurrent swap win', async () => {
+    await storage.save('counter', 10);
+    const results = await Promise.all([
+      storage.compareAndSwap('counter', 10, 1),
+      storage.compareAndSwap('counter', 10, 2),
+      storage.compareAndSwap('counter', 10, 3)
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect([1, 2, 3]).toContain(await storage.load('counter'));
+  });
+
+  it('should keep the expiration when swapping', async () => {
+    await storage.save('session', { hits: 0 }, { ttl: 60_000 });
+    const before = await storage.loadWithMeta('session');
+
+    await storage.compareAndSwap('session', { hits: 0 }, { hits: 1 });
+
+    expect((await storage.loadWithMeta('session'))!.expiresAt).toBe(before!.expiresAt);
+  });
+
+  it('should fall back to a locked check for adapters without compareAndSave', async () => {
+    const map = new Map<string, any>();
+    const adapter: StorageAdapter<any> = {
+      save: async (key, data) => { map.set(key, data); },
+      load: async key => map.get(key) ?? null,
+      delete: async key => { map.delete(key); },
+      clear: async () => { map.clear(); }
+    };
+    const plain = new DataStorage<any>(adapter);
+
+    await plain.save('doc', 'v1');
+    const { version } = (await plain.loadWithMeta('doc'))!;
+    await plain.save('doc', 'v2', { ifVersion: version });
+    await expect(plain.save('doc', 'v3', { ifVersion: version })).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should version decoded values behind a TransformingAdapter', async () => {
+    const wrapped = new DataStorage<any>(
+      new TransformingAdapter<any>(new InMemoryAdapter<any>(), { encryption: 'simple', encryptionKey: 'k' })
+    );
+    await wrapped.save('doc', { a: 1 });
+
+    expect(await wrapped.compareAndSwap('doc', { a: 1 }, { a: 2 })).toBe(true);
+    expect(await wrapped.load('doc')).toEqual({ a: 2 });
+  });
+});
+
+describe('Optimistic concurrency across JSON file adapters', () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'versioning-test-'));
+    file = path.join(tempDir, 'shared.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should detect writes made by another process', async () => {
+    // Two instances on the same file act as two processes with separate caches
+    const processA = new DataStorage<any>(new JSONFileAdapter<any>(file));
+    const processB = new DataStorage<any>(new JSONFileAdapter<any>(file));
+
+    await processA.save('doc', { n: 1 });
+    const seenByB = (await processB.loadWithMeta('doc'))!;
+    const seenByA = (await processA.loadWithMeta('doc'))!;
+
+    await processB.save('doc', { n: 2, by: 'B' }, { ifVersion: seenByB.version });
+    await expect(processA.save('doc', { n: 2, by: 'A' }, { ifVersion: seenByA.version }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    // After the conflict A sees B's value and can retry
+    const fresh = (await processA.loadWithMeta('doc'))!;
+    expect(fresh.value).toEqual({ n: 2, by: 'B' });
+    await processA.save('doc', { n: 3, by: 'A' }, { ifVersion: fresh.version });
+
+    expect(JSON.parse(await fs.readFile(file, 'utf-8'))).toEqual({ doc: { n: 3, by: 'A' } });
+  });
+});